@@ -0,0 +1,59 @@
+// src/app/api/cron/cleanup-photos/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import {
+  DEFAULT_GRACE_HOURS,
+  collectOrphanedPhotos,
+} from "@/lib/jobs/collect-orphaned-photos";
+
+// Called by the scheduler with `Authorization: Bearer $CRON_SECRET`.
+// Pass ?dry_run=true to only report orphaned files, and ?grace_hours=N
+// to change how old a file must be before it's collected.
+export async function GET(request: NextRequest) {
+  const authHeader = request.headers.get("authorization");
+  if (
+    !process.env.CRON_SECRET ||
+    authHeader !== `Bearer ${process.env.CRON_SECRET}`
+  ) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { searchParams } = request.nextUrl;
+  const dryRun = searchParams.get("dry_run") === "true";
+  const graceHours = Number(
+    searchParams.get("grace_hours") ?? DEFAULT_GRACE_HOURS
+  );
+
+  if (!Number.isFinite(graceHours) || graceHours < 0) {
+    return NextResponse.json(
+      { error: "grace_hours must be a non-negative number" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const { scanned, orphaned, deleted, errors } = await collectOrphanedPhotos({
+      dryRun,
+      graceHours,
+    });
+    const result = {
+      dryRun,
+      scanned,
+      orphaned: orphaned.length,
+      orphanedBytes: orphaned.reduce(
+        (total, file) => total + (file.size || 0),
+        0
+      ),
+      deleted,
+      errors,
+    };
+    console.log("Photo cleanup job finished:", result);
+
+    return NextResponse.json({ ...result, files: orphaned });
+  } catch (error) {
+    console.error("Photo cleanup job error:", error);
+    return NextResponse.json(
+      { error: "Failed to clean up photos" },
+      { status: 500 }
+    );
+  }
+}
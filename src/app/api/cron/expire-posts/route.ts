@@ -0,0 +1,27 @@
+// src/app/api/cron/expire-posts/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { expireStalePosts } from "@/lib/jobs/expire-posts";
+
+// Called by the scheduler with `Authorization: Bearer $CRON_SECRET`
+export async function GET(request: NextRequest) {
+  const authHeader = request.headers.get("authorization");
+  if (
+    !process.env.CRON_SECRET ||
+    authHeader !== `Bearer ${process.env.CRON_SECRET}`
+  ) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const result = await expireStalePosts(request.nextUrl.origin);
+    console.log("Post expiry job finished:", result);
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error("Post expiry job error:", error);
+    return NextResponse.json(
+      { error: "Failed to expire posts" },
+      { status: 500 }
+    );
+  }
+}
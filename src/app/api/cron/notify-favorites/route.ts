@@ -0,0 +1,27 @@
+// src/app/api/cron/notify-favorites/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { notifyFavoriteChanges } from "@/lib/jobs/notify-favorites";
+
+// Called by the scheduler with `Authorization: Bearer $CRON_SECRET`
+export async function GET(request: NextRequest) {
+  const authHeader = request.headers.get("authorization");
+  if (
+    !process.env.CRON_SECRET ||
+    authHeader !== `Bearer ${process.env.CRON_SECRET}`
+  ) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const result = await notifyFavoriteChanges(request.nextUrl.origin);
+    console.log("Saved post notification job finished:", result);
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error("Saved post notification job error:", error);
+    return NextResponse.json(
+      { error: "Failed to notify saved post changes" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,39 @@
+// src/app/api/cron/publish-posts/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { publishScheduledPosts } from "@/lib/jobs/publish-scheduled-posts";
+import { notifySavedSearchMatches } from "@/lib/jobs/notify-saved-searches";
+
+// Called by the scheduler with `Authorization: Bearer $CRON_SECRET`
+export async function GET(request: NextRequest) {
+  const authHeader = request.headers.get("authorization");
+  if (
+    !process.env.CRON_SECRET ||
+    authHeader !== `Bearer ${process.env.CRON_SECRET}`
+  ) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const { published, errors } = await publishScheduledPosts();
+    const {
+      matched,
+      emailed,
+      errors: matchErrors,
+    } = await notifySavedSearchMatches(published, request.nextUrl.origin);
+    const result = {
+      published: published.length,
+      matched,
+      emailed,
+      errors: [...errors, ...matchErrors],
+    };
+    console.log("Scheduled publishing job finished:", result);
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error("Scheduled publishing job error:", error);
+    return NextResponse.json(
+      { error: "Failed to publish scheduled posts" },
+      { status: 500 }
+    );
+  }
+}
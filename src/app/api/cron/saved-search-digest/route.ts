@@ -0,0 +1,27 @@
+// src/app/api/cron/saved-search-digest/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { sendSavedSearchDigests } from "@/lib/jobs/notify-saved-searches";
+
+// Called once a day by the scheduler with `Authorization: Bearer $CRON_SECRET`
+export async function GET(request: NextRequest) {
+  const authHeader = request.headers.get("authorization");
+  if (
+    !process.env.CRON_SECRET ||
+    authHeader !== `Bearer ${process.env.CRON_SECRET}`
+  ) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const result = await sendSavedSearchDigests(request.nextUrl.origin);
+    console.log("Saved search digest job finished:", result);
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error("Saved search digest job error:", error);
+    return NextResponse.json(
+      { error: "Failed to send saved search digests" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,152 @@
+// src/app/api/email/inbound/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { createServiceClient } from "@/lib/server";
+import { MessageService } from "@/lib/messages";
+import { notifyMessageRecipient } from "@/lib/email-services/message-email";
+import { extractReplyText, parseInboundEmail } from "@/lib/inbound-email";
+import {
+  isReplyByEmailEnabled,
+  parseReplyAddress,
+  resolveReplyToken,
+} from "@/lib/reply-addresses";
+
+// Our own prefix, plus the "Re:"s mail clients stack in front of it
+const SUBJECT_PREFIX_PATTERN = /^((re|fwd?):\s*|\[Capmus Marketplace\]\s*)+/i;
+
+/**
+ * Replies to message notification emails, forwarded as raw MIME by the
+ * mail provider with `Authorization: Bearer $INBOUND_EMAIL_SECRET`.
+ *
+ * To try it locally, put a real token in the fixture's addresses and run:
+ *   curl -X POST http://localhost:3000/api/email/inbound \
+ *     -H "Authorization: Bearer $INBOUND_EMAIL_SECRET" \
+ *     -H "Content-Type: message/rfc822" \
+ *     --data-binary @src/app/api/email/inbound/__fixtures__/reply.eml
+ */
+export async function POST(request: NextRequest) {
+  const authHeader = request.headers.get("authorization");
+  if (
+    !process.env.INBOUND_EMAIL_SECRET ||
+    authHeader !== `Bearer ${process.env.INBOUND_EMAIL_SECRET}`
+  ) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  if (!isReplyByEmailEnabled()) {
+    return NextResponse.json(
+      { error: "Inbound email is not configured" },
+      { status: 503 }
+    );
+  }
+
+  try {
+    const raw = Buffer.from(await request.arrayBuffer());
+    if (raw.length === 0) {
+      return NextResponse.json({ error: "Empty email" }, { status: 400 });
+    }
+
+    const email = await parseInboundEmail(raw);
+
+    const token = email.recipients
+      .map(parseReplyAddress)
+      .find((value): value is string => !!value);
+    if (!token) {
+      return NextResponse.json(
+        { error: "No reply address found" },
+        { status: 404 }
+      );
+    }
+
+    const supabase = createServiceClient();
+
+    const { data: replyToken, error: tokenError } = await resolveReplyToken(
+      token,
+      supabase
+    );
+    if (tokenError) {
+      throw new Error(tokenError);
+    }
+    if (!replyToken) {
+      return NextResponse.json(
+        { error: "Unknown reply address" },
+        { status: 404 }
+      );
+    }
+    if (replyToken.revoked_at) {
+      return NextResponse.json(
+        { error: "Reply address has been revoked" },
+        { status: 410 }
+      );
+    }
+
+    // The token is only good for mail from the person it was issued to,
+    // so a forwarded notification can't be used to reply as them
+    const { data: owner, error: ownerError } = await supabase
+      .from("profiles")
+      .select("email")
+      .eq("id", replyToken.user_id)
+      .single();
+    if (ownerError) {
+      throw new Error(ownerError.message);
+    }
+    if (
+      !email.from ||
+      email.from.toLowerCase() !== owner.email?.toLowerCase()
+    ) {
+      return NextResponse.json(
+        { error: "Sender does not match reply address" },
+        { status: 403 }
+      );
+    }
+
+    const text = extractReplyText(email.text);
+    if (!text) {
+      return NextResponse.json({ error: "Reply is empty" }, { status: 422 });
+    }
+
+    const { data: post } = await supabase
+      .from("posts")
+      .select("title")
+      .eq("id", replyToken.post_id)
+      .single();
+
+    const subject =
+      email.subject.replace(SUBJECT_PREFIX_PATTERN, "").trim() ||
+      post?.title ||
+      "Your listing";
+
+    const { data: message, error: saveError } =
+      await MessageService.saveInboundReply(
+        {
+          post_id: replyToken.post_id,
+          sender_id: replyToken.user_id,
+          recipient_id: replyToken.counterpart_id,
+          subject: `Re: ${subject}`,
+          message: text,
+        },
+        supabase
+      );
+    if (saveError || !message) {
+      throw new Error(saveError || "Failed to save reply");
+    }
+
+    // Let the other person know, with their own alias so the conversation
+    // can carry on by email
+    const notification = await notifyMessageRecipient(
+      message,
+      request.nextUrl.origin,
+      supabase
+    );
+    if (!notification.success) {
+      console.error("Reply notification failed:", notification.error);
+    }
+
+    return NextResponse.json({ received: true, messageId: message.id });
+  } catch (error) {
+    console.error("Inbound email error:", error);
+    return NextResponse.json(
+      { error: "Failed to process email" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,196 @@
+// src/app/api/messages/contact/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { SupabaseClient, User } from "@supabase/supabase-js";
+import { createClient, createServiceClient } from "@/lib/server";
+import { isContactRevoked, revokeReplyToken } from "@/lib/reply-addresses";
+import { Database } from "@/lib/types";
+
+type Authenticated =
+  | { user: User; postId: string; otherUserId: string }
+  | { response: NextResponse };
+
+async function authenticate(request: NextRequest): Promise<Authenticated> {
+  const postId = request.nextUrl.searchParams.get("postId");
+  const otherUserId = request.nextUrl.searchParams.get("userId");
+
+  if (!postId || !otherUserId) {
+    return {
+      response: NextResponse.json(
+        { error: "postId and userId are required" },
+        { status: 400 }
+      ),
+    };
+  }
+
+  // Get the authorization header
+  const authHeader = request.headers.get("authorization");
+  const token = authHeader?.replace("Bearer ", "");
+
+  // Check authentication
+  const {
+    data: { user },
+    error: authError,
+  } = await createClient(token).auth.getUser();
+
+  if (authError || !user) {
+    return {
+      response: NextResponse.json({ error: "Unauthorized" }, { status: 401 }),
+    };
+  }
+
+  if (user.id === otherUserId) {
+    return {
+      response: NextResponse.json(
+        { error: "That's your own account" },
+        { status: 400 }
+      ),
+    };
+  }
+
+  return { user, postId, otherUserId };
+}
+
+// Both directions: the alias the other person uses to reach the user, and
+// the one the user uses to reach them
+async function getContactStatus(
+  userId: string,
+  postId: string,
+  otherUserId: string,
+  supabase: SupabaseClient<Database>
+) {
+  const [byMe, byThem] = await Promise.all([
+    isContactRevoked(
+      { postId, userId: otherUserId, counterpartId: userId },
+      supabase
+    ),
+    isContactRevoked({ postId, userId, counterpartId: otherUserId }, supabase),
+  ]);
+
+  const error = byMe.error || byThem.error;
+  if (error) {
+    return { data: null, error };
+  }
+
+  return {
+    data: { revokedByMe: byMe.data, revokedByThem: byThem.data },
+    error: null,
+  };
+}
+
+// Whether the two have messaged each other about the post, in either
+// direction
+async function hasConversation(
+  userId: string,
+  postId: string,
+  otherUserId: string,
+  supabase: SupabaseClient<Database>
+) {
+  const countMessages = (senderId: string, recipientId: string) =>
+    supabase
+      .from("messages")
+      .select("id", { count: "exact", head: true })
+      .eq("post_id", postId)
+      .eq("sender_id", senderId)
+      .eq("recipient_id", recipientId);
+
+  const [sent, received] = await Promise.all([
+    countMessages(userId, otherUserId),
+    countMessages(otherUserId, userId),
+  ]);
+
+  const error = sent.error || received.error;
+  if (error) {
+    return { data: false, error: error.message };
+  }
+
+  return { data: (sent.count || 0) + (received.count || 0) > 0, error: null };
+}
+
+// Whether either person has revoked contact in this conversation
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authenticate(request);
+    if ("response" in auth) return auth.response;
+
+    const { data, error } = await getContactStatus(
+      auth.user.id,
+      auth.postId,
+      auth.otherUserId,
+      createServiceClient()
+    );
+
+    if (error) {
+      return NextResponse.json({ error }, { status: 500 });
+    }
+
+    return NextResponse.json(data);
+  } catch (error) {
+    console.error("Contact status error:", error);
+    return NextResponse.json(
+      { error: "Failed to check contact" },
+      { status: 500 }
+    );
+  }
+}
+
+// Revoke the other person's relay alias so they can't contact the user
+// about this post again
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authenticate(request);
+    if ("response" in auth) return auth.response;
+
+    const supabase = createServiceClient();
+
+    // Only an existing conversation can be cut off, so this can't be used
+    // to create or revoke aliases for arbitrary pairs of users
+    const { data: exists, error: conversationError } = await hasConversation(
+      auth.user.id,
+      auth.postId,
+      auth.otherUserId,
+      supabase
+    );
+
+    if (conversationError) {
+      return NextResponse.json({ error: conversationError }, { status: 500 });
+    }
+    if (!exists) {
+      return NextResponse.json(
+        { error: "Conversation not found" },
+        { status: 404 }
+      );
+    }
+
+    const { error: revokeError } = await revokeReplyToken(
+      {
+        postId: auth.postId,
+        userId: auth.otherUserId,
+        counterpartId: auth.user.id,
+      },
+      supabase
+    );
+
+    if (revokeError) {
+      return NextResponse.json({ error: revokeError }, { status: 500 });
+    }
+
+    const { data, error } = await getContactStatus(
+      auth.user.id,
+      auth.postId,
+      auth.otherUserId,
+      supabase
+    );
+
+    if (error) {
+      return NextResponse.json({ error }, { status: 500 });
+    }
+
+    return NextResponse.json(data);
+  } catch (error) {
+    console.error("Revoke contact error:", error);
+    return NextResponse.json(
+      { error: "Failed to revoke contact" },
+      { status: 500 }
+    );
+  }
+}
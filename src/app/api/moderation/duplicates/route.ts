@@ -0,0 +1,45 @@
+// src/app/api/moderation/duplicates/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { createClient, createServiceClient } from "@/lib/server";
+import { PostService } from "@/lib/posts";
+import { isModerator } from "@/lib/moderation";
+
+// Posts flagged as possible reposts, for moderators to review
+export async function GET(request: NextRequest) {
+  try {
+    // Get the authorization header
+    const authHeader = request.headers.get("authorization");
+    const token = authHeader?.replace("Bearer ", "");
+
+    // Check authentication
+    const {
+      data: { user },
+      error: authError,
+    } = await createClient(token).auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (!isModerator(user.email)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    // Service client so every seller's posts are visible
+    const { data, error } = await PostService.getFlaggedPosts(
+      createServiceClient()
+    );
+
+    if (error) {
+      return NextResponse.json({ error }, { status: 500 });
+    }
+
+    return NextResponse.json({ posts: data });
+  } catch (error) {
+    console.error("Flagged posts error:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch flagged posts" },
+      { status: 500 }
+    );
+  }
+}
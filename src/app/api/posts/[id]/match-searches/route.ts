@@ -0,0 +1,68 @@
+// src/app/api/posts/[id]/match-searches/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/server";
+import { notifySavedSearchMatches } from "@/lib/jobs/notify-saved-searches";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// Called by the seller's browser after creating a post, so subscribers
+// whose saved searches match it can be alerted
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+
+  try {
+    // Get the authorization header
+    const authHeader = request.headers.get("authorization");
+    const token = authHeader?.replace("Bearer ", "");
+
+    const supabase = createClient(token);
+
+    // Check authentication
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { data: post, error: postError } = await supabase
+      .from("posts")
+      .select("*")
+      .eq("id", id)
+      .single();
+
+    if (postError || !post) {
+      return NextResponse.json({ error: "Post not found" }, { status: 404 });
+    }
+
+    if (post.seller_id !== user.id) {
+      return NextResponse.json(
+        { error: "You can only match your own posts" },
+        { status: 403 }
+      );
+    }
+
+    const result = await notifySavedSearchMatches(
+      [post],
+      request.nextUrl.origin
+    );
+    if (result.errors.length > 0) {
+      console.error("Saved search matching errors:", result.errors);
+    }
+
+    return NextResponse.json({
+      matched: result.matched,
+      emailed: result.emailed,
+    });
+  } catch (error) {
+    console.error("Saved search matching error:", error);
+    return NextResponse.json(
+      { error: "Failed to match saved searches" },
+      { status: 500 }
+    );
+  }
+}
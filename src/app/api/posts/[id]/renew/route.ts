@@ -0,0 +1,132 @@
+// src/app/api/posts/[id]/renew/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { createServiceClient } from "@/lib/server";
+import { PostService } from "@/lib/posts";
+import { verifyRenewalToken } from "@/lib/renewal-tokens";
+import { escapeHtml } from "@/lib/utils";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// Check the renewal link's token against the post it's for
+async function findRenewablePost(id: string, token: string | null) {
+  if (!token) {
+    return {
+      post: null,
+      response: NextResponse.json(
+        { error: "Renewal token is required" },
+        { status: 400 }
+      ),
+    };
+  }
+
+  const supabase = createServiceClient();
+
+  const { data: post, error } = await supabase
+    .from("posts")
+    .select("id, title, expires_at")
+    .eq("id", id)
+    .single();
+
+  if (error || !post?.expires_at) {
+    return {
+      post: null,
+      response: NextResponse.json({ error: "Post not found" }, { status: 404 }),
+    };
+  }
+
+  if (!verifyRenewalToken(post.id, post.expires_at, token)) {
+    return {
+      post: null,
+      response: NextResponse.json(
+        { error: "This renewal link is invalid or has already been used" },
+        { status: 400 }
+      ),
+    };
+  }
+
+  return { post, response: null };
+}
+
+// The link in the expiry email only asks for confirmation. Mail scanners
+// and link prefetchers follow GET links, so renewing happens on the POST.
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  const token = request.nextUrl.searchParams.get("token");
+
+  try {
+    const { post, response } = await findRenewablePost(id, token);
+    if (!post) return response;
+
+    const action = `/api/posts/${encodeURIComponent(
+      id
+    )}/renew?token=${encodeURIComponent(token!)}`;
+
+    const html = `
+      <!DOCTYPE html>
+      <html>
+        <head>
+          <meta charset="utf-8">
+          <meta name="viewport" content="width=device-width, initial-scale=1.0">
+          <title>Renew your listing</title>
+        </head>
+        <body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; color: #333; line-height: 1.6;">
+          <div style="max-width: 600px; margin: 0 auto; padding: 24px;">
+            <h2 style="color: #1e293b;">Renew your listing?</h2>
+            <p>
+              <strong>${escapeHtml(post.title)}</strong> will go back on
+              Campus Marketplace for another listing period.
+            </p>
+            <form method="post" action="${escapeHtml(action)}">
+              <button type="submit" style="padding: 12px 30px; background: #3b82f6; color: white; border: none; border-radius: 8px; font-weight: 600; font-size: 16px; cursor: pointer;">
+                Renew listing
+              </button>
+            </form>
+          </div>
+        </body>
+      </html>
+    `;
+
+    return new NextResponse(html, {
+      headers: { "Content-Type": "text/html; charset=utf-8" },
+    });
+  } catch (error) {
+    console.error("Post renewal error:", error);
+    return NextResponse.json(
+      { error: "Failed to renew post" },
+      { status: 500 }
+    );
+  }
+}
+
+// Submitted from the confirmation page
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  const token = request.nextUrl.searchParams.get("token");
+
+  try {
+    const { post, response } = await findRenewablePost(id, token);
+    if (!post) return response;
+
+    const { error: renewError } = await PostService.renewPost(
+      id,
+      createServiceClient()
+    );
+    if (renewError) {
+      return NextResponse.json({ error: renewError }, { status: 400 });
+    }
+
+    // 303 so the browser follows the redirect with a GET
+    return NextResponse.redirect(
+      new URL(`/post/${id}?renewed=true`, request.url),
+      303
+    );
+  } catch (error) {
+    console.error("Post renewal error:", error);
+    return NextResponse.json(
+      { error: "Failed to renew post" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,32 @@
+// src/app/api/posts/[id]/revisions/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/server";
+import { PostService } from "@/lib/posts";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// Public change history so buyers can see what a listing looked like before
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+
+  try {
+    const { data, error } = await PostService.getPostRevisions(
+      id,
+      createClient()
+    );
+
+    if (error) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    return NextResponse.json({ revisions: data });
+  } catch (error) {
+    console.error("Post revisions error:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch post revisions" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,201 @@
+// src/app/api/posts/[id]/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/server";
+import { PostService, PostUpdate } from "@/lib/posts";
+import { syncStripeProduct } from "@/lib/stripe/checkout";
+import { MAX_POST_PHOTOS, normalizePostPhotos } from "@/lib/photo-variants";
+import { validateAttributes } from "@/lib/post-attributes";
+import { CAMPUS_LIST, MAIN_CATEGORIES, SUB_CATEGORIES } from "@/lib/types";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// Fields a seller may change when editing a listing
+const EDITABLE_FIELDS = [
+  "title",
+  "description",
+  "price",
+  "main_category",
+  "sub_category",
+  "campus",
+  "photos",
+  "photo_variants",
+  "attributes",
+] as const;
+
+// Edit a listing; only the seller may update their own post
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+
+  try {
+    // Get the authorization header
+    const authHeader = request.headers.get("authorization");
+    const token = authHeader?.replace("Bearer ", "");
+
+    const supabase = createClient(token);
+
+    // Check authentication
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { data: post, error: postError } = await supabase
+      .from("posts")
+      .select("*")
+      .eq("id", id)
+      .single();
+
+    if (postError || !post) {
+      return NextResponse.json({ error: "Post not found" }, { status: 404 });
+    }
+
+    if (post.seller_id !== user.id) {
+      return NextResponse.json(
+        { error: "You can only edit your own posts" },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const updates: PostUpdate = {};
+    EDITABLE_FIELDS.forEach((field) => {
+      if (body[field] !== undefined) {
+        updates[field] = body[field];
+      }
+    });
+
+    if (updates.title !== undefined && !updates.title.trim()) {
+      return NextResponse.json({ error: "Title is required" }, { status: 400 });
+    }
+
+    // Same rules as the bulk import: a free listing has no price
+    if (
+      updates.price !== undefined &&
+      updates.price !== null &&
+      (typeof updates.price !== "number" ||
+        !Number.isFinite(updates.price) ||
+        updates.price < 0)
+    ) {
+      return NextResponse.json(
+        { error: "Price must be a number of 0 or more" },
+        { status: 400 }
+      );
+    }
+
+    if (
+      updates.main_category !== undefined ||
+      updates.sub_category !== undefined
+    ) {
+      const mainCategory = updates.main_category ?? post.main_category;
+      const subCategory = updates.sub_category ?? post.sub_category;
+
+      if (!(MAIN_CATEGORIES as readonly string[]).includes(mainCategory)) {
+        return NextResponse.json(
+          { error: "Unknown main category" },
+          { status: 400 }
+        );
+      }
+
+      const subCategories: readonly string[] =
+        SUB_CATEGORIES[mainCategory as keyof typeof SUB_CATEGORIES];
+      if (!subCategories.includes(subCategory)) {
+        return NextResponse.json(
+          { error: `"${subCategory}" is not a ${mainCategory} sub category` },
+          { status: 400 }
+        );
+      }
+    }
+
+    if (
+      updates.campus !== undefined &&
+      !(CAMPUS_LIST as readonly string[]).includes(updates.campus)
+    ) {
+      return NextResponse.json({ error: "Unknown campus" }, { status: 400 });
+    }
+
+    if (updates.photos !== undefined) {
+      if (!Array.isArray(updates.photos)) {
+        return NextResponse.json(
+          { error: "Photos must be a list" },
+          { status: 400 }
+        );
+      }
+
+      updates.photos = normalizePostPhotos(updates.photos);
+
+      if (updates.photos.length === 0) {
+        return NextResponse.json(
+          { error: "At least one photo is required" },
+          { status: 400 }
+        );
+      }
+
+      if (updates.photos.length > MAX_POST_PHOTOS) {
+        return NextResponse.json(
+          { error: `A post can have at most ${MAX_POST_PHOTOS} photos` },
+          { status: 400 }
+        );
+      }
+    }
+
+    // Attributes are checked against the post's category, including when
+    // only the category changes and the existing attributes no longer fit
+    if (
+      updates.attributes !== undefined ||
+      updates.main_category !== undefined ||
+      updates.sub_category !== undefined
+    ) {
+      const values = updates.attributes ?? post.attributes ?? {};
+      if (typeof values !== "object" || Array.isArray(values)) {
+        return NextResponse.json(
+          { error: "Attributes must be an object" },
+          { status: 400 }
+        );
+      }
+
+      const { data: attributes, errors } = validateAttributes(
+        updates.main_category ?? post.main_category,
+        updates.sub_category ?? post.sub_category,
+        values
+      );
+
+      if (!attributes) {
+        return NextResponse.json(
+          { error: "Invalid attributes", errors },
+          { status: 400 }
+        );
+      }
+
+      updates.attributes = attributes;
+    }
+
+    const { data: updated, error: updateError } = await PostService.updatePost(
+      id,
+      updates,
+      supabase
+    );
+
+    if (updateError || !updated) {
+      return NextResponse.json(
+        { error: updateError || "Failed to update post" },
+        { status: 400 }
+      );
+    }
+
+    await syncStripeProduct(updated, post, supabase);
+
+    return NextResponse.json({ post: updated });
+  } catch (error) {
+    console.error("Post update error:", error);
+    return NextResponse.json(
+      { error: "Failed to update post" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,455 @@
+// src/app/api/posts/import/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { lookup } from "dns/promises";
+import { BlockList, isIP } from "net";
+import JSZip from "jszip";
+import { createClient } from "@/lib/server";
+import {
+  CreatePostData,
+  getRepostBlockedError,
+  PostService,
+} from "@/lib/posts";
+import {
+  BULK_IMPORT_MAX_ROWS,
+  ImportFormat,
+  ImportRowData,
+  ImportRowResult,
+  isPhotoUrl,
+  parseImportFile,
+  validateImportRow,
+} from "@/lib/bulk-import";
+import { uploadProcessedPhotos } from "@/lib/image-pipeline";
+import { notifySavedSearchMatches } from "@/lib/jobs/notify-saved-searches";
+import { getPhotoFileUrls, pickPhotoVariants } from "@/lib/photo-variants";
+import { validateFile } from "@/lib/utils";
+
+const MAX_ZIP_SIZE = 50 * 1024 * 1024; // 50MB
+const MAX_PHOTO_SIZE = 5 * 1024 * 1024; // 5MB, as in validateFile
+// Every photo in one import together, unzipped or downloaded
+const MAX_TOTAL_PHOTO_SIZE = 200 * 1024 * 1024; // 200MB
+const REMOTE_PHOTO_TIMEOUT_MS = 10000;
+const MAX_PHOTO_REDIRECTS = 3;
+
+// Where a photo URL from an import file may not lead: loopback, private
+// networks, link-local (including cloud metadata at 169.254.169.254) and
+// other ranges that aren't on the public internet
+const NON_PUBLIC_NETWORKS: [string, number, "ipv4" | "ipv6"][] = [
+  ["0.0.0.0", 8, "ipv4"],
+  ["10.0.0.0", 8, "ipv4"],
+  ["100.64.0.0", 10, "ipv4"],
+  ["127.0.0.0", 8, "ipv4"],
+  ["169.254.0.0", 16, "ipv4"],
+  ["172.16.0.0", 12, "ipv4"],
+  ["192.0.0.0", 24, "ipv4"],
+  ["192.168.0.0", 16, "ipv4"],
+  ["198.18.0.0", 15, "ipv4"],
+  // Multicast, reserved and broadcast
+  ["224.0.0.0", 3, "ipv4"],
+  ["::", 128, "ipv6"],
+  ["::1", 128, "ipv6"],
+  // NAT64 can wrap any IPv4 address; BlockList already checks
+  // IPv4-mapped addresses (::ffff:a.b.c.d) against the IPv4 ranges
+  ["64:ff9b::", 96, "ipv6"],
+  ["fc00::", 7, "ipv6"],
+  ["fe80::", 10, "ipv6"],
+  ["ff00::", 8, "ipv6"],
+];
+
+const nonPublicAddresses = new BlockList();
+NON_PUBLIC_NETWORKS.forEach(([network, prefix, type]) =>
+  nonPublicAddresses.addSubnet(network, prefix, type)
+);
+
+const PHOTO_CONTENT_TYPES: Record<string, string> = {
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  png: "image/png",
+  webp: "image/webp",
+};
+
+// Zip entries are matched by file name only, ignoring folders and case
+const photoKey = (path: string) => path.split("/").pop()!.toLowerCase();
+
+// The uncompressed size recorded in the zip's central directory. JSZip
+// keeps it on a private field.
+const declaredSize = (entry: JSZip.JSZipObject) =>
+  (entry as unknown as { _data?: { uncompressedSize?: number } })._data
+    ?.uncompressedSize ?? 0;
+
+// Unzip an entry, or null when it's bigger than maxSize. The recorded size
+// can be forged, so the output is counted too and inflating stops as soon
+// as it runs over.
+async function readZipEntry(
+  entry: JSZip.JSZipObject,
+  maxSize: number
+): Promise<Buffer | null> {
+  if (declaredSize(entry) > maxSize) {
+    return null;
+  }
+
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    const stream = entry.nodeStream("nodebuffer");
+    stream.on("data", (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > maxSize) {
+        stream.pause();
+        stream.removeAllListeners();
+        resolve(null);
+        return;
+      }
+      chunks.push(chunk);
+    });
+    stream.on("end", () => resolve(Buffer.concat(chunks)));
+    stream.on("error", reject);
+  });
+}
+
+// Whether a URL may be fetched: http(s), and every address its host
+// resolves to is public
+async function isPublicUrl(url: URL): Promise<boolean> {
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    return false;
+  }
+
+  // IPv6 literals keep their brackets in URL.hostname
+  const host = url.hostname.replace(/^\[|\]$/g, "");
+
+  try {
+    const addresses = isIP(host)
+      ? [{ address: host, family: isIP(host) }]
+      : await lookup(host, { all: true, verbatim: true });
+
+    return (
+      addresses.length > 0 &&
+      addresses.every(
+        ({ address, family }) =>
+          !nonPublicAddresses.check(address, family === 6 ? "ipv6" : "ipv4")
+      )
+    );
+  } catch {
+    return false;
+  }
+}
+
+// Download a photo referenced by URL so it goes through the same
+// processing as uploads (EXIF stripped, resized, blurhashed). Redirects
+// are followed by hand so every hop is checked.
+async function fetchRemotePhoto(
+  url: string,
+  maxSize: number
+): Promise<{ data: File | null; error: string | null }> {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), REMOTE_PHOTO_TIMEOUT_MS);
+
+  try {
+    let target = new URL(url);
+    let response: Response | null = null;
+
+    for (let hop = 0; hop <= MAX_PHOTO_REDIRECTS; hop++) {
+      if (!(await isPublicUrl(target))) {
+        return {
+          data: null,
+          error: "Photo URLs must point to a public web address",
+        };
+      }
+
+      const hopResponse = await fetch(target, {
+        signal: controller.signal,
+        redirect: "manual",
+      });
+      const location = hopResponse.headers.get("location");
+
+      if (hopResponse.status >= 300 && hopResponse.status < 400 && location) {
+        await hopResponse.body?.cancel();
+        target = new URL(location, target);
+        continue;
+      }
+
+      response = hopResponse;
+      break;
+    }
+
+    if (!response) {
+      return { data: null, error: "Too many redirects" };
+    }
+
+    if (!response.ok || !response.body) {
+      return {
+        data: null,
+        error: `Couldn't download photo (HTTP ${response.status})`,
+      };
+    }
+
+    const tooLarge = { data: null, error: "File size must be less than 5MB" };
+    if (Number(response.headers.get("content-length")) > maxSize) {
+      return tooLarge;
+    }
+
+    const reader = response.body.getReader();
+    const chunks: Uint8Array[] = [];
+    let size = 0;
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      size += value.length;
+      if (size > maxSize) {
+        await reader.cancel();
+        return tooLarge;
+      }
+      chunks.push(value);
+    }
+
+    const type = (response.headers.get("content-type") || "")
+      .split(";")[0]
+      .trim()
+      .toLowerCase();
+    const name = photoKey(new URL(url).pathname) || "photo";
+
+    return { data: new File(chunks, name, { type }), error: null };
+  } catch {
+    return { data: null, error: "Couldn't download photo" };
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+// Create many posts from a CSV/JSON file plus an optional zip of photos.
+// Nothing is created unless every row is valid.
+export async function POST(request: NextRequest) {
+  try {
+    // Get the authorization header
+    const authHeader = request.headers.get("authorization");
+    const token = authHeader?.replace("Bearer ", "");
+
+    const supabase = createClient(token);
+
+    // Check authentication
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const formData = await request.formData();
+    const file = formData.get("file");
+    const photosZip = formData.get("photos");
+
+    if (!(file instanceof File)) {
+      return NextResponse.json(
+        { error: "A CSV or JSON file is required" },
+        { status: 400 }
+      );
+    }
+
+    const format: ImportFormat = file.name.toLowerCase().endsWith(".json")
+      ? "json"
+      : "csv";
+    const { rows, error: parseError } = parseImportFile(
+      await file.text(),
+      format
+    );
+
+    if (parseError) {
+      return NextResponse.json({ error: parseError }, { status: 400 });
+    }
+
+    if (rows.length === 0) {
+      return NextResponse.json(
+        { error: "The file has no rows to import" },
+        { status: 400 }
+      );
+    }
+
+    if (rows.length > BULK_IMPORT_MAX_ROWS) {
+      return NextResponse.json(
+        { error: `Imports are limited to ${BULK_IMPORT_MAX_ROWS} rows` },
+        { status: 400 }
+      );
+    }
+
+    // Index the zip so rows can reference photos by file name
+    const zipEntries = new Map<string, JSZip.JSZipObject>();
+    if (photosZip instanceof File && photosZip.size > 0) {
+      if (photosZip.size > MAX_ZIP_SIZE) {
+        return NextResponse.json(
+          { error: "The photos zip must be smaller than 50MB" },
+          { status: 400 }
+        );
+      }
+
+      const zip = await JSZip.loadAsync(await photosZip.arrayBuffer());
+      zip.forEach((path, entry) => {
+        if (!entry.dir) zipEntries.set(photoKey(path), entry);
+      });
+    }
+
+    // Validate every row before touching storage or the database. Photos
+    // are keyed by zip file name or by URL.
+    const photoFiles = new Map<string, File>();
+    const validRows: ImportRowData[] = [];
+    const results: ImportRowResult[] = [];
+    let totalPhotoSize = 0;
+
+    for (let index = 0; index < rows.length; index++) {
+      const { data, errors } = validateImportRow(rows[index]);
+
+      for (const photo of data?.photos || []) {
+        const key = isPhotoUrl(photo) ? photo : photoKey(photo);
+        if (photoFiles.has(key)) continue;
+
+        let photoFile: File;
+        if (isPhotoUrl(photo)) {
+          const { data: downloaded, error: downloadError } =
+            await fetchRemotePhoto(photo, MAX_PHOTO_SIZE);
+          if (!downloaded) {
+            errors.push(`${photo}: ${downloadError}`);
+            continue;
+          }
+          photoFile = downloaded;
+        } else {
+          const entry = zipEntries.get(key);
+          if (!entry) {
+            errors.push(`Photo "${photo}" was not found in the zip`);
+            continue;
+          }
+
+          const contents = await readZipEntry(entry, MAX_PHOTO_SIZE);
+          if (!contents) {
+            errors.push(`${photo}: File size must be less than 5MB`);
+            continue;
+          }
+
+          const extension = key.split(".").pop() || "";
+          photoFile = new File([contents], key, {
+            type: PHOTO_CONTENT_TYPES[extension] || "application/octet-stream",
+          });
+        }
+
+        const validation = validateFile(photoFile);
+        if (!validation.isValid) {
+          errors.push(`${photo}: ${validation.error}`);
+          continue;
+        }
+
+        totalPhotoSize += photoFile.size;
+        if (totalPhotoSize > MAX_TOTAL_PHOTO_SIZE) {
+          return NextResponse.json(
+            { error: "The photos in one import must add up to under 200MB" },
+            { status: 400 }
+          );
+        }
+
+        photoFiles.set(key, photoFile);
+      }
+
+      const title = rows[index].title;
+      results.push({
+        row: index + 1,
+        title: typeof title === "string" ? title : undefined,
+        errors,
+      });
+
+      if (data && errors.length === 0) {
+        validRows.push(data);
+      }
+    }
+
+    if (validRows.length !== rows.length) {
+      return NextResponse.json(
+        { error: "Some rows have errors; nothing was imported", results },
+        { status: 422 }
+      );
+    }
+
+    // Upload each photo once, even when several rows share it
+    const keys = Array.from(photoFiles.keys());
+    const {
+      urls,
+      variants,
+      error: uploadError,
+    } = await uploadProcessedPhotos(
+      keys.map((key) => photoFiles.get(key)!),
+      user.id,
+      supabase
+    );
+
+    if (uploadError) {
+      return NextResponse.json({ error: uploadError }, { status: 500 });
+    }
+
+    const photoUrls = new Map<string, string>();
+    keys.forEach((key, index) => photoUrls.set(key, urls[index]));
+
+    const posts: CreatePostData[] = validRows.map((row) => {
+      const urls = row.photos.map(
+        (photo) => photoUrls.get(isPhotoUrl(photo) ? photo : photoKey(photo))!
+      );
+
+      return {
+        ...row,
+        photos: urls.map((url) => ({ url })),
+        photo_variants: pickPhotoVariants(variants, urls),
+        seller_id: user.id,
+        seller_name: user.user_metadata.full_name || "Campus Marketplace User",
+      };
+    });
+
+    const {
+      data: created,
+      error: createError,
+      duplicates,
+    } = await PostService.createPosts(posts, supabase);
+
+    if (createError) {
+      // The insert is all-or-nothing, so the uploads are now orphaned
+      await PostService.deletePhotos(
+        getPhotoFileUrls(variants, urls),
+        supabase
+      );
+
+      // Reposts that the category doesn't allow are row errors
+      if (
+        (duplicates || []).some((duplicate) => duplicate?.action === "block")
+      ) {
+        (duplicates || []).forEach((duplicate, index) => {
+          if (duplicate?.action === "block") {
+            results[index].errors.push(getRepostBlockedError(duplicate));
+          }
+        });
+        return NextResponse.json(
+          { error: "Some rows have errors; nothing was imported", results },
+          { status: 422 }
+        );
+      }
+
+      return NextResponse.json({ error: createError }, { status: 500 });
+    }
+
+    created.forEach((post, index) => {
+      results[index].postId = post.id;
+    });
+
+    const { errors: matchErrors } = await notifySavedSearchMatches(
+      created,
+      request.nextUrl.origin
+    );
+    if (matchErrors.length > 0) {
+      console.error("Saved search matching errors:", matchErrors);
+    }
+
+    return NextResponse.json({ created: created.length, results });
+  } catch (error) {
+    console.error("Bulk import error:", error);
+    return NextResponse.json(
+      { error: "Failed to import posts" },
+      { status: 500 }
+    );
+  }
+}
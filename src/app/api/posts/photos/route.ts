@@ -0,0 +1,75 @@
+// src/app/api/posts/photos/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/server";
+import { uploadProcessedPhotos } from "@/lib/image-pipeline";
+import { MAX_POST_PHOTOS } from "@/lib/photo-variants";
+import { validateFile } from "@/lib/utils";
+
+// Upload listing photos: strips EXIF, auto-orients and stores resized
+// WebP variants with a blurhash placeholder
+export async function POST(request: NextRequest) {
+  try {
+    // Get the authorization header
+    const authHeader = request.headers.get("authorization");
+    const token = authHeader?.replace("Bearer ", "");
+
+    const supabase = createClient(token);
+
+    // Check authentication
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const formData = await request.formData();
+    const photos = formData
+      .getAll("photos")
+      .filter((photo): photo is File => photo instanceof File);
+
+    if (photos.length === 0) {
+      return NextResponse.json(
+        { error: "At least one photo is required" },
+        { status: 400 }
+      );
+    }
+
+    if (photos.length > MAX_POST_PHOTOS) {
+      return NextResponse.json(
+        { error: `Upload at most ${MAX_POST_PHOTOS} photos at a time` },
+        { status: 400 }
+      );
+    }
+
+    for (const photo of photos) {
+      const validation = validateFile(photo);
+      if (!validation.isValid) {
+        return NextResponse.json(
+          { error: `${photo.name}: ${validation.error}` },
+          { status: 400 }
+        );
+      }
+    }
+
+    const { urls, variants, error } = await uploadProcessedPhotos(
+      photos,
+      user.id,
+      supabase
+    );
+
+    if (error) {
+      return NextResponse.json({ error }, { status: 500 });
+    }
+
+    return NextResponse.json({ urls, variants });
+  } catch (error) {
+    console.error("Photo upload error:", error);
+    return NextResponse.json(
+      { error: "Failed to upload photos" },
+      { status: 500 }
+    );
+  }
+}
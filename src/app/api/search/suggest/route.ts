@@ -0,0 +1,28 @@
+// src/app/api/search/suggest/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/server";
+import { SearchSuggestionService } from "@/lib/search-suggestions";
+
+// Typeahead suggestions for the search bar; public like the listings
+export async function GET(request: NextRequest) {
+  const query = request.nextUrl.searchParams.get("q") || "";
+
+  try {
+    const { data, error } = await SearchSuggestionService.getSuggestions(
+      query,
+      createClient()
+    );
+
+    if (error) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    return NextResponse.json({ suggestions: data });
+  } catch (error) {
+    console.error("Search suggestions error:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch suggestions" },
+      { status: 500 }
+    );
+  }
+}
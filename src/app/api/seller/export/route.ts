@@ -0,0 +1,63 @@
+// src/app/api/seller/export/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/server";
+import {
+  ExportFormat,
+  buildSellerExport,
+  exportToCsv,
+} from "@/lib/seller-export";
+
+// Download the signed-in seller's listings and sales as CSV or JSON
+export async function GET(request: NextRequest) {
+  const format = (request.nextUrl.searchParams.get("format") ||
+    "csv") as ExportFormat;
+
+  if (format !== "csv" && format !== "json") {
+    return NextResponse.json(
+      { error: "Format must be csv or json" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    // Get the authorization header
+    const authHeader = request.headers.get("authorization");
+    const token = authHeader?.replace("Bearer ", "");
+
+    const supabase = createClient(token);
+
+    // Check authentication
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { data, error } = await buildSellerExport(user.id, supabase);
+
+    if (error) {
+      return NextResponse.json({ error }, { status: 500 });
+    }
+
+    const date = new Date().toISOString().slice(0, 10);
+    const body =
+      format === "csv" ? exportToCsv(data) : JSON.stringify(data, null, 2);
+
+    return new NextResponse(body, {
+      headers: {
+        "Content-Type":
+          format === "csv" ? "text/csv; charset=utf-8" : "application/json",
+        "Content-Disposition": `attachment; filename="listings-${date}.${format}"`,
+      },
+    });
+  } catch (error) {
+    console.error("Seller export error:", error);
+    return NextResponse.json(
+      { error: "Failed to export listings" },
+      { status: 500 }
+    );
+  }
+}
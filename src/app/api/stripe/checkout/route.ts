@@ -44,6 +44,14 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: "Post not found" }, { status: 404 });
     }
 
+    // Only active listings can be purchased
+    if (post.status && post.status !== "active") {
+      return NextResponse.json(
+        { error: "This item is no longer available" },
+        { status: 400 }
+      );
+    }
+
     // Check if buyer is trying to buy their own item
     if (post.seller_id === user.id) {
       return NextResponse.json(
@@ -11,6 +11,8 @@ import {
 } from "@/lib/payments";
 import { updateAccountStatus } from "@/lib/stripe/connect";
 import { createClient } from "@/lib/supabase";
+import { createServiceClient } from "@/lib/server";
+import { PostService } from "@/lib/posts";
 import Stripe from "stripe";
 
 const webhookSecret = process.env.STRIPE_WEBHOOK_SECRET!;
@@ -184,6 +186,15 @@ async function handleCheckoutSessionCompleted(
   } else {
     console.error("Failed to create transaction for session:", session.id);
   }
+
+  // Take the listing off the feed now that it has been bought
+  const { error: statusError } = await PostService.markSold(
+    metadata.post_id,
+    createServiceClient()
+  );
+  if (statusError) {
+    console.error("Failed to mark post as sold:", statusError);
+  }
 }
 
 async function handlePaymentIntentSucceeded(
@@ -0,0 +1,189 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { supabase } from "@/lib/supabase";
+import { BULK_IMPORT_MAX_ROWS, ImportRowResult } from "@/lib/bulk-import";
+import ProtectedRoute from "@/components/auth/ProtectedRoute";
+import { AlertCircle, CheckCircle, Loader2, Upload } from "lucide-react";
+
+const CSV_TEMPLATE = `title,description,price,main_category,sub_category,campus,photos,attr.condition
+IKEA desk,Sturdy white desk,40,For Sale,Furniture,Stanford University,desk-1.jpg;desk-2.jpg,Good`;
+
+export default function BulkImportPage() {
+  const [file, setFile] = useState<File | null>(null);
+  const [photosZip, setPhotosZip] = useState<File | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [results, setResults] = useState<ImportRowResult[]>([]);
+  const [createdCount, setCreatedCount] = useState<number | null>(null);
+
+  const handleImport = async () => {
+    if (!file) {
+      setError("Please choose a CSV or JSON file");
+      return;
+    }
+
+    setIsImporting(true);
+    setError(null);
+    setResults([]);
+    setCreatedCount(null);
+
+    try {
+      // Get the current session to get the access token
+      const {
+        data: { session },
+      } = await supabase.auth.getSession();
+
+      if (!session) {
+        throw new Error("No active session");
+      }
+
+      const body = new FormData();
+      body.append("file", file);
+      if (photosZip) body.append("photos", photosZip);
+
+      const response = await fetch("/api/posts/import", {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${session.access_token}`,
+        },
+        body,
+      });
+
+      const data = await response.json();
+      setResults(data.results || []);
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to import posts");
+      }
+
+      setCreatedCount(data.created);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to import posts");
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const failedRows = results.filter((result) => result.errors.length > 0);
+
+  return (
+    <ProtectedRoute>
+      <div className="max-w-4xl mx-auto px-4 py-8 text-black">
+        <h1 className="text-3xl font-bold text-gray-900 mb-2">Bulk Import</h1>
+        <p className="text-gray-600 mb-8">
+          Create up to {BULK_IMPORT_MAX_ROWS} posts at once from a CSV or JSON
+          file. Posts are only created if every row is valid.
+        </p>
+
+        <div className="bg-white rounded-lg shadow-sm p-6 mb-6 space-y-6">
+          <div>
+            <label className="block text-sm font-medium mb-2">
+              Posts file * (CSV or JSON)
+            </label>
+            <input
+              type="file"
+              accept=".csv,.json,text/csv,application/json"
+              onChange={(e) => setFile(e.target.files?.[0] || null)}
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium mb-2">
+              Photos (Optional zip)
+            </label>
+            <input
+              type="file"
+              accept=".zip,application/zip"
+              onChange={(e) => setPhotosZip(e.target.files?.[0] || null)}
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              Reference photos in the <code>photos</code> column by file name,
+              separated by <code>;</code>. Image URLs work too.
+            </p>
+          </div>
+
+          <div>
+            <p className="text-sm font-medium mb-2">CSV format</p>
+            <pre className="text-xs bg-gray-50 border rounded-lg p-3 overflow-x-auto">
+              {CSV_TEMPLATE}
+            </pre>
+            <p className="text-xs text-gray-500 mt-1">
+              Category-specific details go in <code>attr.</code> columns. JSON
+              files use the same fields, with <code>photos</code> as an array
+              and details in an <code>attributes</code> object.
+            </p>
+          </div>
+
+          <button
+            onClick={handleImport}
+            disabled={isImporting || !file}
+            className="flex items-center px-6 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isImporting ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Upload className="h-4 w-4 mr-2" />
+            )}
+            {isImporting ? "Importing..." : "Import Posts"}
+          </button>
+        </div>
+
+        {error && (
+          <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg flex items-start">
+            <AlertCircle className="h-5 w-5 text-red-600 mr-2 flex-shrink-0" />
+            <p className="text-red-700">{error}</p>
+          </div>
+        )}
+
+        {createdCount !== null && (
+          <div className="mb-6 p-4 bg-green-50 border border-green-200 rounded-lg flex items-center justify-between">
+            <div className="flex items-center">
+              <CheckCircle className="h-5 w-5 text-green-600 mr-2" />
+              <p className="text-green-800">
+                Imported {createdCount} {createdCount === 1 ? "post" : "posts"}
+              </p>
+            </div>
+            <Link
+              href="/seller/dashboard"
+              className="text-sm text-green-800 font-medium hover:underline"
+            >
+              View my listings
+            </Link>
+          </div>
+        )}
+
+        {failedRows.length > 0 && (
+          <div className="bg-white rounded-lg border border-gray-200">
+            <div className="px-6 py-4 border-b border-gray-200">
+              <h2 className="text-lg font-semibold text-gray-900">
+                {failedRows.length} of {results.length} rows need fixing
+              </h2>
+            </div>
+            <ul className="divide-y divide-gray-200">
+              {failedRows.map((result) => (
+                <li key={result.row} className="px-6 py-3">
+                  <p className="font-medium text-gray-900">
+                    Row {result.row}
+                    {result.title && (
+                      <span className="text-gray-500 font-normal">
+                        {" "}
+                        · {result.title}
+                      </span>
+                    )}
+                  </p>
+                  <ul className="mt-1 ml-4 list-disc text-sm text-red-600">
+                    {result.errors.map((message) => (
+                      <li key={message}>{message}</li>
+                    ))}
+                  </ul>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+    </ProtectedRoute>
+  );
+}
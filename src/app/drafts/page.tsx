@@ -0,0 +1,146 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import Link from "next/link";
+import { useAuth } from "@/contexts/AuthContext";
+import { DraftService } from "@/lib/drafts";
+import { getPhotoFileUrls, getPhotoUrl } from "@/lib/photo-variants";
+import { PostDraft } from "@/lib/types";
+import { formatDate } from "@/lib/utils";
+import ProtectedRoute from "@/components/auth/ProtectedRoute";
+import { FileText, Loader2, Trash2 } from "lucide-react";
+
+export default function DraftsPage() {
+  const { user } = useAuth();
+  const [drafts, setDrafts] = useState<PostDraft[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+
+  const fetchDrafts = useCallback(async () => {
+    if (!user) return;
+
+    setLoading(true);
+    const { data, error } = await DraftService.getDrafts(user.id);
+    if (error) {
+      setError(error);
+    } else {
+      setDrafts(data);
+    }
+    setLoading(false);
+  }, [user]);
+
+  useEffect(() => {
+    fetchDrafts();
+  }, [fetchDrafts]);
+
+  const handleDelete = async (draft: PostDraft) => {
+    if (!confirm("Discard this draft? Its photos will be deleted.")) return;
+
+    setDeletingId(draft.id);
+    const { error } = await DraftService.deleteDraft(draft.id, {
+      photos: getPhotoFileUrls(
+        draft.data.photo_variants,
+        draft.data.photos.map((photo) => photo.url)
+      ),
+    });
+    if (error) {
+      setError(error);
+    } else {
+      setDrafts((prev) => prev.filter((d) => d.id !== draft.id));
+    }
+    setDeletingId(null);
+  };
+
+  return (
+    <ProtectedRoute>
+      <div className="max-w-4xl mx-auto px-4 py-8">
+        <h1 className="text-3xl font-bold text-gray-900 mb-8">My Drafts</h1>
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg">
+            <p className="text-sm text-red-800">{error}</p>
+          </div>
+        )}
+
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-blue-600" />
+          </div>
+        ) : drafts.length === 0 ? (
+          <div className="text-center py-12">
+            <FileText className="w-16 h-16 text-gray-400 mx-auto mb-4" />
+            <p className="text-gray-600 mb-6">You have no saved drafts.</p>
+            <Link
+              href="/create-post"
+              className="px-6 py-3 bg-blue-500 text-white rounded-lg hover:bg-blue-600 font-medium transition-colors"
+            >
+              Create Post
+            </Link>
+          </div>
+        ) : (
+          <ul className="bg-white rounded-lg border border-gray-200 divide-y divide-gray-200">
+            {drafts.map((draft) => (
+              <li
+                key={draft.id}
+                className="px-6 py-4 flex items-center justify-between gap-4"
+              >
+                <div className="flex items-center gap-4 min-w-0">
+                  {draft.data.photos?.[0] ? (
+                    <img
+                      src={getPhotoUrl(
+                        draft.data.photo_variants,
+                        draft.data.photos[0].url,
+                        "thumb"
+                      )}
+                      alt=""
+                      className="w-16 h-16 object-cover rounded-lg flex-shrink-0"
+                    />
+                  ) : (
+                    <div className="w-16 h-16 bg-gray-100 rounded-lg flex items-center justify-center flex-shrink-0">
+                      <FileText className="w-6 h-6 text-gray-400" />
+                    </div>
+                  )}
+                  <div className="min-w-0">
+                    <p className="font-medium text-gray-900 truncate">
+                      {draft.data.title || "Untitled draft"}
+                    </p>
+                    <p className="text-sm text-gray-500">
+                      {[draft.data.main_category, draft.data.sub_category]
+                        .filter(Boolean)
+                        .join(" › ")}
+                    </p>
+                    <p className="text-xs text-gray-400">
+                      Last edited {formatDate(draft.updated_at)}
+                    </p>
+                  </div>
+                </div>
+
+                <div className="flex items-center gap-2">
+                  <Link
+                    href={`/create-post?draft=${draft.id}`}
+                    className="px-3 py-1.5 text-sm font-medium bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+                  >
+                    Resume
+                  </Link>
+                  <button
+                    onClick={() => handleDelete(draft)}
+                    disabled={deletingId !== null}
+                    className="p-2 text-gray-500 hover:text-red-600 rounded-lg hover:bg-gray-100 disabled:opacity-50 cursor-pointer"
+                    aria-label="Discard draft"
+                  >
+                    {deletingId === draft.id ? (
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                    ) : (
+                      <Trash2 className="h-4 w-4" />
+                    )}
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </ProtectedRoute>
+  );
+}
@@ -0,0 +1,33 @@
+// src/app/inbox/[postId]/[userId]/page.tsx
+import { notFound } from "next/navigation";
+import { createClient } from "@/lib/server";
+import ConversationView from "@/components/messages/ConversationView";
+import { normalizePost } from "@/lib/photo-variants";
+
+interface ConversationPageProps {
+  params: Promise<{ postId: string; userId: string }>;
+}
+
+// One conversation about a post, with the other person in userId
+export default async function ConversationPage({
+  params,
+}: ConversationPageProps) {
+  const { postId, userId } = await params;
+  const supabase = createClient();
+
+  const { data: post, error } = await supabase
+    .from("posts")
+    .select("*")
+    .eq("id", postId)
+    .single();
+
+  if (error || !post) {
+    notFound();
+  }
+
+  return <ConversationView post={normalizePost(post)} otherUserId={userId} />;
+}
+
+export const metadata = {
+  title: "Conversation",
+};
@@ -0,0 +1,141 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import Link from "next/link";
+import { useAuth } from "@/contexts/AuthContext";
+import { useMessages } from "@/contexts/MessagesContext";
+import { MessageService } from "@/lib/messages";
+import { Conversation } from "@/lib/types";
+import { formatDate } from "@/lib/utils";
+import ProtectedRoute from "@/components/auth/ProtectedRoute";
+import PostPhoto from "@/components/posts/PostPhoto";
+import { Inbox, Loader2 } from "lucide-react";
+
+export default function InboxPage() {
+  const { user } = useAuth();
+  const { subscribe } = useMessages();
+  const [conversations, setConversations] = useState<Conversation[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchConversations = useCallback(
+    async (showSpinner = true) => {
+      if (!user) return;
+
+      if (showSpinner) setLoading(true);
+      const { data, error } = await MessageService.getConversations(user.id);
+      if (error) {
+        setError(error);
+      } else {
+        setConversations(data);
+      }
+      setLoading(false);
+    },
+    [user]
+  );
+
+  useEffect(() => {
+    fetchConversations();
+  }, [fetchConversations]);
+
+  // Re-sort and recount quietly as messages arrive or are read
+  useEffect(() => {
+    return subscribe(() => fetchConversations(false));
+  }, [subscribe, fetchConversations]);
+
+  return (
+    <ProtectedRoute>
+      <div className="max-w-4xl mx-auto px-4 py-8">
+        <h1 className="text-3xl font-bold text-gray-900 mb-8">Inbox</h1>
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg">
+            <p className="text-sm text-red-800">{error}</p>
+          </div>
+        )}
+
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-blue-600" />
+          </div>
+        ) : conversations.length === 0 ? (
+          <div className="text-center py-12">
+            <Inbox className="w-16 h-16 text-gray-400 mx-auto mb-4" />
+            <p className="text-gray-600 mb-6">
+              No messages yet. Contact a seller from any listing to start a
+              conversation.
+            </p>
+            <Link
+              href="/"
+              className="px-6 py-3 bg-blue-500 text-white rounded-lg hover:bg-blue-600 font-medium transition-colors"
+            >
+              Browse Posts
+            </Link>
+          </div>
+        ) : (
+          <ul className="bg-white rounded-lg border border-gray-200 divide-y divide-gray-200">
+            {conversations.map((conversation) => {
+              const { post, last_message: lastMessage } = conversation;
+              const isUnread = conversation.unread_count > 0;
+
+              return (
+                <li
+                  key={`${conversation.post_id}:${conversation.counterpart_id}`}
+                >
+                  <Link
+                    href={`/inbox/${conversation.post_id}/${conversation.counterpart_id}`}
+                    className="px-4 py-4 flex items-center gap-4 hover:bg-gray-50 transition-colors"
+                  >
+                    <div className="w-14 h-14 flex-shrink-0 rounded-lg overflow-hidden bg-gray-200">
+                      {post?.photos && post.photos.length > 0 && (
+                        <PostPhoto
+                          url={post.photos[0].url}
+                          variants={post.photo_variants}
+                          size="thumb"
+                          alt={post.photos[0].alt || post.title}
+                          className="w-full h-full object-cover"
+                        />
+                      )}
+                    </div>
+
+                    <div className="min-w-0 flex-1">
+                      <div className="flex items-baseline justify-between gap-2">
+                        <p
+                          className={`truncate text-gray-900 ${
+                            isUnread ? "font-semibold" : "font-medium"
+                          }`}
+                        >
+                          {conversation.counterpart_name}
+                        </p>
+                        <span className="flex-shrink-0 text-xs text-gray-400">
+                          {formatDate(lastMessage.created_at)}
+                        </span>
+                      </div>
+                      <p className="text-sm text-gray-500 truncate">
+                        {post?.title || "Deleted listing"}
+                      </p>
+                      <p
+                        className={`text-sm truncate ${
+                          isUnread ? "text-gray-900" : "text-gray-600"
+                        }`}
+                      >
+                        {lastMessage.sender_id === user?.id && "You: "}
+                        {lastMessage.message}
+                      </p>
+                    </div>
+
+                    {isUnread && (
+                      <span className="flex-shrink-0 min-w-[1.5rem] px-2 py-0.5 rounded-full bg-blue-600 text-white text-xs font-medium text-center">
+                        {conversation.unread_count}
+                      </span>
+                    )}
+                  </Link>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+    </ProtectedRoute>
+  );
+}
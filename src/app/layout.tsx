@@ -3,6 +3,8 @@ import { Inter } from "next/font/google";
 import "./globals.css";
 import { Toaster } from "react-hot-toast";
 import { AuthProvider } from "@/contexts/AuthContext";
+import { FavoritesProvider } from "@/contexts/FavoritesContext";
+import { MessagesProvider } from "@/contexts/MessagesContext";
 import Header from "@/components/ui/Header";
 import ChatButton from "@/components/ai-chat/ChatButton";
 
@@ -22,32 +24,36 @@ export default function RootLayout({
     <html lang="en" suppressHydrationWarning>
       <body className={inter.className} suppressHydrationWarning>
         <AuthProvider>
-          {/* Fixed Header */}
-          <div className="fixed top-0 left-0 right-0 z-50 bg-white">
-            <Header />
-          </div>
+          <FavoritesProvider>
+            <MessagesProvider>
+              {/* Fixed Header */}
+              <div className="fixed top-0 left-0 right-0 z-50 bg-white">
+                <Header />
+              </div>
 
-          {/* Main Content with padding-top to account for fixed header */}
-          <main className="min-h-screen bg-gray-50 pt-16">{children}</main>
+              {/* Main Content with padding-top to account for fixed header */}
+              <main className="min-h-screen bg-gray-50 pt-16">{children}</main>
 
-          <footer className="bg-white border-t mt-auto">
-            <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
-              <div className="text-center text-gray-600">
-                <p>
-                  &copy; 2025 Mark Daniel Edillor. Built with Next.js &
-                  Supabase.
-                </p>
-              </div>
-            </div>
-          </footer>
+              <footer className="bg-white border-t mt-auto">
+                <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+                  <div className="text-center text-gray-600">
+                    <p>
+                      &copy; 2025 Mark Daniel Edillor. Built with Next.js &
+                      Supabase.
+                    </p>
+                  </div>
+                </div>
+              </footer>
 
-          <Toaster
-            position="top-right"
-            toastOptions={{
-              duration: 4000,
-            }}
-          />
-          <ChatButton />
+              <Toaster
+                position="top-right"
+                toastOptions={{
+                  duration: 4000,
+                }}
+              />
+              <ChatButton />
+            </MessagesProvider>
+          </FavoritesProvider>
         </AuthProvider>
       </body>
     </html>
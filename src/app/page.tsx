@@ -1,15 +1,25 @@
 // src/app/page.tsx
 "use client";
 
-import { useEffect, useState, useCallback } from "react";
-import { Post } from "@/lib/types";
+import { useEffect, useState, useCallback, useRef } from "react";
+import { POST_SORTS, POST_SORT_LABELS, Post, PostSort } from "@/lib/types";
 import { PostService, PostFilters } from "@/lib/posts";
+import { PostCursor, PostSearchHighlight } from "@/lib/search";
+import { getFiltersFromUrl } from "@/lib/filterUtils";
+import {
+  formatAttributeFilter,
+  getFilterableAttributes,
+} from "@/lib/post-attributes";
 import Loading from "@/components/ui/Loading";
 import PostCard from "@/components/PostCard";
 import Sidebar from "@/components/ui/Sidebar";
 import Header from "@/components/ui/Header";
+import SaveSearchButton from "@/components/posts/SaveSearchButton";
 import { FileText, TextSearch } from "lucide-react";
 
+// Posts fetched per page of the infinite scroll
+const PAGE_SIZE = 24;
+
 // Custom hook for sidebar state management with localStorage
 const useSidebarState = () => {
   const [isSidebarOpen, setIsSidebarOpen] = useState(false);
@@ -63,27 +73,40 @@ const useSidebarState = () => {
 };
 
 export default function HomePage() {
-  const [posts, setPosts] = useState<Post[]>([]);
   const [filteredPosts, setFilteredPosts] = useState<Post[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [isFiltering, setIsFiltering] = useState(false);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [currentFilters, setCurrentFilters] = useState<PostFilters>({});
+  const [sort, setSort] = useState<PostSort | undefined>();
+  const [nextCursor, setNextCursor] = useState<PostCursor | null>(null);
+  const [highlights, setHighlights] = useState<
+    Record<string, PostSearchHighlight>
+  >({});
+  // Bumped on every new query so pages of a stale query are dropped
+  const requestIdRef = useRef(0);
+  const loadMoreRef = useRef<HTMLDivElement>(null);
 
   // Use the custom hook for sidebar state management
   const { isSidebarOpen, toggleSidebar } = useSidebarState();
 
-  // Load all posts initially
+  // Load the first page of posts initially
   useEffect(() => {
     const fetchPosts = async () => {
       try {
         setIsLoading(true);
-        const { data, error } = await PostService.getPosts();
+        const requestId = ++requestIdRef.current;
+        const { data, nextCursor, error } = await PostService.getPosts(
+          {},
+          { limit: PAGE_SIZE }
+        );
+        if (requestId !== requestIdRef.current) return;
         if (error) {
           setError(error);
         } else {
-          setPosts(data);
           setFilteredPosts(data);
+          setNextCursor(nextCursor);
         }
       } catch (err) {
         setError("Failed to load posts");
@@ -95,31 +118,85 @@ export default function HomePage() {
     fetchPosts();
   }, []);
 
+  // The sort lives in the URL alongside the sidebar's filters
+  useEffect(() => {
+    setSort(getFiltersFromUrl().sort);
+  }, []);
+
   // Handle filter changes
   const handleFiltersChange = useCallback(async (filters: PostFilters) => {
+    const requestId = ++requestIdRef.current;
     setCurrentFilters(filters);
     setIsFiltering(true);
+    setIsLoadingMore(false);
 
     try {
-      const { data, error } = await PostService.getPosts(filters);
+      const { data, highlights, nextCursor, error } =
+        await PostService.getPosts(filters, { limit: PAGE_SIZE });
+      if (requestId !== requestIdRef.current) return;
       if (error) {
         setError(error);
       } else {
         setFilteredPosts(data);
+        setHighlights(highlights);
+        setNextCursor(nextCursor);
       }
     } catch (err) {
       setError("Failed to filter posts");
     } finally {
-      setIsFiltering(false);
+      if (requestId === requestIdRef.current) {
+        setIsFiltering(false);
+      }
     }
   }, []);
 
-  // Check if there are active filters
-  const hasActiveFilters =
-    Object.keys(currentFilters).length > 0 &&
-    Object.values(currentFilters).some(
-      (value) => value !== undefined && value !== ""
+  // Fetch the page after the last loaded post
+  const loadMore = useCallback(async () => {
+    if (!nextCursor || isLoadingMore) return;
+
+    const requestId = requestIdRef.current;
+    setIsLoadingMore(true);
+
+    const {
+      data,
+      highlights,
+      nextCursor: cursor,
+      error,
+    } = await PostService.getPosts(currentFilters, {
+      limit: PAGE_SIZE,
+      cursor: nextCursor,
+    });
+    if (requestId !== requestIdRef.current) return;
+
+    if (error) {
+      setError(error);
+    } else {
+      setFilteredPosts((prev) => [...prev, ...data]);
+      setHighlights((prev) => ({ ...prev, ...highlights }));
+      setNextCursor(cursor);
+    }
+    setIsLoadingMore(false);
+  }, [currentFilters, nextCursor, isLoadingMore]);
+
+  // Load the next page as the end of the grid scrolls into view
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !nextCursor) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries[0].isIntersecting) loadMore();
+      },
+      { rootMargin: "400px" }
     );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [loadMore, nextCursor]);
+
+  // Check if there are active filters; the sort only reorders results
+  const hasActiveFilters = Object.entries(currentFilters).some(
+    ([key, value]) => key !== "sort" && value !== undefined && value !== ""
+  );
 
   // Handle retry
   const handleRetry = () => {
@@ -185,6 +262,7 @@ export default function HomePage() {
             onFiltersChange={handleFiltersChange}
             isOpen={isSidebarOpen}
             onToggle={toggleSidebar}
+            sort={sort}
           />
 
           {/* Main Content */}
@@ -234,6 +312,27 @@ export default function HomePage() {
                         {currentFilters.maxPrice || "∞"}
                       </span>
                     )}
+                    {currentFilters.category &&
+                      getFilterableAttributes(
+                        currentFilters.category,
+                        currentFilters.subcategory
+                      )
+                        .filter(
+                          (definition) =>
+                            currentFilters.attributes?.[definition.key]
+                        )
+                        .map((definition) => (
+                          <span
+                            key={definition.key}
+                            className="inline-flex items-center px-3 py-1 rounded-full text-sm bg-indigo-100 text-indigo-800"
+                          >
+                            {formatAttributeFilter(
+                              definition,
+                              currentFilters.attributes![definition.key]
+                            )}
+                          </span>
+                        ))}
+                    <SaveSearchButton filters={currentFilters} />
                   </div>
                 )}
               </div>
@@ -289,22 +388,57 @@ export default function HomePage() {
                       {/* Results Count */}
                       <div className="mb-6 flex justify-between items-center">
                         <p className="text-gray-600">
-                          {filteredPosts.length}{" "}
-                          {filteredPosts.length === 1 ? "post" : "posts"} found
-                          {hasActiveFilters && (
-                            <span className="text-blue-600 ml-2">
-                              (filtered from {posts.length} total)
-                            </span>
-                          )}
+                          {filteredPosts.length}
+                          {nextCursor ? "+" : ""}{" "}
+                          {filteredPosts.length === 1 && !nextCursor
+                            ? "post"
+                            : "posts"}{" "}
+                          found
                         </p>
+                        <label className="flex items-center gap-2 text-sm text-gray-600">
+                          Sort by
+                          <select
+                            value={sort || ""}
+                            onChange={(e) =>
+                              setSort((e.target.value as PostSort) || undefined)
+                            }
+                            className="px-3 py-1.5 border border-gray-300 rounded-lg bg-white text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                          >
+                            <option value="">
+                              {currentFilters.search
+                                ? "Best match"
+                                : POST_SORT_LABELS.newest}
+                            </option>
+                            {POST_SORTS.filter(
+                              (option) =>
+                                option !== "newest" || currentFilters.search
+                            ).map((option) => (
+                              <option key={option} value={option}>
+                                {POST_SORT_LABELS[option]}
+                              </option>
+                            ))}
+                          </select>
+                        </label>
                       </div>
 
                       {/* Posts Grid - Centered and Responsive */}
                       <div className="grid grid-cols-1 sm:grid-cols-3 lg:grid-cols-4 gap-4">
                         {filteredPosts.map((post) => (
-                          <PostCard key={post.id} post={post} />
+                          <PostCard
+                            key={post.id}
+                            post={post}
+                            highlight={highlights[post.id]}
+                          />
                         ))}
                       </div>
+
+                      {/* Infinite scroll sentinel */}
+                      <div
+                        ref={loadMoreRef}
+                        className="flex justify-center py-8"
+                      >
+                        {isLoadingMore && <Loading text="Loading more..." />}
+                      </div>
                     </>
                   )}
                 </>
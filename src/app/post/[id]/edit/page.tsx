@@ -0,0 +1,31 @@
+// src/app/post/[id]/edit/page.tsx
+import { notFound } from "next/navigation";
+import { createClient } from "@/lib/server";
+import PostWizard from "@/components/posts/PostWizard";
+import { normalizePost } from "@/lib/photo-variants";
+
+interface EditPostPageProps {
+  params: Promise<{ id: string }>;
+}
+
+export default async function EditPostPage({ params }: EditPostPageProps) {
+  const { id } = await params;
+  const supabase = createClient();
+
+  const { data: post, error } = await supabase
+    .from("posts")
+    .select("*")
+    .eq("id", id)
+    .single();
+
+  if (error || !post) {
+    notFound();
+  }
+
+  // Ownership is checked in the wizard and again by the update API
+  return <PostWizard post={normalizePost(post)} />;
+}
+
+export const metadata = {
+  title: "Edit Post",
+};
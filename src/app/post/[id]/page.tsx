@@ -3,6 +3,7 @@ import { notFound } from "next/navigation";
 import { createClient } from "@/lib/server";
 import PostDetailView from "@/components/PostDetailView";
 import Header from "@/components/ui/Header";
+import { normalizePost } from "@/lib/photo-variants";
 
 interface PostPageProps {
   params: Promise<{ id: string }>;
@@ -21,7 +22,7 @@ async function getPost(id: string) {
     return null;
   }
 
-  return post;
+  return normalizePost(post);
 }
 
 export default async function PostPage({ params }: PostPageProps) {
@@ -58,7 +59,7 @@ export async function generateMetadata({ params }: PostPageProps) {
     openGraph: {
       title: post.title,
       description: post.description,
-      images: post.photos?.[0] ? [post.photos[0]] : [],
+      images: post.photos?.[0] ? [post.photos[0].url] : [],
     },
   };
 }
@@ -0,0 +1,203 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import Link from "next/link";
+import { useAuth } from "@/contexts/AuthContext";
+import { SavedSearchService } from "@/lib/saved-searches";
+import {
+  filtersToSearchParams,
+  formatFilterValue,
+  getFilterDisplayName,
+  isFilterEmpty,
+} from "@/lib/filterUtils";
+import {
+  formatAttributeFilter,
+  getFilterableAttributes,
+} from "@/lib/post-attributes";
+import { PostFilters } from "@/lib/posts";
+import { SavedSearch, SavedSearchFrequency } from "@/lib/types";
+import { formatDate } from "@/lib/utils";
+import ProtectedRoute from "@/components/auth/ProtectedRoute";
+import { Bell, Loader2, Trash2 } from "lucide-react";
+
+// Human-readable labels for every filter a saved search applies
+const describeFilters = (filters: PostFilters): string[] => {
+  const labels = (Object.keys(filters) as (keyof PostFilters)[])
+    .filter((key) => key !== "attributes" && !isFilterEmpty(filters[key]))
+    .map(
+      (key) =>
+        `${getFilterDisplayName(key)}: ${formatFilterValue(key, filters[key])}`
+    );
+
+  if (filters.category) {
+    getFilterableAttributes(filters.category, filters.subcategory).forEach(
+      (definition) => {
+        const filter = filters.attributes?.[definition.key];
+        if (filter) labels.push(formatAttributeFilter(definition, filter));
+      }
+    );
+  }
+
+  return labels;
+};
+
+export default function SavedSearchesPage() {
+  const { user } = useAuth();
+  const [searches, setSearches] = useState<SavedSearch[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const fetchSearches = useCallback(async () => {
+    if (!user) return;
+
+    setLoading(true);
+    const { data, error } = await SavedSearchService.getSavedSearches(user.id);
+    if (error) {
+      setError(error);
+    } else {
+      setSearches(data);
+    }
+    setLoading(false);
+  }, [user]);
+
+  useEffect(() => {
+    fetchSearches();
+  }, [fetchSearches]);
+
+  const handleFrequencyChange = async (
+    search: SavedSearch,
+    frequency: SavedSearchFrequency
+  ) => {
+    setBusyId(search.id);
+    const { error } = await SavedSearchService.updateFrequency(
+      search.id,
+      frequency
+    );
+    if (error) {
+      setError(error);
+    } else {
+      setSearches((prev) =>
+        prev.map((s) => (s.id === search.id ? { ...s, frequency } : s))
+      );
+    }
+    setBusyId(null);
+  };
+
+  const handleDelete = async (search: SavedSearch) => {
+    if (!confirm(`Delete "${search.name}"? You'll stop getting its alerts.`)) {
+      return;
+    }
+
+    setBusyId(search.id);
+    const { error } = await SavedSearchService.deleteSavedSearch(search.id);
+    if (error) {
+      setError(error);
+    } else {
+      setSearches((prev) => prev.filter((s) => s.id !== search.id));
+    }
+    setBusyId(null);
+  };
+
+  return (
+    <ProtectedRoute>
+      <div className="max-w-4xl mx-auto px-4 py-8">
+        <h1 className="text-3xl font-bold text-gray-900 mb-8">
+          Saved Searches
+        </h1>
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg">
+            <p className="text-sm text-red-800">{error}</p>
+          </div>
+        )}
+
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-blue-600" />
+          </div>
+        ) : searches.length === 0 ? (
+          <div className="text-center py-12">
+            <Bell className="w-16 h-16 text-gray-400 mx-auto mb-4" />
+            <p className="text-gray-600 mb-6">
+              Filter the listings and choose &quot;Save search&quot; to get an
+              email when new posts match.
+            </p>
+            <Link
+              href="/"
+              className="px-6 py-3 bg-blue-500 text-white rounded-lg hover:bg-blue-600 font-medium transition-colors"
+            >
+              Browse Posts
+            </Link>
+          </div>
+        ) : (
+          <ul className="bg-white rounded-lg border border-gray-200 divide-y divide-gray-200">
+            {searches.map((search) => (
+              <li
+                key={search.id}
+                className="px-6 py-4 flex flex-col sm:flex-row sm:items-center justify-between gap-4"
+              >
+                <div className="min-w-0">
+                  <p className="font-medium text-gray-900 truncate">
+                    {search.name}
+                  </p>
+                  <div className="mt-1 flex flex-wrap gap-1">
+                    {describeFilters(search.filters || {}).map((label) => (
+                      <span
+                        key={label}
+                        className="px-2 py-0.5 rounded-full text-xs bg-gray-100 text-gray-700"
+                      >
+                        {label}
+                      </span>
+                    ))}
+                  </div>
+                  <p className="mt-1 text-xs text-gray-400">
+                    Saved {formatDate(search.created_at)}
+                  </p>
+                </div>
+
+                <div className="flex items-center gap-2">
+                  <select
+                    value={search.frequency}
+                    onChange={(e) =>
+                      handleFrequencyChange(
+                        search,
+                        e.target.value as SavedSearchFrequency
+                      )
+                    }
+                    disabled={busyId !== null}
+                    aria-label="Email frequency"
+                    className="px-2 py-1.5 border border-gray-300 rounded-lg text-sm disabled:opacity-50"
+                  >
+                    <option value="instant">Instant</option>
+                    <option value="daily">Daily digest</option>
+                  </select>
+                  <Link
+                    href={`/?${filtersToSearchParams(
+                      search.filters || {}
+                    ).toString()}`}
+                    className="px-3 py-1.5 text-sm font-medium bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+                  >
+                    View
+                  </Link>
+                  <button
+                    onClick={() => handleDelete(search)}
+                    disabled={busyId !== null}
+                    className="p-2 text-gray-500 hover:text-red-600 rounded-lg hover:bg-gray-100 disabled:opacity-50 cursor-pointer"
+                    aria-label="Delete saved search"
+                  >
+                    {busyId === search.id ? (
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                    ) : (
+                      <Trash2 className="h-4 w-4" />
+                    )}
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </ProtectedRoute>
+  );
+}
@@ -0,0 +1,81 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import Link from "next/link";
+import { useAuth } from "@/contexts/AuthContext";
+import { useFavorites } from "@/contexts/FavoritesContext";
+import { FavoriteService } from "@/lib/favorites";
+import { FavoriteWithPost } from "@/lib/types";
+import ProtectedRoute from "@/components/auth/ProtectedRoute";
+import PostCard from "@/components/PostCard";
+import { Heart, Loader2 } from "lucide-react";
+
+export default function SavedPostsPage() {
+  const { user } = useAuth();
+  const { isFavorite } = useFavorites();
+  const [favorites, setFavorites] = useState<FavoriteWithPost[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchFavorites = useCallback(async () => {
+    if (!user) return;
+
+    setLoading(true);
+    const { data, error } = await FavoriteService.getFavorites(user.id);
+    if (error) {
+      setError(error);
+    } else {
+      setFavorites(data);
+    }
+    setLoading(false);
+  }, [user]);
+
+  useEffect(() => {
+    fetchFavorites();
+  }, [fetchFavorites]);
+
+  // Posts un-saved from this page drop out straight away
+  const savedFavorites = favorites.filter((favorite) =>
+    isFavorite(favorite.post_id)
+  );
+
+  return (
+    <ProtectedRoute>
+      <div className="max-w-7xl mx-auto px-4 py-8">
+        <h1 className="text-3xl font-bold text-gray-900 mb-8">Saved Posts</h1>
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg">
+            <p className="text-sm text-red-800">{error}</p>
+          </div>
+        )}
+
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-blue-600" />
+          </div>
+        ) : savedFavorites.length === 0 ? (
+          <div className="text-center py-12">
+            <Heart className="w-16 h-16 text-gray-400 mx-auto mb-4" />
+            <p className="text-gray-600 mb-6">
+              Tap the heart on a post to save it here. We&apos;ll email you if
+              its price drops or it sells.
+            </p>
+            <Link
+              href="/"
+              className="px-6 py-3 bg-blue-500 text-white rounded-lg hover:bg-blue-600 font-medium transition-colors"
+            >
+              Browse Posts
+            </Link>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 sm:grid-cols-3 lg:grid-cols-4 gap-4">
+            {savedFavorites.map(({ id, post }) => (
+              <PostCard key={id} post={post} />
+            ))}
+          </div>
+        )}
+      </div>
+    </ProtectedRoute>
+  );
+}
@@ -5,6 +5,7 @@ import { useState, useEffect } from "react";
 import { useAuth } from "@/contexts/AuthContext";
 import { useRouter } from "next/navigation";
 import ProtectedRoute from "@/components/auth/ProtectedRoute";
+import SellerListings from "@/components/seller/SellerListings";
 import { createClient } from "@/lib/supabase";
 import { SellerAccount } from "@/lib/types";
 import {
@@ -174,6 +175,9 @@ export default function SellerDashboardPage() {
               )}
             </div>
           )}
+
+          {/* Listings */}
+          {user && <SellerListings sellerId={user.id} />}
         </div>
       </div>
     </ProtectedRoute>
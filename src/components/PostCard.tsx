@@ -3,15 +3,22 @@
 
 import { useState } from "react";
 import { Post } from "@/lib/types";
+import { PostSearchHighlight } from "@/lib/search";
 import { formatPrice, formatDate } from "@/lib/utils";
 import { MapPin, Calendar } from "lucide-react";
 import Link from "next/link";
+import PostStatusBadge from "@/components/posts/PostStatusBadge";
+import PostPhoto from "@/components/posts/PostPhoto";
+import FavoriteButton from "@/components/posts/FavoriteButton";
+import HighlightedText from "@/components/ui/HighlightedText";
 
 interface PostCardProps {
   post: Post;
+  // Matched search terms to highlight in the title and description
+  highlight?: PostSearchHighlight;
 }
 
-export default function PostCard({ post }: PostCardProps) {
+export default function PostCard({ post, highlight }: PostCardProps) {
   const [isHovered, setIsHovered] = useState(false);
 
   return (
@@ -31,9 +38,11 @@ export default function PostCard({ post }: PostCardProps) {
         {/* Photo */}
         <div className="aspect-square bg-gray-200 rounded-t-lg overflow-hidden relative">
           {post.photos && post.photos.length > 0 ? (
-            <img
-              src={post.photos[0]}
-              alt={post.title}
+            <PostPhoto
+              url={post.photos[0].url}
+              variants={post.photo_variants}
+              size="medium"
+              alt={post.photos[0].alt || post.title}
               className="w-full h-full object-cover"
             />
           ) : (
@@ -41,13 +50,24 @@ export default function PostCard({ post }: PostCardProps) {
               No Image
             </div>
           )}
+          {post.status && post.status !== "active" && (
+            <PostStatusBadge
+              status={post.status}
+              className="absolute top-2 left-2 shadow-sm"
+            />
+          )}
+          <FavoriteButton post={post} className="absolute top-2 right-2" />
         </div>
 
         {/* Content */}
         <div className="p-4">
           <div className="flex justify-between items-start mb-2">
             <h3 className="font-semibold text-lg text-gray-900 truncate">
-              {post.title}
+              {highlight ? (
+                <HighlightedText text={highlight.title} />
+              ) : (
+                post.title
+              )}
             </h3>
             {post.price && (
               <span className="text-green-600 font-bold text-lg ml-2">
@@ -56,8 +76,20 @@ export default function PostCard({ post }: PostCardProps) {
             )}
           </div>
 
+          {post.price &&
+            post.previous_price &&
+            post.previous_price > post.price && (
+              <p className="text-xs font-medium text-red-600 mb-2">
+                Price dropped from {formatPrice(post.previous_price)}
+              </p>
+            )}
+
           <p className="text-gray-600 text-sm mb-3 line-clamp-2">
-            {post.description}
+            {highlight ? (
+              <HighlightedText text={highlight.snippet} />
+            ) : (
+              post.description
+            )}
           </p>
 
           <div className="flex flex-wrap gap-2 mb-3">
@@ -1,13 +1,21 @@
 // src/components/PostDetailView.tsx
 "use client";
 
-import { useState } from "react";
+import { useState, useEffect } from "react";
+import Link from "next/link";
 import { useRouter } from "next/navigation";
 import { Post } from "@/lib/types";
 import { formatPrice, formatDate } from "@/lib/utils";
 import { MessageService } from "@/lib/messages";
+import { PostService } from "@/lib/posts";
 import { useAuth } from "@/contexts/AuthContext";
 import CheckoutButton from "@/components/payments/CheckoutButton";
+import PostStatusBadge from "@/components/posts/PostStatusBadge";
+import PostStatusActions from "@/components/posts/PostStatusActions";
+import PostAttributesList from "@/components/posts/PostAttributesList";
+import PostChangeLog from "@/components/posts/PostChangeLog";
+import PostPhoto from "@/components/posts/PostPhoto";
+import FavoriteButton from "@/components/posts/FavoriteButton";
 import {
   ArrowLeft,
   MapPin,
@@ -19,6 +27,7 @@ import {
   AlertCircle,
   Share2,
   Check,
+  Pencil,
 } from "lucide-react";
 
 interface PostDetailViewProps {
@@ -27,7 +36,7 @@ interface PostDetailViewProps {
 
 export default function PostDetailView({ post }: PostDetailViewProps) {
   const router = useRouter();
-  const { user } = useAuth();
+  const { user, loading: authLoading } = useAuth();
   const [currentImageIndex, setCurrentImageIndex] = useState(0);
   const [message, setMessage] = useState("");
   const [isMessageSending, setIsMessageSending] = useState(false);
@@ -35,6 +44,26 @@ export default function PostDetailView({ post }: PostDetailViewProps) {
   const [messageSuccess, setMessageSuccess] = useState(false);
   const [showAuthWarning, setShowAuthWarning] = useState(false);
   const [showShareSuccess, setShowShareSuccess] = useState(false);
+  const [status, setStatus] = useState(post.status || "active");
+
+  const isSeller = user?.id === post.seller_id;
+
+  // Count one view per post per browser session, ignoring the seller
+  useEffect(() => {
+    if (authLoading || isSeller) return;
+
+    const key = `post-viewed-${post.id}`;
+    try {
+      if (sessionStorage.getItem(key)) return;
+      sessionStorage.setItem(key, "1");
+    } catch {
+      // Storage can be unavailable (e.g. private mode); count the view anyway
+    }
+
+    PostService.recordView(post.id).then(({ error }) => {
+      if (error) console.error("Error recording view:", error);
+    });
+  }, [authLoading, isSeller, post.id]);
 
   const handleNextImage = () => {
     if (post.photos && post.photos.length > 1) {
@@ -77,10 +106,8 @@ export default function PostDetailView({ post }: PostDetailViewProps) {
       const { data, error } = await MessageService.sendMessage({
         post_id: post.id,
         recipient_id: post.seller_id,
-        recipient_email: post.seller_email,
         subject: `Inquiry about: ${post.title}`,
         message: message.trim(),
-        post_title: post.title,
       });
 
       if (error) {
@@ -170,9 +197,11 @@ export default function PostDetailView({ post }: PostDetailViewProps) {
           <div className="relative aspect-video bg-gray-200 rounded-lg overflow-hidden">
             {post.photos && post.photos.length > 0 ? (
               <>
-                <img
-                  src={post.photos[currentImageIndex]}
-                  alt={post.title}
+                <PostPhoto
+                  url={post.photos[currentImageIndex].url}
+                  variants={post.photo_variants}
+                  size="large"
+                  alt={post.photos[currentImageIndex].alt || post.title}
                   className="w-full h-full object-cover"
                 />
                 {post.photos.length > 1 && (
@@ -212,6 +241,12 @@ export default function PostDetailView({ post }: PostDetailViewProps) {
             )}
           </div>
 
+          {post.photos?.[currentImageIndex]?.caption && (
+            <p className="text-sm text-gray-600">
+              {post.photos[currentImageIndex].caption}
+            </p>
+          )}
+
           {/* Thumbnail Navigation */}
           {post.photos && post.photos.length > 1 && (
             <div className="flex space-x-2 overflow-x-auto pb-2">
@@ -225,9 +260,11 @@ export default function PostDetailView({ post }: PostDetailViewProps) {
                       : "border-gray-200 hover:border-gray-300"
                   }`}
                 >
-                  <img
-                    src={photo}
-                    alt={`${post.title} ${index + 1}`}
+                  <PostPhoto
+                    url={photo.url}
+                    variants={post.photo_variants}
+                    size="thumb"
+                    alt={photo.alt || `${post.title} ${index + 1}`}
                     className="w-full h-full object-cover"
                   />
                 </button>
@@ -240,9 +277,13 @@ export default function PostDetailView({ post }: PostDetailViewProps) {
         <div className="space-y-6">
           {/* Title and Categories */}
           <div>
-            <h1 className="text-3xl font-bold text-gray-900 mb-4">
-              {post.title}
-            </h1>
+            <div className="flex items-start justify-between gap-4 mb-4">
+              <h1 className="text-3xl font-bold text-gray-900">{post.title}</h1>
+              <FavoriteButton
+                post={post}
+                className="flex-shrink-0 border border-gray-200"
+              />
+            </div>
 
             <div className="flex flex-wrap gap-2 mb-4">
               <span className="px-3 py-1 bg-blue-100 text-blue-800 text-sm rounded-full">
@@ -251,18 +292,48 @@ export default function PostDetailView({ post }: PostDetailViewProps) {
               <span className="px-3 py-1 bg-gray-100 text-gray-800 text-sm rounded-full">
                 {post.sub_category}
               </span>
+              {status !== "active" && <PostStatusBadge status={status} />}
             </div>
 
             {post.price && (
-              <div className="text-4xl font-bold text-green-600 mb-4">
-                {formatPrice(post.price)}
+              <div className="mb-4">
+                <div className="text-4xl font-bold text-green-600">
+                  {formatPrice(post.price)}
+                </div>
+                {post.previous_price && post.previous_price > post.price && (
+                  <p className="text-sm font-medium text-red-600 mt-1">
+                    Price dropped from{" "}
+                    <span className="line-through">
+                      {formatPrice(post.previous_price)}
+                    </span>
+                  </p>
+                )}
               </div>
             )}
 
             {/* Buy Now Button */}
-            <div className="mb-6">
-              <CheckoutButton post={post} size="lg" fullWidth />
-            </div>
+            {status === "active" && (
+              <div className="mb-6">
+                <CheckoutButton post={post} size="lg" fullWidth />
+              </div>
+            )}
+
+            {/* Seller lifecycle controls */}
+            {isSeller && (
+              <div className="mb-6 space-y-3">
+                <button
+                  onClick={() => router.push(`/post/${post.id}/edit`)}
+                  className="flex items-center px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors cursor-pointer"
+                >
+                  <Pencil className="h-4 w-4 mr-2" />
+                  Edit Post
+                </button>
+                <PostStatusActions
+                  post={{ ...post, status }}
+                  onStatusChange={(updated) => setStatus(updated.status)}
+                />
+              </div>
+            )}
           </div>
 
           {/* Description */}
@@ -275,6 +346,12 @@ export default function PostDetailView({ post }: PostDetailViewProps) {
             </p>
           </div>
 
+          {/* Category-specific attributes */}
+          <PostAttributesList post={post} />
+
+          {/* Edit history */}
+          <PostChangeLog postId={post.id} />
+
           {/* Details */}
           <div className="space-y-3 py-4 border-t border-gray-200">
             <div className="flex items-center text-gray-600">
@@ -336,8 +413,14 @@ export default function PostDetailView({ post }: PostDetailViewProps) {
                   Message sent successfully!
                 </p>
                 <p className="text-green-700 text-sm mt-1">
-                  The seller will receive your message via email and can reply
-                  directly.
+                  The seller will find it in their inbox and get an email
+                  letting them know.{" "}
+                  <Link
+                    href={`/inbox/${post.id}/${post.seller_id}`}
+                    className="font-medium underline"
+                  >
+                    View conversation
+                  </Link>
                 </p>
               </div>
             )}
@@ -376,6 +459,10 @@ export default function PostDetailView({ post }: PostDetailViewProps) {
                   </>
                 )}
               </button>
+              <p className="text-xs text-gray-500 text-center">
+                Your email address stays private. Replies reach you through
+                Campus Marketplace.
+              </p>
             </div>
           </div>
         </div>
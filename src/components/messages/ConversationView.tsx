@@ -0,0 +1,325 @@
+// src/components/messages/ConversationView.tsx
+"use client";
+
+import { useState, useEffect, useCallback, useRef } from "react";
+import Link from "next/link";
+import toast from "react-hot-toast";
+import { ArrowLeft, Ban, Check, CheckCheck, Loader2, Send } from "lucide-react";
+import { useAuth } from "@/contexts/AuthContext";
+import { useMessages } from "@/contexts/MessagesContext";
+import { ContactStatus, MessageService } from "@/lib/messages";
+import { Message, Post } from "@/lib/types";
+import { formatDateTime } from "@/lib/utils";
+import ProtectedRoute from "@/components/auth/ProtectedRoute";
+import PostPhoto from "@/components/posts/PostPhoto";
+
+interface ConversationViewProps {
+  post: Post;
+  otherUserId: string;
+}
+
+export default function ConversationView({
+  post,
+  otherUserId,
+}: ConversationViewProps) {
+  const { user } = useAuth();
+  const { subscribe, refreshUnreadCount } = useMessages();
+  const [messages, setMessages] = useState<Message[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [reply, setReply] = useState("");
+  const [isSending, setIsSending] = useState(false);
+  const [contact, setContact] = useState<ContactStatus | null>(null);
+  const [isRevoking, setIsRevoking] = useState(false);
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  const markRead = useCallback(async () => {
+    const { success } = await MessageService.markConversationRead(
+      post.id,
+      otherUserId
+    );
+    if (success) {
+      refreshUnreadCount();
+    }
+  }, [post.id, otherUserId, refreshUnreadCount]);
+
+  const fetchMessages = useCallback(async () => {
+    if (!user) return;
+
+    setLoading(true);
+    const { data, error } = await MessageService.getConversation(
+      post.id,
+      otherUserId
+    );
+    if (error) {
+      setError(error);
+    } else {
+      setMessages((data || []) as Message[]);
+      markRead();
+    }
+    setLoading(false);
+  }, [user, post.id, otherUserId, markRead]);
+
+  useEffect(() => {
+    fetchMessages();
+  }, [fetchMessages]);
+
+  // New messages from them arrive live and are read straight away; updates
+  // to ours carry the read receipt
+  useEffect(() => {
+    return subscribe(({ type, message }) => {
+      if (message.post_id !== post.id) return;
+
+      if (type === "received") {
+        if (message.sender_id !== otherUserId) return;
+        setMessages((prev) =>
+          prev.some((m) => m.id === message.id) ? prev : [...prev, message]
+        );
+        markRead();
+      } else {
+        setMessages((prev) =>
+          prev.map((m) => (m.id === message.id ? message : m))
+        );
+      }
+    });
+  }, [subscribe, post.id, otherUserId, markRead]);
+
+  useEffect(() => {
+    if (!user) return;
+
+    MessageService.getContactStatus(post.id, otherUserId).then(({ data }) =>
+      setContact(data)
+    );
+  }, [user, post.id, otherUserId]);
+
+  // Keep the newest message in view
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ block: "end" });
+  }, [messages]);
+
+  // Their name is only stored on messages they sent, or on the listing
+  // when they're the seller
+  const theirMessage = messages.find((m) => m.sender_id === otherUserId);
+  const isSeller = otherUserId === post.seller_id;
+  const otherName =
+    theirMessage?.sender_name || (isSeller ? post.seller_name : "Buyer");
+
+  const canReply =
+    !!user && user.id !== otherUserId && !loading && !contact?.revokedByThem;
+
+  const handleRevoke = async () => {
+    if (
+      !confirm(
+        `Stop ${otherName} contacting you about this listing? They won't be able to message or email you about it again.`
+      )
+    ) {
+      return;
+    }
+
+    setIsRevoking(true);
+    const { data, error } = await MessageService.revokeContact(
+      post.id,
+      otherUserId
+    );
+    setIsRevoking(false);
+
+    if (error) {
+      toast.error(error);
+      return;
+    }
+
+    setContact(data);
+    toast.success(`${otherName} can no longer contact you`);
+  };
+
+  const handleSend = async () => {
+    if (!reply.trim() || !canReply) return;
+
+    setIsSending(true);
+    const { data, error } = await MessageService.sendMessage({
+      post_id: post.id,
+      recipient_id: otherUserId,
+      subject: `Re: ${post.title}`,
+      message: reply.trim(),
+    });
+    setIsSending(false);
+
+    if (error) {
+      toast.error(error);
+      return;
+    }
+
+    setReply("");
+    if (data?.savedMessage) {
+      setMessages((prev) => [...prev, data.savedMessage as Message]);
+    }
+  };
+
+  // Enter sends, Shift+Enter starts a new line
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === "Enter" && !e.shiftKey) {
+      e.preventDefault();
+      handleSend();
+    }
+  };
+
+  return (
+    <ProtectedRoute>
+      <div className="max-w-3xl mx-auto px-4 py-8">
+        <Link
+          href="/inbox"
+          className="inline-flex items-center text-sm text-gray-600 hover:text-gray-900 mb-4"
+        >
+          <ArrowLeft className="w-4 h-4 mr-1" />
+          Inbox
+        </Link>
+
+        <div className="bg-white rounded-lg border border-gray-200 flex flex-col">
+          {/* Who and what this conversation is about */}
+          <div className="px-4 py-3 border-b border-gray-200 flex items-center gap-3">
+            <div className="w-12 h-12 flex-shrink-0 rounded-lg overflow-hidden bg-gray-200">
+              {post.photos && post.photos.length > 0 && (
+                <PostPhoto
+                  url={post.photos[0].url}
+                  variants={post.photo_variants}
+                  size="thumb"
+                  alt={post.photos[0].alt || post.title}
+                  className="w-full h-full object-cover"
+                />
+              )}
+            </div>
+            <div className="min-w-0 flex-1">
+              <p className="font-semibold text-gray-900 truncate">
+                {otherName}
+              </p>
+              <Link
+                href={`/post/${post.id}`}
+                className="text-sm text-blue-600 hover:text-blue-700 truncate block"
+              >
+                {post.title}
+              </Link>
+            </div>
+            {contact && !contact.revokedByMe && (
+              <button
+                onClick={handleRevoke}
+                disabled={isRevoking}
+                className="flex-shrink-0 inline-flex items-center gap-1 px-3 py-1.5 text-sm text-gray-600 border border-gray-300 rounded-lg hover:bg-gray-50 hover:text-red-600 disabled:opacity-50 transition-colors cursor-pointer"
+              >
+                <Ban className="w-4 h-4" />
+                Stop contact
+              </button>
+            )}
+          </div>
+
+          {error && (
+            <div className="m-4 p-3 bg-red-50 border border-red-200 rounded-lg">
+              <p className="text-sm text-red-800">{error}</p>
+            </div>
+          )}
+
+          {(contact?.revokedByMe || contact?.revokedByThem) && (
+            <div className="mx-4 mt-4 p-3 bg-gray-50 border border-gray-200 rounded-lg">
+              <p className="text-sm text-gray-700">
+                {contact.revokedByThem
+                  ? `${otherName} is no longer accepting messages about this listing.`
+                  : `You stopped ${otherName} contacting you about this listing.`}
+              </p>
+            </div>
+          )}
+
+          {/* Messages, oldest first */}
+          <div className="px-4 py-4 space-y-3 min-h-[16rem] max-h-[60vh] overflow-y-auto">
+            {loading ? (
+              <div className="flex justify-center py-12">
+                <Loader2 className="h-8 w-8 animate-spin text-blue-600" />
+              </div>
+            ) : messages.length === 0 ? (
+              <p className="text-center text-gray-500 py-12">
+                No messages yet. Say hello!
+              </p>
+            ) : (
+              messages.map((message) => {
+                const isMine = message.sender_id === user?.id;
+
+                return (
+                  <div
+                    key={message.id}
+                    className={`flex ${
+                      isMine ? "justify-end" : "justify-start"
+                    }`}
+                  >
+                    <div
+                      className={`max-w-[80%] rounded-2xl px-4 py-2 ${
+                        isMine
+                          ? "bg-blue-600 text-white rounded-br-sm"
+                          : "bg-gray-100 text-gray-900 rounded-bl-sm"
+                      }`}
+                    >
+                      <p className="whitespace-pre-wrap break-words">
+                        {message.message}
+                      </p>
+                      <p
+                        className={`mt-1 text-xs ${
+                          isMine ? "text-blue-100" : "text-gray-500"
+                        }`}
+                      >
+                        {formatDateTime(message.created_at)}
+                        {isMine &&
+                          (message.read_at ? (
+                            <CheckCheck
+                              className="inline w-3.5 h-3.5 ml-1"
+                              aria-label={`Seen ${formatDateTime(
+                                message.read_at
+                              )}`}
+                            >
+                              <title>{`Seen ${formatDateTime(
+                                message.read_at
+                              )}`}</title>
+                            </CheckCheck>
+                          ) : (
+                            <Check
+                              className="inline w-3.5 h-3.5 ml-1"
+                              aria-label="Sent"
+                            >
+                              <title>Sent</title>
+                            </Check>
+                          ))}
+                      </p>
+                    </div>
+                  </div>
+                );
+              })
+            )}
+            <div ref={bottomRef} />
+          </div>
+
+          {/* Reply */}
+          <div className="border-t border-gray-200 p-3 flex items-end gap-2">
+            <textarea
+              value={reply}
+              onChange={(e) => setReply(e.target.value)}
+              onKeyDown={handleKeyDown}
+              placeholder={`Message ${otherName}...`}
+              rows={2}
+              disabled={isSending || !canReply}
+              aria-label="Reply"
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-black resize-none focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:opacity-50"
+            />
+            <button
+              onClick={handleSend}
+              disabled={isSending || !canReply || !reply.trim()}
+              className="p-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors cursor-pointer"
+              aria-label="Send"
+            >
+              {isSending ? (
+                <Loader2 className="h-5 w-5 animate-spin" />
+              ) : (
+                <Send className="h-5 w-5" />
+              )}
+            </button>
+          </div>
+        </div>
+      </div>
+    </ProtectedRoute>
+  );
+}
@@ -0,0 +1,113 @@
+// src/components/posts/AttributeFields.tsx
+"use client";
+
+import { AttributeDefinition } from "@/lib/post-attributes";
+
+interface AttributeFieldsProps {
+  definitions: AttributeDefinition[];
+  values: Record<string, string | boolean>;
+  errors: Record<string, string>;
+  onChange: (key: string, value: string | boolean) => void;
+}
+
+const inputClassName =
+  "w-full p-3 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent";
+
+export default function AttributeFields({
+  definitions,
+  values,
+  errors,
+  onChange,
+}: AttributeFieldsProps) {
+  const renderInput = (definition: AttributeDefinition) => {
+    const value = values[definition.key];
+
+    switch (definition.type) {
+      case "select":
+        return (
+          <select
+            value={(value as string) || ""}
+            onChange={(e) => onChange(definition.key, e.target.value)}
+            className={inputClassName}
+          >
+            <option value="">Select {definition.label.toLowerCase()}</option>
+            {definition.options?.map((option) => (
+              <option key={option} value={option}>
+                {option}
+              </option>
+            ))}
+          </select>
+        );
+
+      case "boolean":
+        return (
+          <label className="flex items-center space-x-2">
+            <input
+              type="checkbox"
+              checked={value === true}
+              onChange={(e) => onChange(definition.key, e.target.checked)}
+              className="h-4 w-4"
+            />
+            <span className="text-sm text-gray-700">{definition.label}</span>
+          </label>
+        );
+
+      case "date":
+        return (
+          <input
+            type="date"
+            value={(value as string) || ""}
+            onChange={(e) => onChange(definition.key, e.target.value)}
+            className={inputClassName}
+          />
+        );
+
+      case "number":
+      case "currency":
+        return (
+          <input
+            type="number"
+            value={(value as string) ?? ""}
+            min={definition.min}
+            max={definition.max}
+            step={definition.type === "currency" ? "0.01" : "1"}
+            onChange={(e) => onChange(definition.key, e.target.value)}
+            className={inputClassName}
+            placeholder={definition.placeholder}
+          />
+        );
+
+      default:
+        return (
+          <input
+            type="text"
+            value={(value as string) || ""}
+            onChange={(e) => onChange(definition.key, e.target.value)}
+            className={inputClassName}
+            placeholder={definition.placeholder}
+          />
+        );
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {definitions.map((definition) => (
+        <div key={definition.key}>
+          {definition.type !== "boolean" && (
+            <label className="block text-sm font-medium mb-2">
+              {definition.label}
+              {definition.required ? " *" : " (Optional)"}
+            </label>
+          )}
+          {renderInput(definition)}
+          {errors[definition.key] && (
+            <p className="text-red-500 text-sm mt-1">
+              {errors[definition.key]}
+            </p>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
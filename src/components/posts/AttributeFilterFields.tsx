@@ -0,0 +1,126 @@
+// src/components/posts/AttributeFilterFields.tsx
+"use client";
+
+import {
+  AttributeDefinition,
+  AttributeFilter,
+  AttributeFilters,
+  isRangeAttribute,
+} from "@/lib/post-attributes";
+
+interface AttributeFilterFieldsProps {
+  definitions: AttributeDefinition[];
+  filters: AttributeFilters;
+  onChange: (key: string, filter: AttributeFilter) => void;
+}
+
+const inputClassName =
+  "w-full text-black px-3 py-2 border border-gray-300 rounded-lg";
+
+export default function AttributeFilterFields({
+  definitions,
+  filters,
+  onChange,
+}: AttributeFilterFieldsProps) {
+  // Keep numbers as numbers so ranges compare numerically
+  const parseRangeValue = (definition: AttributeDefinition, value: string) => {
+    if (value === "") return undefined;
+    if (definition.type === "date") return value;
+    const numValue = parseFloat(value);
+    return isNaN(numValue) ? undefined : numValue;
+  };
+
+  const renderControl = (definition: AttributeDefinition) => {
+    const filter = filters[definition.key] || {};
+
+    if (isRangeAttribute(definition)) {
+      const inputType = definition.type === "date" ? "date" : "number";
+
+      return (
+        <div className="grid grid-cols-2 gap-2">
+          <input
+            type={inputType}
+            aria-label={`Min ${definition.label}`}
+            placeholder="Min"
+            min={definition.min}
+            max={definition.max}
+            value={filter.min ?? ""}
+            onChange={(e) =>
+              onChange(definition.key, {
+                ...filter,
+                min: parseRangeValue(definition, e.target.value),
+              })
+            }
+            className={inputClassName}
+          />
+          <input
+            type={inputType}
+            aria-label={`Max ${definition.label}`}
+            placeholder="Max"
+            min={definition.min}
+            max={definition.max}
+            value={filter.max ?? ""}
+            onChange={(e) =>
+              onChange(definition.key, {
+                ...filter,
+                max: parseRangeValue(definition, e.target.value),
+              })
+            }
+            className={inputClassName}
+          />
+        </div>
+      );
+    }
+
+    if (definition.type === "boolean") {
+      return (
+        <label className="flex items-center space-x-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={filter.eq === true}
+            onChange={(e) =>
+              onChange(definition.key, {
+                eq: e.target.checked ? true : undefined,
+              })
+            }
+            className="h-4 w-4"
+          />
+          <span>{definition.label} only</span>
+        </label>
+      );
+    }
+
+    return (
+      <select
+        aria-label={definition.label}
+        value={(filter.eq as string) || ""}
+        onChange={(e) =>
+          onChange(definition.key, { eq: e.target.value || undefined })
+        }
+        className={inputClassName}
+      >
+        <option value="">Any</option>
+        {definition.options?.map((option) => (
+          <option key={option} value={option}>
+            {option}
+          </option>
+        ))}
+      </select>
+    );
+  };
+
+  return (
+    <div className="space-y-3">
+      {definitions.map((definition) => (
+        <div key={definition.key}>
+          {definition.type !== "boolean" && (
+            <span className="block text-xs text-gray-500 mb-1">
+              {definition.label}
+            </span>
+          )}
+          {renderControl(definition)}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,48 @@
+// src/components/posts/FavoriteButton.tsx
+"use client";
+
+import { Heart } from "lucide-react";
+import { Post } from "@/lib/types";
+import { useAuth } from "@/contexts/AuthContext";
+import { useFavorites } from "@/contexts/FavoritesContext";
+
+interface FavoriteButtonProps {
+  post: Post;
+  className?: string;
+}
+
+export default function FavoriteButton({
+  post,
+  className = "",
+}: FavoriteButtonProps) {
+  const { user } = useAuth();
+  const { isFavorite, toggleFavorite } = useFavorites();
+  const saved = isFavorite(post.id);
+
+  // Sellers don't save their own posts
+  if (user?.id === post.seller_id) {
+    return null;
+  }
+
+  return (
+    <button
+      type="button"
+      onClick={(e) => {
+        // Cards are links; saving shouldn't open the post
+        e.preventDefault();
+        e.stopPropagation();
+        toggleFavorite(post);
+      }}
+      aria-pressed={saved}
+      aria-label={saved ? "Remove from saved" : "Save post"}
+      title={saved ? "Remove from saved" : "Save post"}
+      className={`p-2 rounded-full bg-white/90 shadow-sm hover:bg-white transition-colors ${className}`}
+    >
+      <Heart
+        className={`h-5 w-5 ${
+          saved ? "fill-red-500 text-red-500" : "text-gray-600"
+        }`}
+      />
+    </button>
+  );
+}
@@ -0,0 +1,39 @@
+// src/components/posts/PostAttributesList.tsx
+import { Post } from "@/lib/types";
+import {
+  formatAttributeValue,
+  getAttributeDefinitions,
+} from "@/lib/post-attributes";
+
+interface PostAttributesListProps {
+  post: Post;
+}
+
+export default function PostAttributesList({ post }: PostAttributesListProps) {
+  const attributes = post.attributes || {};
+  const rows = getAttributeDefinitions(post.main_category, post.sub_category)
+    .filter((definition) => attributes[definition.key] !== undefined)
+    .map((definition) => ({
+      key: definition.key,
+      label: definition.label,
+      value: formatAttributeValue(definition, attributes[definition.key]),
+    }));
+
+  if (rows.length === 0) {
+    return null;
+  }
+
+  return (
+    <div>
+      <h2 className="text-xl font-semibold text-gray-900 mb-3">Details</h2>
+      <dl className="grid grid-cols-2 gap-x-6 gap-y-3">
+        {rows.map((row) => (
+          <div key={row.key}>
+            <dt className="text-sm text-gray-500">{row.label}</dt>
+            <dd className="text-gray-900 font-medium">{row.value}</dd>
+          </div>
+        ))}
+      </dl>
+    </div>
+  );
+}
@@ -0,0 +1,82 @@
+// src/components/posts/PostChangeLog.tsx
+"use client";
+
+import { useEffect, useState } from "react";
+import { History } from "lucide-react";
+import { PostFieldChange, PostRevision } from "@/lib/types";
+import { PostService } from "@/lib/posts";
+import { formatDate, formatPrice } from "@/lib/utils";
+
+interface PostChangeLogProps {
+  postId: string;
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  title: "Title",
+  description: "Description",
+  price: "Price",
+  main_category: "Category",
+  sub_category: "Subcategory",
+  campus: "Campus",
+  photos: "Photos",
+  attributes: "Details",
+};
+
+// Short fields show before/after; long ones just say they changed
+const describeChange = (field: string, change: PostFieldChange): string => {
+  const label = FIELD_LABELS[field] || field;
+
+  switch (field) {
+    case "price": {
+      const from =
+        change.from !== null ? formatPrice(Number(change.from)) : "no price";
+      const to =
+        change.to !== null ? formatPrice(Number(change.to)) : "no price";
+      return `${label} changed from ${from} to ${to}`;
+    }
+    case "title":
+    case "main_category":
+    case "sub_category":
+    case "campus":
+      return `${label} changed from "${change.from}" to "${change.to}"`;
+    default:
+      return `${label} updated`;
+  }
+};
+
+export default function PostChangeLog({ postId }: PostChangeLogProps) {
+  const [revisions, setRevisions] = useState<PostRevision[]>([]);
+
+  useEffect(() => {
+    PostService.getPostRevisions(postId).then(({ data }) => {
+      setRevisions(data);
+    });
+  }, [postId]);
+
+  if (revisions.length === 0) {
+    return null;
+  }
+
+  return (
+    <div>
+      <h2 className="text-xl font-semibold text-gray-900 mb-3 flex items-center">
+        <History className="h-5 w-5 mr-2" />
+        Change Log
+      </h2>
+      <ul className="space-y-3">
+        {revisions.map((revision) => (
+          <li key={revision.id} className="text-sm">
+            <span className="text-gray-500">
+              {formatDate(revision.created_at)}
+            </span>
+            <ul className="mt-1 ml-4 list-disc text-gray-700">
+              {Object.entries(revision.changes).map(([field, change]) => (
+                <li key={field}>{describeChange(field, change)}</li>
+              ))}
+            </ul>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,79 @@
+// src/components/posts/PostPhoto.tsx
+"use client";
+
+import { useEffect, useState } from "react";
+import { decode } from "blurhash";
+import { PhotoSize, PhotoVariantsMap } from "@/lib/types";
+import { getPhotoUrl } from "@/lib/photo-variants";
+
+interface PostPhotoProps {
+  url: string;
+  variants?: PhotoVariantsMap | null;
+  size: PhotoSize;
+  alt: string;
+  className?: string;
+}
+
+// Blurhash decodes to a tiny image that the browser scales up
+const PLACEHOLDER_SIZE = 32;
+
+const blurhashToDataUrl = (blurhash: string): string | null => {
+  try {
+    const pixels = decode(blurhash, PLACEHOLDER_SIZE, PLACEHOLDER_SIZE);
+    const canvas = document.createElement("canvas");
+    canvas.width = PLACEHOLDER_SIZE;
+    canvas.height = PLACEHOLDER_SIZE;
+
+    const context = canvas.getContext("2d");
+    if (!context) return null;
+
+    const imageData = context.createImageData(
+      PLACEHOLDER_SIZE,
+      PLACEHOLDER_SIZE
+    );
+    imageData.data.set(pixels);
+    context.putImageData(imageData, 0, 0);
+    return canvas.toDataURL();
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * A listing photo at the requested size, with its blurhash shown until
+ * the image loads
+ */
+export default function PostPhoto({
+  url,
+  variants,
+  size,
+  alt,
+  className = "",
+}: PostPhotoProps) {
+  const blurhash = variants?.[url]?.blurhash;
+  const [placeholder, setPlaceholder] = useState<string | null>(null);
+  const [isLoaded, setIsLoaded] = useState(false);
+
+  useEffect(() => {
+    setIsLoaded(false);
+    setPlaceholder(blurhash ? blurhashToDataUrl(blurhash) : null);
+  }, [url, blurhash]);
+
+  return (
+    <img
+      src={getPhotoUrl(variants, url, size)}
+      alt={alt}
+      loading="lazy"
+      onLoad={() => setIsLoaded(true)}
+      style={
+        placeholder && !isLoaded
+          ? {
+              backgroundImage: `url(${placeholder})`,
+              backgroundSize: "cover",
+            }
+          : undefined
+      }
+      className={className}
+    />
+  );
+}
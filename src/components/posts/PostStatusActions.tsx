@@ -0,0 +1,89 @@
+// src/components/posts/PostStatusActions.tsx
+"use client";
+
+import { useState } from "react";
+import { Loader2 } from "lucide-react";
+import { Post, PostStatus } from "@/lib/types";
+import { PostService, canTransitionPostStatus } from "@/lib/posts";
+
+interface PostStatusActionsProps {
+  post: Post;
+  onStatusChange?: (post: Post) => void;
+}
+
+const ACTIONS: { to: PostStatus; label: string; className: string }[] = [
+  {
+    to: "reserved",
+    label: "Mark Reserved",
+    className: "bg-amber-500 hover:bg-amber-600 text-white",
+  },
+  {
+    to: "sold",
+    label: "Mark Sold",
+    className: "bg-red-500 hover:bg-red-600 text-white",
+  },
+  {
+    to: "active",
+    label: "Relist",
+    className: "bg-green-600 hover:bg-green-700 text-white",
+  },
+  {
+    to: "archived",
+    label: "Archive",
+    className: "bg-gray-200 hover:bg-gray-300 text-gray-800",
+  },
+];
+
+export default function PostStatusActions({
+  post,
+  onStatusChange,
+}: PostStatusActionsProps) {
+  const [pending, setPending] = useState<PostStatus | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleTransition = async (to: PostStatus) => {
+    setPending(to);
+    setError(null);
+
+    const { data, error } = await PostService.transitionStatus(post.id, to);
+
+    if (error || !data) {
+      setError(error || "Failed to update post status");
+    } else {
+      onStatusChange?.(data);
+    }
+
+    setPending(null);
+  };
+
+  const available = ACTIONS.filter(({ to }) =>
+    canTransitionPostStatus(post.status, to)
+  );
+
+  if (available.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap gap-2">
+        {available.map(({ to, label, className }) => (
+          <button
+            key={to}
+            onClick={() => handleTransition(to)}
+            disabled={pending !== null}
+            className={`inline-flex items-center px-4 py-2 text-sm font-medium rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed cursor-pointer ${className}`}
+          >
+            {pending === to && (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            )}
+            {to === "active" && post.status === "scheduled"
+              ? "Publish Now"
+              : label}
+          </button>
+        ))}
+      </div>
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </div>
+  );
+}
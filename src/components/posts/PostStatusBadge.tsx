@@ -0,0 +1,29 @@
+// src/components/posts/PostStatusBadge.tsx
+import { PostStatus, POST_STATUS_LABELS } from "@/lib/types";
+
+interface PostStatusBadgeProps {
+  status: PostStatus;
+  className?: string;
+}
+
+const statusClasses: Record<PostStatus, string> = {
+  scheduled: "bg-blue-100 text-blue-800",
+  active: "bg-green-100 text-green-800",
+  reserved: "bg-amber-100 text-amber-800",
+  sold: "bg-red-100 text-red-800",
+  expired: "bg-gray-200 text-gray-700",
+  archived: "bg-gray-200 text-gray-700",
+};
+
+export default function PostStatusBadge({
+  status,
+  className = "",
+}: PostStatusBadgeProps) {
+  return (
+    <span
+      className={`px-3 py-1 text-sm font-medium rounded-full ${statusClasses[status]} ${className}`}
+    >
+      {POST_STATUS_LABELS[status]}
+    </span>
+  );
+}
@@ -0,0 +1,1192 @@
+// src/components/posts/PostWizard.tsx
+"use client";
+
+import { useState, useEffect, useRef } from "react";
+import { useRouter } from "next/navigation";
+import Link from "next/link";
+import toast from "react-hot-toast";
+import { supabase } from "@/lib/supabase";
+import { useAuth } from "@/contexts/AuthContext";
+import {
+  MAIN_CATEGORIES,
+  SUB_CATEGORIES,
+  CAMPUS_LIST,
+  Post,
+  PostDraftData,
+  PostFormData,
+  PostFormPhoto,
+  PostPhoto,
+  PhotoVariantsMap,
+} from "@/lib/types";
+import { validateFile } from "@/lib/utils";
+import { PostService } from "@/lib/posts";
+import { DraftService } from "@/lib/drafts";
+import { SavedSearchService } from "@/lib/saved-searches";
+import {
+  MAX_POST_PHOTOS,
+  PHOTO_ALT_MAX_LENGTH,
+  PHOTO_CAPTION_MAX_LENGTH,
+  getPhotoFileUrls,
+  getPhotoUrl,
+  normalizePostPhotos,
+  pickPhotoVariants,
+} from "@/lib/photo-variants";
+import {
+  getAttributeDefinitions,
+  validateAttributes,
+} from "@/lib/post-attributes";
+import Loading from "@/components/ui/Loading";
+import AttributeFields from "@/components/posts/AttributeFields";
+import {
+  ArrowLeft,
+  ArrowRight,
+  ChevronLeft,
+  ChevronRight,
+  GripVertical,
+  Star,
+  Upload,
+  X,
+} from "lucide-react";
+
+type StepKey =
+  | "main_category"
+  | "sub_category"
+  | "details"
+  | "attributes"
+  | "photos"
+  | "campus";
+
+const STEP_LABELS: Record<StepKey, string> = {
+  main_category: "Main Category",
+  sub_category: "Sub Category",
+  details: "Details",
+  attributes: "Specifics",
+  photos: "Photos",
+  campus: "Campus",
+};
+
+// The "Specifics" step only appears for categories with attributes
+const getSteps = (mainCategory: string, subCategory: string): StepKey[] => [
+  "main_category",
+  "sub_category",
+  "details",
+  ...(getAttributeDefinitions(mainCategory, subCategory).length > 0
+    ? (["attributes"] as StepKey[])
+    : []),
+  "photos",
+  "campus",
+];
+
+const AUTOSAVE_INTERVAL_MS = 30000;
+
+const EMPTY_FORM_DATA: PostFormData = {
+  title: "",
+  description: "",
+  price: "",
+  main_category: "",
+  sub_category: "",
+  campus: "",
+  photos: [],
+  photo_variants: {},
+  attributes: {},
+};
+
+// Load an existing post into the wizard's raw form state
+const postToFormData = (post: Post): PostFormData => {
+  const attributes: Record<string, string | boolean> = {};
+  Object.entries(post.attributes || {}).forEach(([key, value]) => {
+    attributes[key] = typeof value === "boolean" ? value : value.toString();
+  });
+
+  return {
+    title: post.title,
+    description: post.description,
+    price: post.price?.toString() || "",
+    main_category: post.main_category,
+    sub_category: post.sub_category,
+    campus: post.campus,
+    photos: post.photos || [],
+    photo_variants: post.photo_variants || {},
+    attributes,
+  };
+};
+
+interface PostWizardProps {
+  // When set, the wizard edits this post instead of creating a new one
+  post?: Post;
+  // Resume a saved draft when creating a post
+  draftId?: string;
+}
+
+export default function PostWizard({ post, draftId }: PostWizardProps) {
+  const router = useRouter();
+  const { user } = useAuth();
+  const isEditing = !!post;
+  const [currentStep, setCurrentStep] = useState(0);
+  const [isLoading, setIsLoading] = useState(false);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  const [formData, setFormData] = useState<PostFormData>(() =>
+    post ? postToFormData(post) : EMPTY_FORM_DATA
+  );
+
+  // Drafts only apply to new posts
+  const [activeDraftId, setActiveDraftId] = useState(draftId);
+  const [isDraftLoading, setIsDraftLoading] = useState(!!draftId && !post);
+  const [draftStatus, setDraftStatus] = useState<
+    "idle" | "saving" | "saved" | "error"
+  >("idle");
+  const isSavingDraftRef = useRef(false);
+  const lastDraftSnapshotRef = useRef("");
+  // Stored photos referenced by the last saved draft
+  const savedDraftPhotosRef = useRef<string[]>([]);
+
+  const steps = getSteps(formData.main_category, formData.sub_category);
+  const currentStepKey = steps[currentStep];
+
+  const [campusSearch, setCampusSearch] = useState(post?.campus || "");
+  const [filteredCampuses, setFilteredCampuses] = useState<string[]>([]);
+  const [showCampusDropdown, setShowCampusDropdown] = useState(false);
+  const [draggedPhotoIndex, setDraggedPhotoIndex] = useState<number | null>(
+    null
+  );
+
+  useEffect(() => {
+    if (!user) {
+      router.push("/auth");
+    }
+  }, [user, router]);
+
+  // Release object URLs for new uploads when the wizard unmounts
+  const photosRef = useRef(formData.photos);
+  photosRef.current = formData.photos;
+  useEffect(() => {
+    return () => {
+      photosRef.current.forEach((photo) => {
+        if (photo.file) URL.revokeObjectURL(photo.url);
+      });
+    };
+  }, []);
+
+  // Resume a draft at the step where the user left off
+  const userId = user?.id;
+  useEffect(() => {
+    if (!draftId || !userId || post) return;
+
+    DraftService.getDraft(draftId, userId).then(({ data: draft, error }) => {
+      if (error || !draft) {
+        setErrors({ submit: "This draft could not be loaded." });
+        setActiveDraftId(undefined);
+        setIsDraftLoading(false);
+        return;
+      }
+
+      const draftForm: PostFormData = {
+        ...EMPTY_FORM_DATA,
+        ...draft.data,
+        photos: draft.data.photos,
+      };
+      const draftSteps = getSteps(
+        draftForm.main_category,
+        draftForm.sub_category
+      );
+      const stepIndex = draftSteps.indexOf(draft.current_step as StepKey);
+
+      setFormData(draftForm);
+      setCampusSearch(draftForm.campus);
+      setCurrentStep(Math.max(stepIndex, 0));
+      savedDraftPhotosRef.current = draft.data.photos.map((photo) => photo.url);
+      lastDraftSnapshotRef.current = JSON.stringify({
+        formData: draftForm,
+        step: draftSteps[Math.max(stepIndex, 0)],
+      });
+      setIsDraftLoading(false);
+    });
+  }, [draftId, userId, post]);
+
+  const saveDraft = async () => {
+    if (!user || post || isDraftLoading || isSavingDraftRef.current) return;
+
+    // Nothing worth keeping until a category has been picked
+    if (!formData.main_category) return;
+
+    const snapshot = JSON.stringify({ formData, step: currentStepKey });
+    if (snapshot === lastDraftSnapshotRef.current) return;
+
+    isSavingDraftRef.current = true;
+    setDraftStatus("saving");
+
+    try {
+      // Drafts can only reference stored files, so upload new photos first
+      const pendingPhotos = formData.photos.filter((photo) => photo.file);
+      let photos = formData.photos;
+      let photoVariants = formData.photo_variants;
+
+      if (pendingPhotos.length > 0) {
+        const {
+          urls,
+          variants,
+          error: uploadError,
+        } = await PostService.uploadPhotos(
+          pendingPhotos.map((photo) => photo.file!)
+        );
+
+        if (uploadError) {
+          throw new Error(uploadError);
+        }
+
+        const storedUrls: Record<string, string> = {};
+        pendingPhotos.forEach((photo, index) => {
+          storedUrls[photo.url] = urls[index];
+        });
+        const toStored = (photo: PostFormPhoto): PostFormPhoto =>
+          storedUrls[photo.url]
+            ? {
+                url: storedUrls[photo.url],
+                caption: photo.caption,
+                alt: photo.alt,
+              }
+            : photo;
+
+        photos = photos.map(toStored);
+        photoVariants = { ...photoVariants, ...variants };
+        setFormData((prev) => ({
+          ...prev,
+          photos: prev.photos.map(toStored),
+          photo_variants: { ...prev.photo_variants, ...variants },
+        }));
+        pendingPhotos.forEach((photo) => URL.revokeObjectURL(photo.url));
+      }
+
+      const photoUrls = photos.map((photo) => photo.url);
+      const draftData: PostDraftData = {
+        ...formData,
+        photos: normalizePostPhotos(photos),
+        photo_variants: pickPhotoVariants(photoVariants, photoUrls),
+      };
+
+      const { data: draft, error } = await DraftService.saveDraft(
+        { user_id: user.id, data: draftData, current_step: currentStepKey },
+        activeDraftId
+      );
+
+      if (error || !draft) {
+        throw new Error(error || "Failed to save draft");
+      }
+
+      if (!activeDraftId) {
+        setActiveDraftId(draft.id);
+        // Keep the URL resumable without remounting the wizard
+        window.history.replaceState({}, "", `/create-post?draft=${draft.id}`);
+      }
+
+      // Photos removed since the last save are no longer referenced
+      const removedPhotos = savedDraftPhotosRef.current.filter(
+        (url) => !photoUrls.includes(url)
+      );
+      if (removedPhotos.length > 0) {
+        await PostService.deletePhotos(
+          getPhotoFileUrls(photoVariants, removedPhotos)
+        );
+      }
+
+      savedDraftPhotosRef.current = photoUrls;
+      lastDraftSnapshotRef.current = JSON.stringify({
+        formData: { ...formData, photos, photo_variants: photoVariants },
+        step: currentStepKey,
+      });
+      setDraftStatus("saved");
+    } catch (error) {
+      console.error("Error saving draft:", error);
+      setDraftStatus("error");
+    } finally {
+      isSavingDraftRef.current = false;
+    }
+  };
+
+  // Timers and listeners always call the latest saveDraft
+  const saveDraftRef = useRef(saveDraft);
+  saveDraftRef.current = saveDraft;
+
+  useEffect(() => {
+    if (post) return;
+
+    const interval = setInterval(
+      () => saveDraftRef.current(),
+      AUTOSAVE_INTERVAL_MS
+    );
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === "hidden") {
+        saveDraftRef.current();
+      }
+    };
+
+    document.addEventListener("visibilitychange", handleVisibilityChange);
+    return () => {
+      clearInterval(interval);
+      document.removeEventListener("visibilitychange", handleVisibilityChange);
+    };
+  }, [post]);
+
+  // Save whenever the user moves between steps
+  useEffect(() => {
+    saveDraftRef.current();
+  }, [currentStep]);
+
+  useEffect(() => {
+    if (campusSearch && campusSearch !== formData.campus) {
+      const filtered = CAMPUS_LIST.filter((campus) =>
+        campus.toLowerCase().includes(campusSearch.toLowerCase())
+      );
+      setFilteredCampuses(filtered);
+      setShowCampusDropdown(true);
+    } else {
+      setFilteredCampuses([]);
+      setShowCampusDropdown(false);
+    }
+  }, [campusSearch, formData.campus]);
+
+  const validateStep = (step: StepKey): boolean => {
+    const newErrors: Record<string, string> = {};
+
+    switch (step) {
+      case "main_category":
+        if (!formData.main_category) {
+          newErrors.main_category = "Please select a main category";
+        }
+        break;
+      case "sub_category":
+        if (!formData.sub_category) {
+          newErrors.sub_category = "Please select a sub category";
+        }
+        break;
+      case "details":
+        if (!formData.title.trim()) {
+          newErrors.title = "Title is required";
+        }
+        if (!formData.description.trim()) {
+          newErrors.description = "Description is required";
+        }
+        if (formData.price && isNaN(Number(formData.price))) {
+          newErrors.price = "Price must be a valid number";
+        }
+        break;
+      case "attributes": {
+        const { errors: attributeErrors } = validateAttributes(
+          formData.main_category,
+          formData.sub_category,
+          formData.attributes
+        );
+        Object.entries(attributeErrors).forEach(([key, message]) => {
+          newErrors[`attributes.${key}`] = message;
+        });
+        break;
+      }
+      case "photos":
+        if (formData.photos.length === 0) {
+          newErrors.photos = "At least one photo is required";
+        }
+        break;
+      case "campus":
+        if (!formData.campus.trim()) {
+          newErrors.campus = "Campus is required";
+        }
+        if (
+          formData.publish_at &&
+          new Date(formData.publish_at).getTime() <= Date.now()
+        ) {
+          newErrors.publish_at = "Publish time must be in the future";
+        }
+        break;
+    }
+
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const handleNext = () => {
+    if (validateStep(currentStepKey)) {
+      setCurrentStep((prev) => Math.min(prev + 1, steps.length - 1));
+    }
+  };
+
+  const handlePrevious = () => {
+    setCurrentStep((prev) => Math.max(prev - 1, 0));
+  };
+
+  const handleCategoryChange = (category: string) => {
+    setFormData((prev) => ({
+      ...prev,
+      main_category: category,
+      sub_category: "",
+      attributes: {},
+    }));
+    setErrors((prev) => ({ ...prev, main_category: "" }));
+  };
+
+  const handleSubCategoryChange = (subCategory: string) => {
+    setFormData((prev) => ({
+      ...prev,
+      sub_category: subCategory,
+    }));
+    setErrors((prev) => ({ ...prev, sub_category: "" }));
+  };
+
+  const handleAttributeChange = (key: string, value: string | boolean) => {
+    setFormData((prev) => ({
+      ...prev,
+      attributes: { ...prev.attributes, [key]: value },
+    }));
+    setErrors((prev) => ({ ...prev, [`attributes.${key}`]: "" }));
+  };
+
+  const handleInputChange = (field: keyof PostFormData, value: string) => {
+    setFormData((prev) => ({
+      ...prev,
+      [field]: value,
+    }));
+    setErrors((prev) => ({ ...prev, [field]: "" }));
+  };
+
+  const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files || []);
+    const validFiles: PostFormPhoto[] = [];
+    const newErrors: string[] = [];
+
+    files.forEach((file) => {
+      const validation = validateFile(file);
+      if (validation.isValid) {
+        validFiles.push({ url: URL.createObjectURL(file), file });
+      } else {
+        newErrors.push(validation.error || "Invalid file");
+      }
+    });
+
+    if (newErrors.length > 0) {
+      setErrors((prev) => ({ ...prev, photos: newErrors.join(", ") }));
+    } else {
+      setErrors((prev) => ({ ...prev, photos: "" }));
+    }
+
+    setFormData((prev) => ({
+      ...prev,
+      photos: [...prev.photos, ...validFiles].slice(0, MAX_POST_PHOTOS),
+    }));
+
+    // Allow selecting the same file again after removing it
+    event.target.value = "";
+  };
+
+  const removePhoto = (index: number) => {
+    const photo = formData.photos[index];
+    if (photo?.file) URL.revokeObjectURL(photo.url);
+
+    setFormData((prev) => ({
+      ...prev,
+      photos: prev.photos.filter((_, i) => i !== index),
+    }));
+  };
+
+  // The first photo is used as the cover image
+  const movePhoto = (from: number, to: number) => {
+    setFormData((prev) => {
+      if (from === to || to < 0 || to >= prev.photos.length) return prev;
+
+      const photos = [...prev.photos];
+      const [moved] = photos.splice(from, 1);
+      photos.splice(to, 0, moved);
+      return { ...prev, photos };
+    });
+  };
+
+  const updatePhoto = (
+    index: number,
+    field: "caption" | "alt",
+    value: string
+  ) => {
+    setFormData((prev) => ({
+      ...prev,
+      photos: prev.photos.map((photo, i) =>
+        i === index ? { ...photo, [field]: value } : photo
+      ),
+    }));
+  };
+
+  const handlePhotoDrop = (index: number) => {
+    if (draggedPhotoIndex !== null) {
+      movePhoto(draggedPhotoIndex, index);
+    }
+    setDraggedPhotoIndex(null);
+  };
+
+  const handleCampusSelect = (campus: string) => {
+    setFormData((prev) => ({ ...prev, campus }));
+    setCampusSearch(campus);
+    setShowCampusDropdown(false);
+    setErrors((prev) => ({ ...prev, campus: "" }));
+  };
+
+  // Upload new photos, keeping them in the order the seller arranged
+  const uploadNewPhotos = async (): Promise<{
+    photos: PostPhoto[];
+    variants: PhotoVariantsMap;
+  }> => {
+    const newFiles = formData.photos
+      .filter((photo) => photo.file)
+      .map((photo) => photo.file!);
+
+    if (newFiles.length === 0) {
+      return {
+        photos: normalizePostPhotos(formData.photos),
+        variants: formData.photo_variants,
+      };
+    }
+
+    const {
+      urls,
+      variants,
+      error: uploadError,
+    } = await PostService.uploadPhotos(newFiles);
+
+    if (uploadError) {
+      throw new Error(uploadError);
+    }
+
+    let uploadIndex = 0;
+    return {
+      photos: normalizePostPhotos(
+        formData.photos.map((photo) => ({
+          ...photo,
+          url: photo.file ? urls[uploadIndex++] : photo.url,
+        }))
+      ),
+      variants: { ...formData.photo_variants, ...variants },
+    };
+  };
+
+  const handleSubmit = async () => {
+    if (!validateStep("campus") || !user) return;
+
+    const { data: attributes } = validateAttributes(
+      formData.main_category,
+      formData.sub_category,
+      formData.attributes
+    );
+
+    setIsLoading(true);
+    try {
+      const { photos, variants: photoVariants } = await uploadNewPhotos();
+      const photoUrls = photos.map((photo) => photo.url);
+
+      const postData = {
+        title: formData.title,
+        description: formData.description,
+        price: formData.price ? Number(formData.price) : undefined,
+        main_category: formData.main_category,
+        sub_category: formData.sub_category,
+        campus: formData.campus,
+        photos,
+        photo_variants: pickPhotoVariants(photoVariants, photoUrls),
+        attributes: attributes || {},
+      };
+
+      if (post) {
+        // Updates go through the API so ownership is checked and the
+        // Stripe product stays in sync
+        const {
+          data: { session },
+        } = await supabase.auth.getSession();
+
+        if (!session) {
+          throw new Error("No active session");
+        }
+
+        const response = await fetch(`/api/posts/${post.id}`, {
+          method: "PATCH",
+          headers: {
+            "Content-Type": "application/json",
+            Authorization: `Bearer ${session.access_token}`,
+          },
+          body: JSON.stringify({
+            ...postData,
+            price: postData.price ?? null,
+          }),
+        });
+
+        const result = await response.json();
+
+        if (!response.ok) {
+          throw new Error(result.error || "Failed to update post");
+        }
+
+        // Clean up files the seller removed from the listing
+        const removedPhotos = (post.photos || [])
+          .map((photo) => photo.url)
+          .filter((url) => !photoUrls.includes(url));
+        if (removedPhotos.length > 0) {
+          const { error: deleteError } = await PostService.deletePhotos(
+            getPhotoFileUrls(post.photo_variants, removedPhotos)
+          );
+          if (deleteError) {
+            console.error("Error deleting removed photos:", deleteError);
+          }
+        }
+
+        router.push(`/post/${post.id}`);
+        router.refresh();
+        return;
+      }
+
+      // Create post using PostService
+      const {
+        data: createdPost,
+        error: createError,
+        duplicate,
+      } = await PostService.createPost({
+        ...postData,
+        publish_at: formData.publish_at
+          ? new Date(formData.publish_at).toISOString()
+          : undefined,
+        seller_id: user.id,
+        // Never fall back to the email; the name is shown on the listing
+        seller_name: user.user_metadata.full_name || "Campus Marketplace User",
+      });
+
+      if (createError) {
+        throw new Error(createError);
+      }
+
+      // The draft is published; only photos dropped since it was saved go
+      if (activeDraftId) {
+        await DraftService.deleteDraft(activeDraftId, {
+          photos: getPhotoFileUrls(
+            photoVariants,
+            savedDraftPhotosRef.current.filter(
+              (url) => !photoUrls.includes(url)
+            )
+          ),
+        });
+      }
+
+      // Alert buyers with matching saved searches. Scheduled posts are
+      // matched by the publisher once they go live.
+      if (createdPost?.status === "active" && duplicate?.action !== "bump") {
+        const { error: matchError } = await SavedSearchService.matchPost(
+          createdPost.id
+        );
+        if (matchError) {
+          console.error("Error matching saved searches:", matchError);
+        }
+      }
+
+      // A repost was merged into the seller's existing listing
+      if (duplicate?.action === "bump" && createdPost) {
+        toast.success("You already had this listing, so we updated it");
+        router.push(`/post/${createdPost.id}`);
+        return;
+      }
+
+      // Scheduled posts aren't in the feed yet, so show the post itself
+      if (createdPost?.status === "scheduled") {
+        router.push(`/post/${createdPost.id}`);
+        return;
+      }
+
+      // Redirect to home page on success
+      router.push("/");
+    } catch (error) {
+      console.error(
+        isEditing ? "Error updating post:" : "Error creating post:",
+        error
+      );
+      setErrors({
+        submit:
+          error instanceof Error
+            ? error.message
+            : isEditing
+            ? "Failed to update post. Please try again."
+            : "Failed to create post. Please try again.",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const renderStep = () => {
+    switch (currentStepKey) {
+      case "main_category":
+        return (
+          <div className="space-y-4">
+            <h2 className="text-2xl font-bold">Select Main Category</h2>
+            <div className="grid grid-cols-2 gap-3">
+              {MAIN_CATEGORIES.map((category) => (
+                <button
+                  key={category}
+                  onClick={() => handleCategoryChange(category)}
+                  className={`p-4 rounded-lg border-2 transition-all ${
+                    formData.main_category === category
+                      ? "border-blue-500 bg-blue-50"
+                      : "border-gray-200 hover:border-gray-300"
+                  }`}
+                >
+                  {category}
+                </button>
+              ))}
+            </div>
+            {errors.main_category && (
+              <p className="text-red-500 text-sm">{errors.main_category}</p>
+            )}
+          </div>
+        );
+
+      case "sub_category":
+        return (
+          <div className="space-y-4">
+            <h2 className="text-2xl font-bold">Select Sub Category</h2>
+            <div className="grid grid-cols-2 gap-3">
+              {formData.main_category &&
+                SUB_CATEGORIES[
+                  formData.main_category as keyof typeof SUB_CATEGORIES
+                ]?.map((subCategory) => (
+                  <button
+                    key={subCategory}
+                    onClick={() => handleSubCategoryChange(subCategory)}
+                    className={`p-4 rounded-lg border-2 transition-all ${
+                      formData.sub_category === subCategory
+                        ? "border-blue-500 bg-blue-50"
+                        : "border-gray-200 hover:border-gray-300"
+                    }`}
+                  >
+                    {subCategory}
+                  </button>
+                ))}
+            </div>
+            {errors.sub_category && (
+              <p className="text-red-500 text-sm">{errors.sub_category}</p>
+            )}
+          </div>
+        );
+
+      case "details":
+        return (
+          <div className="space-y-4">
+            <h2 className="text-2xl font-bold">Post Details</h2>
+            <div>
+              <label className="block text-sm font-medium mb-2">Title *</label>
+              <input
+                type="text"
+                value={formData.title}
+                onChange={(e) => handleInputChange("title", e.target.value)}
+                className="w-full p-3 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                placeholder="Enter post title"
+              />
+              {errors.title && (
+                <p className="text-red-500 text-sm mt-1">{errors.title}</p>
+              )}
+            </div>
+            <div>
+              <label className="block text-sm font-medium mb-2">
+                Price (Optional)
+              </label>
+              <input
+                type="number"
+                value={formData.price}
+                onChange={(e) => handleInputChange("price", e.target.value)}
+                className="w-full p-3 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                placeholder="Enter price"
+              />
+              {errors.price && (
+                <p className="text-red-500 text-sm mt-1">{errors.price}</p>
+              )}
+            </div>
+            <div>
+              <label className="block text-sm font-medium mb-2">
+                Description *
+              </label>
+              <textarea
+                value={formData.description}
+                onChange={(e) =>
+                  handleInputChange("description", e.target.value)
+                }
+                rows={4}
+                className="w-full p-3 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                placeholder="Describe your item or service"
+              />
+              {errors.description && (
+                <p className="text-red-500 text-sm mt-1">
+                  {errors.description}
+                </p>
+              )}
+            </div>
+          </div>
+        );
+
+      case "attributes": {
+        const attributeErrors: Record<string, string> = {};
+        Object.entries(errors).forEach(([key, message]) => {
+          if (key.startsWith("attributes.") && message) {
+            attributeErrors[key.replace("attributes.", "")] = message;
+          }
+        });
+
+        return (
+          <div className="space-y-4">
+            <h2 className="text-2xl font-bold">
+              {formData.sub_category} Specifics
+            </h2>
+            <AttributeFields
+              definitions={getAttributeDefinitions(
+                formData.main_category,
+                formData.sub_category
+              )}
+              values={formData.attributes}
+              errors={attributeErrors}
+              onChange={handleAttributeChange}
+            />
+          </div>
+        );
+      }
+
+      case "photos":
+        return (
+          <div className="space-y-4">
+            <h2 className="text-2xl font-bold">Upload Photos</h2>
+            <div>
+              <label className="block text-sm font-medium mb-2">
+                Photos * (Max {MAX_POST_PHOTOS})
+              </label>
+              <div className="border-2 border-dashed border-gray-300 rounded-lg p-6 text-center">
+                <Upload className="mx-auto h-12 w-12 text-gray-400" />
+                <p className="mt-2 text-sm text-gray-600">
+                  Click to upload or drag and drop
+                </p>
+                <p className="text-xs text-gray-500">
+                  PNG, JPG, WebP up to 5MB each
+                </p>
+                <input
+                  type="file"
+                  multiple
+                  accept="image/*"
+                  onChange={handleFileUpload}
+                  disabled={formData.photos.length >= MAX_POST_PHOTOS}
+                  className="mt-4"
+                />
+              </div>
+              {errors.photos && (
+                <p className="text-red-500 text-sm mt-1">{errors.photos}</p>
+              )}
+            </div>
+            {formData.photos.length > 0 && (
+              <div>
+                <p className="text-sm text-gray-600 mb-2">
+                  Drag photos to reorder them. The first photo is the cover.
+                </p>
+                <div className="grid grid-cols-2 sm:grid-cols-3 gap-4">
+                  {formData.photos.map((photo, index) => (
+                    <div
+                      key={photo.url}
+                      draggable
+                      onDragStart={() => setDraggedPhotoIndex(index)}
+                      onDragOver={(e) => e.preventDefault()}
+                      onDrop={() => handlePhotoDrop(index)}
+                      onDragEnd={() => setDraggedPhotoIndex(null)}
+                      className={`space-y-2 ${
+                        draggedPhotoIndex === index ? "opacity-50" : ""
+                      }`}
+                    >
+                      <div className="relative cursor-move">
+                        <img
+                          src={getPhotoUrl(
+                            formData.photo_variants,
+                            photo.url,
+                            "thumb"
+                          )}
+                          alt={photo.alt || `Upload ${index + 1}`}
+                          className="w-full h-32 object-cover rounded-lg"
+                        />
+                        <GripVertical className="absolute top-2 right-2 h-4 w-4 text-white drop-shadow" />
+                        {index === 0 ? (
+                          <span className="absolute top-2 left-2 px-2 py-0.5 text-xs bg-black/60 text-white rounded">
+                            Cover
+                          </span>
+                        ) : (
+                          <button
+                            onClick={() => movePhoto(index, 0)}
+                            className="absolute top-2 left-2 flex items-center px-2 py-0.5 text-xs bg-white/90 rounded hover:bg-white"
+                          >
+                            <Star className="h-3 w-3 mr-1" />
+                            Make cover
+                          </button>
+                        )}
+                        <button
+                          onClick={() => removePhoto(index)}
+                          className="absolute -top-2 -right-2 bg-red-500 text-white rounded-full p-1 hover:bg-red-600"
+                          aria-label={`Remove photo ${index + 1}`}
+                        >
+                          <X className="h-4 w-4" />
+                        </button>
+                        <div className="absolute bottom-2 right-2 flex space-x-1">
+                          <button
+                            onClick={() => movePhoto(index, index - 1)}
+                            disabled={index === 0}
+                            className="bg-white/90 rounded-full p-1 hover:bg-white disabled:opacity-40"
+                            aria-label={`Move photo ${index + 1} earlier`}
+                          >
+                            <ChevronLeft className="h-4 w-4" />
+                          </button>
+                          <button
+                            onClick={() => movePhoto(index, index + 1)}
+                            disabled={index === formData.photos.length - 1}
+                            className="bg-white/90 rounded-full p-1 hover:bg-white disabled:opacity-40"
+                            aria-label={`Move photo ${index + 1} later`}
+                          >
+                            <ChevronRight className="h-4 w-4" />
+                          </button>
+                        </div>
+                      </div>
+                      <input
+                        type="text"
+                        value={photo.caption || ""}
+                        onChange={(e) =>
+                          updatePhoto(index, "caption", e.target.value)
+                        }
+                        maxLength={PHOTO_CAPTION_MAX_LENGTH}
+                        placeholder="Caption (optional)"
+                        aria-label={`Caption for photo ${index + 1}`}
+                        className="w-full px-2 py-1 text-sm border rounded"
+                      />
+                      <input
+                        type="text"
+                        value={photo.alt || ""}
+                        onChange={(e) =>
+                          updatePhoto(index, "alt", e.target.value)
+                        }
+                        maxLength={PHOTO_ALT_MAX_LENGTH}
+                        placeholder="Describe the photo (alt text)"
+                        aria-label={`Alt text for photo ${index + 1}`}
+                        className="w-full px-2 py-1 text-sm border rounded"
+                      />
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+        );
+
+      case "campus":
+        return (
+          <div className="space-y-4">
+            <h2 className="text-2xl font-bold">Select Campus</h2>
+            <div className="relative">
+              <label className="block text-sm font-medium mb-2">Campus *</label>
+              <input
+                type="text"
+                value={campusSearch}
+                onChange={(e) => setCampusSearch(e.target.value)}
+                onFocus={() => setShowCampusDropdown(true)}
+                className="w-full p-3 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                placeholder="Type to search for your campus"
+              />
+              {showCampusDropdown && filteredCampuses.length > 0 && (
+                <div className="absolute z-10 w-full bg-white border rounded-lg shadow-lg max-h-40 overflow-y-auto mt-1">
+                  {filteredCampuses.map((campus) => (
+                    <button
+                      key={campus}
+                      onClick={() => handleCampusSelect(campus)}
+                      className="w-full p-3 text-left hover:bg-gray-100 border-b last:border-b-0"
+                    >
+                      {campus}
+                    </button>
+                  ))}
+                </div>
+              )}
+              {errors.campus && (
+                <p className="text-red-500 text-sm mt-1">{errors.campus}</p>
+              )}
+            </div>
+            {!isEditing && (
+              <div>
+                <label className="block text-sm font-medium mb-2">
+                  Publish At (Optional)
+                </label>
+                <input
+                  type="datetime-local"
+                  value={formData.publish_at || ""}
+                  onChange={(e) =>
+                    handleInputChange("publish_at", e.target.value)
+                  }
+                  className="w-full p-3 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+                <p className="text-xs text-gray-500 mt-1">
+                  Leave empty to publish now, or pick a time for the post to go
+                  live.
+                </p>
+                {errors.publish_at && (
+                  <p className="text-red-500 text-sm mt-1">
+                    {errors.publish_at}
+                  </p>
+                )}
+              </div>
+            )}
+            {user && (
+              <div className="bg-gray-50 p-4 rounded-lg">
+                <h3 className="font-medium mb-2">Your Contact Information</h3>
+                <p className="text-sm text-gray-600">
+                  Name: {user.user_metadata.full_name || "Not provided"}
+                </p>
+                <p className="text-sm text-gray-600">Email: {user.email}</p>
+              </div>
+            )}
+          </div>
+        );
+
+      default:
+        return null;
+    }
+  };
+
+  if (!user || isDraftLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loading text="Please wait..." />
+      </div>
+    );
+  }
+
+  if (post && post.seller_id !== user.id) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50">
+        <div className="text-center">
+          <h2 className="text-2xl font-semibold text-gray-900 mb-2">
+            You can only edit your own posts
+          </h2>
+          <button
+            onClick={() => router.push(`/post/${post.id}`)}
+            className="mt-4 px-6 py-3 bg-blue-500 text-white rounded-lg hover:bg-blue-600 font-medium transition-colors"
+          >
+            Back to Post
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 text-black">
+      <div className="max-w-2xl mx-auto p-6">
+        {/* Progress Bar */}
+        <div className="mb-8">
+          <div className="flex justify-between items-center mb-4">
+            <div>
+              <h1 className="text-3xl font-bold">
+                {isEditing ? "Edit Post" : "Create Post"}
+              </h1>
+              {!isEditing && (
+                <Link
+                  href="/create-post/import"
+                  className="text-sm text-blue-500 hover:text-blue-600"
+                >
+                  Posting lots of items? Bulk import
+                </Link>
+              )}
+            </div>
+            <div className="text-right">
+              <span className="text-sm text-gray-500">
+                Step {currentStep + 1} of {steps.length}
+              </span>
+              {!isEditing && draftStatus !== "idle" && (
+                <p
+                  className={`text-xs ${
+                    draftStatus === "error" ? "text-red-500" : "text-gray-400"
+                  }`}
+                >
+                  {draftStatus === "saving" && "Saving draft..."}
+                  {draftStatus === "saved" && "Draft saved"}
+                  {draftStatus === "error" && "Couldn't save draft"}
+                </p>
+              )}
+            </div>
+          </div>
+          <div className="w-full bg-gray-200 rounded-full h-2">
+            <div
+              className="bg-blue-500 h-2 rounded-full transition-all duration-300"
+              style={{ width: `${((currentStep + 1) / steps.length) * 100}%` }}
+            />
+          </div>
+          <div className="flex justify-between mt-2">
+            {steps.map((step, index) => (
+              <span
+                key={step}
+                className={`text-xs ${
+                  index <= currentStep ? "text-blue-500" : "text-gray-400"
+                }`}
+              >
+                {STEP_LABELS[step]}
+              </span>
+            ))}
+          </div>
+        </div>
+
+        {/* Step Content */}
+        <div className="bg-white rounded-lg shadow-sm p-6 mb-6">
+          {renderStep()}
+        </div>
+
+        {/* Navigation */}
+        <div className="flex justify-between">
+          <button
+            onClick={handlePrevious}
+            disabled={currentStep === 0}
+            className="flex items-center px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Previous
+          </button>
+
+          {!isEditing && (
+            <button
+              onClick={() => saveDraftRef.current()}
+              disabled={!formData.main_category || draftStatus === "saving"}
+              className="ml-auto mr-3 px-4 py-2 text-gray-600 border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Save Draft
+            </button>
+          )}
+
+          {currentStep < steps.length - 1 ? (
+            <button
+              onClick={handleNext}
+              className="flex items-center px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600"
+            >
+              Next
+              <ArrowRight className="h-4 w-4 ml-2" />
+            </button>
+          ) : (
+            <button
+              onClick={handleSubmit}
+              disabled={isLoading}
+              className="px-6 py-2 bg-green-500 text-white rounded-lg hover:bg-green-600 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isEditing
+                ? isLoading
+                  ? "Saving..."
+                  : "Save Changes"
+                : isLoading
+                ? "Creating..."
+                : formData.publish_at
+                ? "Schedule Post"
+                : "Create Post"}
+            </button>
+          )}
+        </div>
+
+        {errors.submit && (
+          <div className="mt-4 p-4 bg-red-50 border border-red-200 rounded-lg">
+            <p className="text-red-700">{errors.submit}</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,135 @@
+// src/components/posts/SaveSearchButton.tsx
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import toast from "react-hot-toast";
+import { BellPlus, Loader2 } from "lucide-react";
+import { PostFilters } from "@/lib/posts";
+import { SavedSearchFrequency } from "@/lib/types";
+import {
+  SAVED_SEARCH_NAME_MAX_LENGTH,
+  SavedSearchService,
+} from "@/lib/saved-searches";
+import { useAuth } from "@/contexts/AuthContext";
+
+interface SaveSearchButtonProps {
+  filters: PostFilters;
+}
+
+// Suggest a name from the most specific filters set
+const suggestName = (filters: PostFilters): string =>
+  [
+    filters.search && `"${filters.search}"`,
+    filters.subcategory || filters.category,
+    filters.campus && `at ${filters.campus}`,
+  ]
+    .filter(Boolean)
+    .join(" ")
+    .slice(0, SAVED_SEARCH_NAME_MAX_LENGTH);
+
+export default function SaveSearchButton({ filters }: SaveSearchButtonProps) {
+  const { user } = useAuth();
+  const [isOpen, setIsOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [frequency, setFrequency] = useState<SavedSearchFrequency>("instant");
+  const [isSaving, setIsSaving] = useState(false);
+
+  if (!user) {
+    return null;
+  }
+
+  const handleOpen = () => {
+    setName(suggestName(filters));
+    setIsOpen(true);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+
+    const { error } = await SavedSearchService.createSavedSearch(
+      user.id,
+      name,
+      filters,
+      frequency
+    );
+
+    setIsSaving(false);
+
+    if (error) {
+      toast.error(error);
+      return;
+    }
+
+    toast.success(
+      frequency === "instant"
+        ? "Search saved. We'll email you when new posts match."
+        : "Search saved. We'll email you a daily digest of new matches."
+    );
+    setIsOpen(false);
+  };
+
+  if (!isOpen) {
+    return (
+      <button
+        type="button"
+        onClick={handleOpen}
+        className="inline-flex items-center gap-1 px-3 py-1 rounded-full text-sm border border-blue-300 text-blue-700 hover:bg-blue-50 transition-colors cursor-pointer"
+      >
+        <BellPlus className="w-4 h-4" />
+        Save search
+      </button>
+    );
+  }
+
+  return (
+    <form
+      onSubmit={handleSave}
+      className="mt-3 w-full flex flex-col sm:flex-row sm:items-center gap-2 p-3 bg-white border border-gray-200 rounded-lg"
+    >
+      <input
+        type="text"
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        maxLength={SAVED_SEARCH_NAME_MAX_LENGTH}
+        placeholder="Name this search"
+        aria-label="Search name"
+        className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+        autoFocus
+      />
+      <select
+        value={frequency}
+        onChange={(e) => setFrequency(e.target.value as SavedSearchFrequency)}
+        aria-label="Email frequency"
+        className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+      >
+        <option value="instant">Email me right away</option>
+        <option value="daily">Daily digest</option>
+      </select>
+      <div className="flex gap-2">
+        <button
+          type="submit"
+          disabled={isSaving || !name.trim()}
+          className="inline-flex items-center gap-1 px-4 py-2 bg-blue-500 text-white rounded-lg text-sm font-medium hover:bg-blue-600 disabled:opacity-50 transition-colors cursor-pointer"
+        >
+          {isSaving && <Loader2 className="w-4 h-4 animate-spin" />}
+          Save
+        </button>
+        <button
+          type="button"
+          onClick={() => setIsOpen(false)}
+          className="px-4 py-2 bg-gray-100 text-gray-700 rounded-lg text-sm hover:bg-gray-200 transition-colors cursor-pointer"
+        >
+          Cancel
+        </button>
+      </div>
+      <Link
+        href="/saved-searches"
+        className="text-xs text-gray-500 hover:text-gray-700 sm:ml-2"
+      >
+        Manage
+      </Link>
+    </form>
+  );
+}
@@ -0,0 +1,212 @@
+// src/components/seller/SellerListings.tsx
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import Link from "next/link";
+import {
+  Loader2,
+  RefreshCw,
+  Clock,
+  CalendarClock,
+  Download,
+} from "lucide-react";
+import { Post } from "@/lib/types";
+import { PostService } from "@/lib/posts";
+import { supabase } from "@/lib/supabase";
+import { formatPrice, formatDate } from "@/lib/utils";
+import { isExpiringSoon } from "@/lib/post-expiry";
+import PostStatusBadge from "@/components/posts/PostStatusBadge";
+
+interface SellerListingsProps {
+  sellerId: string;
+}
+
+export default function SellerListings({ sellerId }: SellerListingsProps) {
+  const [posts, setPosts] = useState<Post[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [renewingId, setRenewingId] = useState<string | null>(null);
+  const [exportingFormat, setExportingFormat] = useState<"csv" | "json" | null>(
+    null
+  );
+
+  const fetchPosts = useCallback(async () => {
+    setLoading(true);
+    const { data, error } = await PostService.getPostsBySeller(sellerId);
+    if (error) {
+      setError(error);
+    } else {
+      setPosts(data);
+    }
+    setLoading(false);
+  }, [sellerId]);
+
+  useEffect(() => {
+    fetchPosts();
+  }, [fetchPosts]);
+
+  const handleRenew = async (postId: string) => {
+    setRenewingId(postId);
+    setError(null);
+
+    const { data, error } = await PostService.renewPost(postId);
+    if (error || !data) {
+      setError(error || "Failed to renew post");
+    } else {
+      setPosts((prev) =>
+        prev.map((post) => (post.id === data.id ? data : post))
+      );
+    }
+
+    setRenewingId(null);
+  };
+
+  const handleExport = async (format: "csv" | "json") => {
+    setExportingFormat(format);
+    setError(null);
+
+    try {
+      // Get the current session to get the access token
+      const {
+        data: { session },
+      } = await supabase.auth.getSession();
+
+      if (!session) {
+        throw new Error("No active session");
+      }
+
+      const response = await fetch(`/api/seller/export?format=${format}`, {
+        headers: {
+          Authorization: `Bearer ${session.access_token}`,
+        },
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || "Failed to export listings");
+      }
+
+      // Download through a temporary link, keeping the server's file name
+      const fileName =
+        response.headers
+          .get("Content-Disposition")
+          ?.match(/filename="(.+)"/)?.[1] || `listings.${format}`;
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = fileName;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "Failed to export listings"
+      );
+    } finally {
+      setExportingFormat(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="h-6 w-6 animate-spin text-blue-600" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200">
+      <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+        <h2 className="text-lg font-semibold text-gray-900">My Listings</h2>
+        {posts.length > 0 && (
+          <div className="flex space-x-2">
+            {(["csv", "json"] as const).map((format) => (
+              <button
+                key={format}
+                onClick={() => handleExport(format)}
+                disabled={exportingFormat !== null}
+                className="inline-flex items-center px-3 py-1.5 text-sm border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+              >
+                {exportingFormat === format ? (
+                  <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                ) : (
+                  <Download className="h-4 w-4 mr-1" />
+                )}
+                Export {format.toUpperCase()}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {error && (
+        <div className="mx-6 mt-4 p-3 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-sm text-red-800">{error}</p>
+        </div>
+      )}
+
+      {posts.length === 0 ? (
+        <p className="px-6 py-8 text-center text-gray-500">
+          You haven&apos;t posted any listings yet.
+        </p>
+      ) : (
+        <ul className="divide-y divide-gray-200">
+          {posts.map((post) => {
+            const canRenew =
+              post.status === "expired" ||
+              (post.status === "active" && isExpiringSoon(post.expires_at));
+
+            return (
+              <li
+                key={post.id}
+                className="px-6 py-4 flex items-center justify-between gap-4"
+              >
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <Link
+                      href={`/post/${post.id}`}
+                      className="font-medium text-gray-900 hover:text-blue-600 truncate"
+                    >
+                      {post.title}
+                    </Link>
+                    <PostStatusBadge status={post.status} className="text-xs" />
+                  </div>
+                  <div className="mt-1 flex items-center gap-4 text-sm text-gray-500">
+                    {post.price && <span>{formatPrice(post.price)}</span>}
+                    {post.publish_at && post.status === "scheduled" && (
+                      <span className="flex items-center">
+                        <CalendarClock className="h-4 w-4 mr-1" />
+                        Publishes {formatDate(post.publish_at)}
+                      </span>
+                    )}
+                    {post.expires_at && post.status === "active" && (
+                      <span className="flex items-center">
+                        <Clock className="h-4 w-4 mr-1" />
+                        Expires {formatDate(post.expires_at)}
+                      </span>
+                    )}
+                  </div>
+                </div>
+
+                {canRenew && (
+                  <button
+                    onClick={() => handleRenew(post.id)}
+                    disabled={renewingId !== null}
+                    className="inline-flex items-center px-3 py-1.5 text-sm font-medium bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors cursor-pointer"
+                  >
+                    {renewingId === post.id ? (
+                      <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                    ) : (
+                      <RefreshCw className="h-4 w-4 mr-1" />
+                    )}
+                    Renew
+                  </button>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
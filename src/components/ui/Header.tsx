@@ -2,8 +2,19 @@
 "use client";
 
 import Link from "next/link";
-import { Home, Plus, LogOut, User, Menu, X } from "lucide-react";
+import {
+  Home,
+  Plus,
+  LogOut,
+  User,
+  Menu,
+  FileText,
+  Heart,
+  Bell,
+  Inbox,
+} from "lucide-react";
 import { useAuth } from "@/contexts/AuthContext";
+import { useMessages } from "@/contexts/MessagesContext";
 import { useRouter } from "next/navigation";
 import { useState, useEffect, useRef } from "react";
 import Avatar from "@/components/ui/Avatar";
@@ -22,8 +33,10 @@ export default function Header({
   showSidebarToggle = false,
 }: HeaderProps) {
   const { user, signOut } = useAuth();
+  const { unreadCount } = useMessages();
   const router = useRouter();
   const [showDropdown, setShowDropdown] = useState(false);
+  const unreadLabel = unreadCount > 99 ? "99+" : String(unreadCount);
   const [profile, setProfile] = useState<Profile | null>(null);
   const dropdownRef = useRef<HTMLDivElement>(null);
 
@@ -111,7 +124,12 @@ export default function Header({
               <div className="relative" ref={dropdownRef}>
                 <button
                   onClick={() => setShowDropdown(!showDropdown)}
-                  className="flex items-center space-x-2 p-1 rounded-full hover:bg-gray-100 transition-colors cursor-pointer"
+                  className="relative flex items-center space-x-2 p-1 rounded-full hover:bg-gray-100 transition-colors cursor-pointer"
+                  aria-label={
+                    unreadCount > 0
+                      ? `Account menu, ${unreadCount} unread messages`
+                      : "Account menu"
+                  }
                 >
                   <Avatar
                     src={profile?.avatar_url}
@@ -119,6 +137,9 @@ export default function Header({
                     email={user.email}
                     size="sm"
                   />
+                  {unreadCount > 0 && (
+                    <span className="absolute -top-0.5 -right-0.5 w-3 h-3 rounded-full bg-red-500 border-2 border-white" />
+                  )}
                 </button>
 
                 {showDropdown && (
@@ -140,6 +161,43 @@ export default function Header({
                       <User className="w-4 h-4" />
                       <span>My Profile</span>
                     </Link>
+                    <Link
+                      href="/inbox"
+                      className="flex items-center space-x-2 px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 transition-colors cursor-pointer"
+                      onClick={() => setShowDropdown(false)}
+                    >
+                      <Inbox className="w-4 h-4" />
+                      <span>Inbox</span>
+                      {unreadCount > 0 && (
+                        <span className="ml-auto min-w-[1.25rem] px-1.5 py-0.5 rounded-full bg-red-500 text-white text-xs font-medium text-center">
+                          {unreadLabel}
+                        </span>
+                      )}
+                    </Link>
+                    <Link
+                      href="/drafts"
+                      className="flex items-center space-x-2 px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 transition-colors cursor-pointer"
+                      onClick={() => setShowDropdown(false)}
+                    >
+                      <FileText className="w-4 h-4" />
+                      <span>My Drafts</span>
+                    </Link>
+                    <Link
+                      href="/saved"
+                      className="flex items-center space-x-2 px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 transition-colors cursor-pointer"
+                      onClick={() => setShowDropdown(false)}
+                    >
+                      <Heart className="w-4 h-4" />
+                      <span>Saved</span>
+                    </Link>
+                    <Link
+                      href="/saved-searches"
+                      className="flex items-center space-x-2 px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 transition-colors cursor-pointer"
+                      onClick={() => setShowDropdown(false)}
+                    >
+                      <Bell className="w-4 h-4" />
+                      <span>Saved Searches</span>
+                    </Link>
                     <hr className="my-1 border-gray-200" />
 
                     <button
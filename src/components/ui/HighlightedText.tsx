@@ -0,0 +1,23 @@
+// src/components/ui/HighlightedText.tsx
+import { splitHighlights } from "@/lib/search";
+
+interface HighlightedTextProps {
+  // Text with search matches wrapped in highlight markers
+  text: string;
+}
+
+export default function HighlightedText({ text }: HighlightedTextProps) {
+  return (
+    <>
+      {splitHighlights(text).map((segment, index) =>
+        segment.highlighted ? (
+          <mark key={index} className="bg-yellow-200 text-inherit rounded-sm">
+            {segment.text}
+          </mark>
+        ) : (
+          <span key={index}>{segment.text}</span>
+        )
+      )}
+    </>
+  );
+}
@@ -1,63 +1,293 @@
 // src/components/ui/SearchBar.tsx
 "use client";
 
-import { useState, useCallback } from "react";
-import { Search, X } from "lucide-react";
+import { useState, useEffect, useMemo, useRef } from "react";
+import { useRouter } from "next/navigation";
+import {
+  Search,
+  X,
+  Tag,
+  Tags,
+  MapPin,
+  TrendingUp,
+  FileText,
+} from "lucide-react";
 import { debounce } from "lodash";
+import {
+  SUGGESTION_MIN_QUERY_LENGTH,
+  SearchSuggestion,
+  SearchSuggestionService,
+  SearchSuggestionType,
+} from "@/lib/search-suggestions";
 
 interface SearchBarProps {
   onSearch: (query: string) => void;
   placeholder?: string;
   className?: string;
   initialValue?: string;
+  // Pass value and onChange to control the text from outside
+  value?: string;
+  onChange?: (value: string) => void;
+  id?: string;
+  inputRef?: React.RefObject<HTMLInputElement | null>;
 }
 
+const SUGGESTION_ICONS: Record<SearchSuggestionType, React.ElementType> = {
+  category: Tag,
+  subcategory: Tags,
+  campus: MapPin,
+  query: TrendingUp,
+  listing: FileText,
+};
+
 const SearchBar: React.FC<SearchBarProps> = ({
   onSearch,
   placeholder = "Search posts...",
   className = "",
   initialValue = "",
+  value,
+  onChange,
+  id = "search-bar",
+  inputRef,
 }) => {
-  const [query, setQuery] = useState(initialValue);
+  const router = useRouter();
+  const [internalQuery, setInternalQuery] = useState(initialValue);
+  const [suggestions, setSuggestions] = useState<SearchSuggestion[]>([]);
+  const [isOpen, setIsOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(-1);
+  const abortRef = useRef<AbortController | null>(null);
+  // Last query counted for suggestions, so it isn't counted twice
+  const recordedRef = useRef("");
+
+  const query = value ?? internalQuery;
+  const listboxId = `${id}-suggestions`;
+
+  // Latest onSearch, read when the debounce fires, so a parent passing a
+  // new callback each render doesn't reset the pending search
+  const onSearchRef = useRef(onSearch);
+  useEffect(() => {
+    onSearchRef.current = onSearch;
+  }, [onSearch]);
 
   // Debounced search function
-  const debouncedSearch = useCallback(
-    debounce((searchQuery: string) => {
-      onSearch(searchQuery);
-    }, 300),
-    [onSearch]
+  const debouncedSearch = useMemo(
+    () =>
+      debounce((searchQuery: string) => {
+        onSearchRef.current(searchQuery);
+      }, 300),
+    []
   );
 
+  // Debounced suggestion lookup; a newer lookup cancels the one in flight
+  const debouncedSuggest = useMemo(
+    () =>
+      debounce(async (searchQuery: string) => {
+        abortRef.current?.abort();
+
+        if (searchQuery.trim().length < SUGGESTION_MIN_QUERY_LENGTH) {
+          setSuggestions([]);
+          return;
+        }
+
+        const controller = new AbortController();
+        abortRef.current = controller;
+        const { data, error } = await SearchSuggestionService.fetchSuggestions(
+          searchQuery,
+          controller.signal
+        );
+
+        if (controller.signal.aborted) return;
+        setSuggestions(error ? [] : data);
+        setActiveIndex(-1);
+      }, 200),
+    []
+  );
+
+  // Cleanup debounce on unmount
+  useEffect(() => {
+    return () => {
+      debouncedSearch.cancel();
+    };
+  }, [debouncedSearch]);
+
+  useEffect(() => {
+    return () => {
+      debouncedSuggest.cancel();
+      abortRef.current?.abort();
+    };
+  }, [debouncedSuggest]);
+
+  const setQuery = (nextQuery: string) => {
+    setInternalQuery(nextQuery);
+    onChange?.(nextQuery);
+  };
+
+  const recordQuery = (searchQuery: string) => {
+    const trimmed = searchQuery.trim();
+    if (trimmed.length < SUGGESTION_MIN_QUERY_LENGTH) return;
+    if (trimmed === recordedRef.current) return;
+
+    recordedRef.current = trimmed;
+    SearchSuggestionService.recordQuery(trimmed);
+  };
+
   // Handle input change
-  const handleInputChange = (value: string) => {
-    setQuery(value);
-    debouncedSearch(value);
+  const handleInputChange = (nextQuery: string) => {
+    setQuery(nextQuery);
+    setIsOpen(true);
+    debouncedSearch(nextQuery);
+    debouncedSuggest(nextQuery);
+  };
+
+  // Run the search now rather than waiting for the debounce
+  const submitQuery = (searchQuery: string) => {
+    debouncedSearch.cancel();
+    debouncedSuggest.cancel();
+    setIsOpen(false);
+    onSearch(searchQuery);
+    recordQuery(searchQuery);
+  };
+
+  const selectSuggestion = (suggestion: SearchSuggestion) => {
+    setIsOpen(false);
+
+    if (suggestion.postId) {
+      recordQuery(query);
+      router.push(`/post/${suggestion.postId}`);
+      return;
+    }
+
+    const nextQuery = suggestion.query || suggestion.label;
+    setQuery(nextQuery);
+    setSuggestions([]);
+    submitQuery(nextQuery);
+  };
+
+  // Keyboard navigation through the suggestions
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    const hasSuggestions = isOpen && suggestions.length > 0;
+
+    switch (e.key) {
+      case "ArrowDown":
+        if (!suggestions.length) return;
+        e.preventDefault();
+        setIsOpen(true);
+        setActiveIndex((prev) => (prev + 1) % suggestions.length);
+        break;
+      case "ArrowUp":
+        if (!hasSuggestions) return;
+        e.preventDefault();
+        setActiveIndex((prev) =>
+          prev <= 0 ? suggestions.length - 1 : prev - 1
+        );
+        break;
+      case "Enter":
+        e.preventDefault();
+        if (hasSuggestions && activeIndex >= 0) {
+          selectSuggestion(suggestions[activeIndex]);
+        } else {
+          submitQuery(query);
+        }
+        break;
+      case "Escape":
+        if (!hasSuggestions) return;
+        // Close the list without letting the sidebar close too
+        e.nativeEvent.stopImmediatePropagation();
+        setIsOpen(false);
+        setActiveIndex(-1);
+        break;
+    }
   };
 
   // Clear search
   const clearSearch = () => {
+    debouncedSearch.cancel();
+    debouncedSuggest.cancel();
     setQuery("");
+    setSuggestions([]);
     onSearch("");
   };
 
+  const showSuggestions = isOpen && suggestions.length > 0;
+
   return (
     <div className={`relative ${className}`}>
       <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
       <input
+        id={id}
+        ref={inputRef}
         type="text"
+        role="combobox"
+        aria-autocomplete="list"
+        aria-expanded={showSuggestions}
+        aria-controls={listboxId}
+        aria-activedescendant={
+          showSuggestions && activeIndex >= 0
+            ? `${listboxId}-${activeIndex}`
+            : undefined
+        }
+        autoComplete="off"
         placeholder={placeholder}
         value={query}
         onChange={(e) => handleInputChange(e.target.value)}
-        className="w-full pl-10 pr-10 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-colors"
+        onKeyDown={handleKeyDown}
+        onFocus={() => setIsOpen(true)}
+        onBlur={() => {
+          setIsOpen(false);
+          // Leaving the box, e.g. to open a result, settles the search
+          recordQuery(query);
+        }}
+        className="w-full text-black pl-10 pr-10 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-colors"
       />
       {query && (
         <button
           onClick={clearSearch}
           className="absolute right-3 top-1/2 transform -translate-y-1/2 text-gray-400 hover:text-gray-600 transition-colors"
+          aria-label="Clear search"
         >
           <X className="w-4 h-4" />
         </button>
       )}
+
+      {showSuggestions && (
+        <ul
+          id={listboxId}
+          role="listbox"
+          className="absolute z-20 mt-1 w-full max-h-80 overflow-y-auto bg-white border border-gray-200 rounded-lg shadow-lg py-1"
+        >
+          {suggestions.map((suggestion, index) => {
+            const Icon = SUGGESTION_ICONS[suggestion.type];
+
+            return (
+              <li
+                key={`${suggestion.type}-${
+                  suggestion.postId || suggestion.label
+                }-${suggestion.detail || ""}`}
+                id={`${listboxId}-${index}`}
+                role="option"
+                aria-selected={index === activeIndex}
+                // Keep focus in the input so blur doesn't close the list first
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => selectSuggestion(suggestion)}
+                onMouseEnter={() => setActiveIndex(index)}
+                className={`flex items-center gap-2 px-3 py-2 text-sm cursor-pointer ${
+                  index === activeIndex
+                    ? "bg-blue-50 text-blue-700"
+                    : "text-gray-700"
+                }`}
+              >
+                <Icon className="w-4 h-4 flex-shrink-0 text-gray-400" />
+                <span className="truncate">{suggestion.label}</span>
+                {suggestion.detail && (
+                  <span className="ml-auto flex-shrink-0 text-xs text-gray-400">
+                    {suggestion.detail}
+                  </span>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
     </div>
   );
 };
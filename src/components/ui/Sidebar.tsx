@@ -2,7 +2,6 @@
 
 import { useState, useEffect, useCallback, useRef } from "react";
 import {
-  Search,
   X,
   ChevronDown,
   ChevronRight,
@@ -10,34 +9,66 @@ import {
   MapPin,
   DollarSign,
   RefreshCw,
+  SlidersHorizontal,
 } from "lucide-react";
-import { MAIN_CATEGORIES, SUB_CATEGORIES, CAMPUS_LIST } from "@/lib/types";
+import {
+  MAIN_CATEGORIES,
+  SUB_CATEGORIES,
+  CAMPUS_LIST,
+  PostSort,
+} from "@/lib/types";
 import { PostService, PostFilters } from "@/lib/posts";
-import { debounce } from "lodash";
+import { PRICE_BUCKETS, PostFacets, PriceRange } from "@/lib/search";
+import {
+  AttributeFilter,
+  AttributeFilters,
+  getFilterableAttributes,
+} from "@/lib/post-attributes";
+import AttributeFilterFields from "@/components/posts/AttributeFilterFields";
+import SearchBar from "./SearchBar";
 import {
   cleanFilters,
   updateUrlWithFilters,
   getFiltersFromUrl,
+  getFilterDisplayName,
 } from "@/lib/filterUtils";
+import {
+  ParsedFilterKey,
+  ParsedQueryChip,
+  parseSearchQuery,
+} from "@/lib/query-parser";
 
 interface SidebarProps {
   onFiltersChange: (filters: PostFilters) => void;
   isOpen: boolean;
   onToggle: () => void;
   initialFilters?: PostFilters;
+  // Chosen above the results, but sent along with the sidebar's filters
+  sort?: PostSort;
 }
 
-interface CategoryCounts {
-  [key: string]: number;
-}
+const DISABLED_OPTION_CLASSES =
+  "disabled:opacity-40 disabled:cursor-not-allowed disabled:hover:bg-transparent";
+
+const formatPriceRange = ({ min, max }: PriceRange): string => {
+  if (min == null) return `Under $${max}`;
+  if (max == null) return `$${min}+`;
+  return `$${min}–$${max}`;
+};
 
 const Sidebar: React.FC<SidebarProps> = ({
   onFiltersChange,
   isOpen,
   onToggle,
   initialFilters = {},
+  sort,
 }) => {
   const [searchQuery, setSearchQuery] = useState(initialFilters.search || "");
+  // What's left of the query once filters are parsed out of it
+  const [searchKeywords, setSearchKeywords] = useState(
+    initialFilters.search || ""
+  );
+  const [parsedChips, setParsedChips] = useState<ParsedQueryChip[]>([]);
   const [selectedCategory, setSelectedCategory] = useState<string>(
     initialFilters.category || ""
   );
@@ -53,11 +84,18 @@ const Sidebar: React.FC<SidebarProps> = ({
   const [maxPrice, setMaxPrice] = useState<string>(
     initialFilters.maxPrice?.toString() || ""
   );
+  const [attributeFilters, setAttributeFilters] = useState<AttributeFilters>(
+    initialFilters.attributes || {}
+  );
   const [expandedCategories, setExpandedCategories] = useState<Set<string>>(
     new Set()
   );
-  const [categoryCounts, setCategoryCounts] = useState<CategoryCounts>({});
+  // How many results each option would give; null until first loaded
+  const [facets, setFacets] = useState<PostFacets | null>(null);
   const [isLoadingCounts, setIsLoadingCounts] = useState(false);
+  // Ignore counts for filters that have since changed
+  const facetsRequestRef = useRef(0);
+  const lastFiltersRef = useRef<PostFilters>({});
   const searchInputRef = useRef<HTMLInputElement>(null);
 
   // Close sidebar when clicking on filter options (mobile only)
@@ -67,16 +105,34 @@ const Sidebar: React.FC<SidebarProps> = ({
     }
   }, [onToggle]);
 
+  // Load the counts shown next to each filter option
+  const loadFacets = useCallback(async (filters: PostFilters) => {
+    const requestId = ++facetsRequestRef.current;
+    setIsLoadingCounts(true);
+
+    const { data, error } = await PostService.getFacets(filters);
+    if (requestId !== facetsRequestRef.current) return;
+
+    if (error) {
+      console.error("Failed to load filter counts:", error);
+    } else {
+      setFacets(data);
+    }
+    setIsLoadingCounts(false);
+  }, []);
+
   // Update filters and notify parent - MOVED TO TOP
   const updateFilters = useCallback(
     (newFilters: Partial<PostFilters> = {}) => {
       const filters: PostFilters = {
-        search: searchQuery,
+        search: searchKeywords,
         category: selectedCategory || undefined,
         subcategory: selectedSubcategory || undefined,
         campus: selectedCampus || undefined,
         minPrice: minPrice ? parseFloat(minPrice) : undefined,
         maxPrice: maxPrice ? parseFloat(maxPrice) : undefined,
+        attributes: attributeFilters,
+        sort,
         ...newFilters,
       };
 
@@ -87,32 +143,93 @@ const Sidebar: React.FC<SidebarProps> = ({
 
       // Notify parent
       onFiltersChange(cleanedFilters);
+
+      lastFiltersRef.current = cleanedFilters;
+      loadFacets(cleanedFilters);
     },
     [
-      searchQuery,
+      searchKeywords,
       selectedCategory,
       selectedSubcategory,
       selectedCampus,
       minPrice,
       maxPrice,
+      attributeFilters,
+      sort,
       onFiltersChange,
+      loadFacets,
     ]
   );
 
-  // Debounced search function - NOW CAN SAFELY REFERENCE updateFilters
-  const debouncedSearch = useCallback(
-    debounce((query: string) => {
-      updateFilters({ search: query });
-    }, 300),
-    [updateFilters]
+  // A parsed chip only shows while its filter is still set to that value
+  const isChipActive = useCallback(
+    (chip: ParsedQueryChip) => {
+      const values: Record<ParsedFilterKey, string> = {
+        category: selectedCategory,
+        subcategory: selectedSubcategory,
+        campus: selectedCampus,
+        minPrice,
+        maxPrice,
+      };
+      return values[chip.key] === chip.value.toString();
+    },
+    [selectedCategory, selectedSubcategory, selectedCampus, minPrice, maxPrice]
   );
 
-  // Cleanup debounce on unmount
-  useEffect(() => {
-    return () => {
-      debouncedSearch.cancel();
-    };
-  }, [debouncedSearch]);
+  const clearParsedFilter = useCallback((key: ParsedFilterKey) => {
+    switch (key) {
+      case "category":
+        setSelectedCategory("");
+        setSelectedSubcategory("");
+        setAttributeFilters({});
+        break;
+      case "subcategory":
+        setSelectedSubcategory("");
+        break;
+      case "campus":
+        setSelectedCampus("");
+        break;
+      case "minPrice":
+        setMinPrice("");
+        break;
+      case "maxPrice":
+        setMaxPrice("");
+        break;
+    }
+  }, []);
+
+  // Turn the typed query into filters, e.g. "bike under $50 at berkeley"
+  // sets the category, max price and campus and searches for "bike"
+  const applySearchQuery = useCallback(
+    (query: string) => {
+      const { filters, chips } = parseSearchQuery(query);
+
+      // Filters the previous query set that the new one no longer mentions
+      parsedChips
+        .filter(isChipActive)
+        .filter((chip) => !chips.some(({ key }) => key === chip.key))
+        .forEach((chip) => clearParsedFilter(chip.key));
+
+      if (filters.category && filters.category !== selectedCategory) {
+        setSelectedCategory(filters.category);
+        setSelectedSubcategory(filters.subcategory || "");
+        setAttributeFilters({});
+      } else if (filters.subcategory) {
+        setSelectedSubcategory(filters.subcategory);
+      }
+      if (filters.campus) setSelectedCampus(filters.campus);
+      if (filters.minPrice !== undefined) {
+        setMinPrice(filters.minPrice.toString());
+      }
+      if (filters.maxPrice !== undefined) {
+        setMaxPrice(filters.maxPrice.toString());
+      }
+
+      setSearchKeywords(filters.search || "");
+      setParsedChips(chips);
+    },
+    [parsedChips, isChipActive, clearParsedFilter, selectedCategory]
+  );
 
   // Initialize expanded categories based on selected category
   useEffect(() => {
@@ -121,39 +238,24 @@ const Sidebar: React.FC<SidebarProps> = ({
     }
   }, [selectedCategory]);
 
-  // Load category counts with refresh capability
-  const loadCategoryCounts = useCallback(async () => {
-    setIsLoadingCounts(true);
-    try {
-      const { data } = await PostService.getPostsCountByCategory();
-      setCategoryCounts(data);
-    } catch (error) {
-      console.error("Failed to load category counts:", error);
-    } finally {
-      setIsLoadingCounts(false);
-    }
-  }, []);
-
-  // Load category counts on mount
-  useEffect(() => {
-    loadCategoryCounts();
-  }, [loadCategoryCounts]);
-
   // Sync with URL parameters
   useEffect(() => {
     const urlFilters = getFiltersFromUrl();
     if (Object.keys(urlFilters).length > 0) {
       setSearchQuery(urlFilters.search || "");
+      setSearchKeywords(urlFilters.search || "");
       setSelectedCategory(urlFilters.category || "");
       setSelectedSubcategory(urlFilters.subcategory || "");
       setSelectedCampus(urlFilters.campus || "");
       setMinPrice(urlFilters.minPrice?.toString() || "");
       setMaxPrice(urlFilters.maxPrice?.toString() || "");
+      setAttributeFilters(urlFilters.attributes || {});
     }
   }, []);
 
   // Handle category selection
   const handleCategorySelect = (category: string) => {
+    setAttributeFilters({});
     if (selectedCategory === category) {
       setSelectedCategory("");
       setSelectedSubcategory("");
@@ -172,24 +274,39 @@ const Sidebar: React.FC<SidebarProps> = ({
 
   // Handle subcategory selection
   const handleSubcategorySelect = (subcategory: string) => {
-    setSelectedSubcategory(
-      selectedSubcategory === subcategory ? "" : subcategory
-    );
+    const nextSubcategory =
+      selectedSubcategory === subcategory ? "" : subcategory;
+    setSelectedSubcategory(nextSubcategory);
+
+    // Drop filters on attributes the new subcategory doesn't have
+    const applicableKeys = getFilterableAttributes(
+      selectedCategory,
+      nextSubcategory || undefined
+    ).map((definition) => definition.key);
+    setAttributeFilters((prev) => {
+      const next: AttributeFilters = {};
+      Object.entries(prev).forEach(([key, filter]) => {
+        if (applicableKeys.includes(key)) next[key] = filter;
+      });
+      return next;
+    });
     closeSidebarOnMobile();
   };
 
+  // Handle attribute filter changes
+  const handleAttributeFilterChange = (
+    key: string,
+    filter: AttributeFilter
+  ) => {
+    setAttributeFilters((prev) => ({ ...prev, [key]: filter }));
+  };
+
   // Handle campus selection
   const handleCampusSelect = (campus: string) => {
     setSelectedCampus(selectedCampus === campus ? "" : campus);
     closeSidebarOnMobile();
   };
 
-  // Handle search input with better UX
-  const handleSearchChange = (value: string) => {
-    setSearchQuery(value);
-    debouncedSearch(value);
-  };
-
   // Focus search input when sidebar opens
   useEffect(() => {
     if (isOpen && searchInputRef.current) {
@@ -215,11 +332,14 @@ const Sidebar: React.FC<SidebarProps> = ({
   // Clear all filters with better UX
   const clearAllFilters = useCallback(() => {
     setSearchQuery("");
+    setSearchKeywords("");
+    setParsedChips([]);
     setSelectedCategory("");
     setSelectedSubcategory("");
     setSelectedCampus("");
     setMinPrice("");
     setMaxPrice("");
+    setAttributeFilters({});
     setExpandedCategories(new Set());
     updateFilters({
       search: "",
@@ -228,10 +348,26 @@ const Sidebar: React.FC<SidebarProps> = ({
       campus: "",
       minPrice: undefined,
       maxPrice: undefined,
+      attributes: undefined,
     });
     closeSidebarOnMobile();
   }, [updateFilters, closeSidebarOnMobile]);
 
+  // Pick a price range, or clear it if it's already picked
+  const handlePriceRangeSelect = (range: PriceRange) => {
+    const nextMin = range.min?.toString() || "";
+    const nextMax = range.max?.toString() || "";
+    const isSelected = minPrice === nextMin && maxPrice === nextMax;
+
+    setMinPrice(isSelected ? "" : nextMin);
+    setMaxPrice(isSelected ? "" : nextMax);
+    closeSidebarOnMobile();
+  };
+
+  // An option with no results can't be picked, unless it's already picked
+  const isEmptyOption = (count: number, isSelected: boolean) =>
+    facets !== null && count === 0 && !isSelected;
+
   // Validate price inputs
   const validatePrice = (value: string): string => {
     const numValue = parseFloat(value);
@@ -258,6 +394,7 @@ const Sidebar: React.FC<SidebarProps> = ({
     selectedCampus,
     minPrice,
     maxPrice,
+    attributeFilters,
     updateFilters,
   ]);
 
@@ -274,13 +411,23 @@ const Sidebar: React.FC<SidebarProps> = ({
     });
   };
 
+  const filterableAttributes = selectedCategory
+    ? getFilterableAttributes(
+        selectedCategory,
+        selectedSubcategory || undefined
+      )
+    : [];
+
+  const activeChips = parsedChips.filter(isChipActive);
+
   const hasActiveFilters =
     searchQuery ||
     selectedCategory ||
     selectedSubcategory ||
     selectedCampus ||
     minPrice ||
-    maxPrice;
+    maxPrice ||
+    Object.keys(attributeFilters).length > 0;
 
   return (
     <>
@@ -318,9 +465,9 @@ const Sidebar: React.FC<SidebarProps> = ({
               </h2>
               <div className="flex items-center space-x-2">
                 <button
-                  onClick={loadCategoryCounts}
+                  onClick={() => loadFacets(lastFiltersRef.current)}
                   className="p-2 rounded-lg hover:bg-gray-100 transition-colors text-black cursor-pointer"
-                  title="Refresh category counts"
+                  title="Refresh counts"
                 >
                   <RefreshCw className="w-4 h-4" />
                 </button>
@@ -346,27 +493,37 @@ const Sidebar: React.FC<SidebarProps> = ({
               >
                 Search Posts
               </label>
-              <div className="relative">
-                <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
-                <input
-                  id="search-input"
-                  ref={searchInputRef}
-                  type="text"
-                  placeholder="Search posts..."
-                  value={searchQuery}
-                  onChange={(e) => handleSearchChange(e.target.value)}
-                  className="w-full text-black pl-10 pr-4 py-2 border border-gray-300 rounded-lg"
-                />
-                {searchQuery && (
-                  <button
-                    onClick={() => handleSearchChange("")}
-                    className="absolute right-3 top-1/2 transform -translate-y-1/2 text-gray-400 hover:text-gray-600 transition-colors"
-                    aria-label="Clear search"
-                  >
-                    <X className="w-4 h-4" />
-                  </button>
-                )}
-              </div>
+              <SearchBar
+                id="search-input"
+                inputRef={searchInputRef}
+                placeholder="e.g. mini fridge under $50 at berkeley"
+                value={searchQuery}
+                onChange={setSearchQuery}
+                onSearch={applySearchQuery}
+              />
+
+              {/* Filters read from the query */}
+              {activeChips.length > 0 && (
+                <div className="mt-2 flex flex-wrap gap-1">
+                  {activeChips.map((chip) => (
+                    <span
+                      key={chip.key}
+                      className="inline-flex items-center gap-1 px-2 py-1 bg-blue-50 text-blue-700 border border-blue-200 rounded-full text-xs"
+                    >
+                      {getFilterDisplayName(chip.key)}: {chip.label}
+                      <button
+                        onClick={() => clearParsedFilter(chip.key)}
+                        className="hover:text-blue-900 cursor-pointer"
+                        aria-label={`Remove ${getFilterDisplayName(
+                          chip.key
+                        ).toLowerCase()} filter`}
+                      >
+                        <X className="w-3 h-3" />
+                      </button>
+                    </span>
+                  ))}
+                </div>
+              )}
             </div>
 
             {/* Categories */}
@@ -376,15 +533,16 @@ const Sidebar: React.FC<SidebarProps> = ({
                 {MAIN_CATEGORIES.map((category) => {
                   const isExpanded = expandedCategories.has(category);
                   const isSelected = selectedCategory === category;
-                  const count = categoryCounts[category] || 0;
+                  const count = facets?.categories[category] || 0;
                   const subcategories = SUB_CATEGORIES[category];
 
                   return (
                     <div key={category}>
                       <button
                         onClick={() => handleCategorySelect(category)}
+                        disabled={isEmptyOption(count, isSelected)}
                         className={`
-              w-full flex items-center justify-between p-2 rounded-lg text-left transition-colors cursor-pointer
+              w-full flex items-center justify-between p-2 rounded-lg text-left transition-colors cursor-pointer ${DISABLED_OPTION_CLASSES}
               ${
                 isSelected
                   ? "bg-blue-50 text-blue-700 border border-blue-200"
@@ -421,24 +579,40 @@ const Sidebar: React.FC<SidebarProps> = ({
                       {/* Subcategories */}
                       {isExpanded && subcategories && (
                         <div className="ml-4 mt-1 space-y-1">
-                          {subcategories.map((subcategory) => (
-                            <button
-                              key={subcategory}
-                              onClick={() =>
-                                handleSubcategorySelect(subcategory)
-                              }
-                              className={`
-                    w-full p-2 rounded-lg text-left text-sm transition-colors cursor-pointer
+                          {subcategories.map((subcategory) => {
+                            const subcategoryCount =
+                              facets?.subcategories[category]?.[subcategory] ||
+                              0;
+
+                            return (
+                              <button
+                                key={subcategory}
+                                onClick={() =>
+                                  handleSubcategorySelect(subcategory)
+                                }
+                                disabled={isEmptyOption(
+                                  subcategoryCount,
+                                  isSelected &&
+                                    selectedSubcategory === subcategory
+                                )}
+                                className={`
+                    w-full p-2 rounded-lg text-left text-sm transition-colors cursor-pointer ${DISABLED_OPTION_CLASSES}
                     ${
                       selectedSubcategory === subcategory
                         ? "bg-blue-50 text-blue-700 border border-blue-200"
                         : "hover:bg-gray-50 text-gray-600"
                     }
                   `}
-                            >
-                              {subcategory}
-                            </button>
-                          ))}
+                              >
+                                {subcategory}
+                                {facets && (
+                                  <span className="ml-1 text-xs text-gray-400">
+                                    ({subcategoryCount})
+                                  </span>
+                                )}
+                              </button>
+                            );
+                          })}
                         </div>
                       )}
                     </div>
@@ -447,6 +621,21 @@ const Sidebar: React.FC<SidebarProps> = ({
               </div>
             </div>
 
+            {/* Category-specific attributes */}
+            {filterableAttributes.length > 0 && (
+              <div className="p-4 border-b border-gray-200">
+                <h3 className="font-medium text-gray-900 mb-3 flex items-center">
+                  <SlidersHorizontal className="w-4 h-4 mr-1" />
+                  {selectedSubcategory || selectedCategory} Details
+                </h3>
+                <AttributeFilterFields
+                  definitions={filterableAttributes}
+                  filters={attributeFilters}
+                  onChange={handleAttributeFilterChange}
+                />
+              </div>
+            )}
+
             {/* Price Range */}
             <div className="p-4 border-b border-gray-200">
               <h3 className="font-medium text-gray-900 mb-3 flex items-center">
@@ -493,6 +682,34 @@ const Sidebar: React.FC<SidebarProps> = ({
                   />
                 </div>
               </div>
+              <div className="mt-3 flex flex-wrap gap-1">
+                {PRICE_BUCKETS.map((range, index) => {
+                  const bucketCount = facets?.priceBuckets[index]?.count || 0;
+                  const isSelected =
+                    minPrice === (range.min?.toString() || "") &&
+                    maxPrice === (range.max?.toString() || "");
+
+                  return (
+                    <button
+                      key={index}
+                      onClick={() => handlePriceRangeSelect(range)}
+                      disabled={isEmptyOption(bucketCount, isSelected)}
+                      className={`px-2 py-1 rounded-full text-xs border transition-colors cursor-pointer ${DISABLED_OPTION_CLASSES} ${
+                        isSelected
+                          ? "bg-blue-50 text-blue-700 border-blue-200"
+                          : "border-gray-200 text-gray-600 hover:bg-gray-50"
+                      }`}
+                    >
+                      {formatPriceRange(range)}
+                      {facets && (
+                        <span className="ml-1 text-gray-400">
+                          ({bucketCount})
+                        </span>
+                      )}
+                    </button>
+                  );
+                })}
+              </div>
             </div>
 
             {/* Campus Filter */}
@@ -502,23 +719,36 @@ const Sidebar: React.FC<SidebarProps> = ({
                 Campus
               </h3>
               <div className="space-y-1 max-h-48 overflow-y-auto">
-                {CAMPUS_LIST.map((campus) => (
-                  <button
-                    key={campus}
-                    onClick={() => handleCampusSelect(campus)}
-                    className={`
-                    w-full p-2 rounded-lg text-left text-sm transition-colors cursor-pointer
+                {CAMPUS_LIST.map((campus) => {
+                  const campusCount = facets?.campuses[campus] || 0;
+
+                  return (
+                    <button
+                      key={campus}
+                      onClick={() => handleCampusSelect(campus)}
+                      disabled={isEmptyOption(
+                        campusCount,
+                        selectedCampus === campus
+                      )}
+                      className={`
+                    w-full p-2 rounded-lg text-left text-sm transition-colors cursor-pointer flex items-center justify-between ${DISABLED_OPTION_CLASSES}
                     ${
                       selectedCampus === campus
                         ? "bg-blue-50 text-blue-700 border border-blue-200"
                         : "hover:bg-gray-50 text-gray-600"
                     }
                   `}
-                    title={campus}
-                  >
-                    <span className="truncate block">{campus}</span>
-                  </button>
-                ))}
+                      title={campus}
+                    >
+                      <span className="truncate block">{campus}</span>
+                      {facets && (
+                        <span className="ml-1 flex-shrink-0 text-xs text-gray-400">
+                          ({campusCount})
+                        </span>
+                      )}
+                    </button>
+                  );
+                })}
               </div>
             </div>
           </div>
@@ -0,0 +1,79 @@
+// src/contexts/FavoritesContext.tsx
+"use client";
+
+import { createContext, useContext, useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import toast from "react-hot-toast";
+import { useAuth } from "@/contexts/AuthContext";
+import { FavoriteService } from "@/lib/favorites";
+import { Post } from "@/lib/types";
+
+interface FavoritesContextType {
+  isFavorite: (postId: string) => boolean;
+  toggleFavorite: (post: Post) => Promise<void>;
+}
+
+const FavoritesContext = createContext<FavoritesContextType | undefined>(
+  undefined
+);
+
+// Loads the signed-in user's saved post IDs once, so every heart toggle
+// on the page can read them without its own query
+export function FavoritesProvider({ children }: { children: React.ReactNode }) {
+  const { user } = useAuth();
+  const router = useRouter();
+  const [favoriteIds, setFavoriteIds] = useState<string[]>([]);
+
+  const userId = user?.id;
+  useEffect(() => {
+    if (!userId) {
+      setFavoriteIds([]);
+      return;
+    }
+
+    FavoriteService.getFavoritePostIds(userId).then(({ data }) => {
+      setFavoriteIds(data);
+    });
+  }, [userId]);
+
+  const isFavorite = (postId: string) => favoriteIds.includes(postId);
+
+  const toggleFavorite = async (post: Post) => {
+    if (!user) {
+      router.push("/auth");
+      return;
+    }
+
+    const wasFavorite = isFavorite(post.id);
+
+    // Update optimistically and roll back if the request fails
+    setFavoriteIds((prev) =>
+      wasFavorite ? prev.filter((id) => id !== post.id) : [...prev, post.id]
+    );
+
+    const { error } = wasFavorite
+      ? await FavoriteService.removeFavorite(user.id, post.id)
+      : await FavoriteService.addFavorite(user.id, post);
+
+    if (error) {
+      setFavoriteIds((prev) =>
+        wasFavorite ? [...prev, post.id] : prev.filter((id) => id !== post.id)
+      );
+      toast.error(error);
+    }
+  };
+
+  return (
+    <FavoritesContext.Provider value={{ isFavorite, toggleFavorite }}>
+      {children}
+    </FavoritesContext.Provider>
+  );
+}
+
+export const useFavorites = () => {
+  const context = useContext(FavoritesContext);
+  if (context === undefined) {
+    throw new Error("useFavorites must be used within a FavoritesProvider");
+  }
+  return context;
+};
@@ -0,0 +1,99 @@
+// src/contexts/MessagesContext.tsx
+"use client";
+
+import {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useRef,
+  useState,
+} from "react";
+import { useAuth } from "@/contexts/AuthContext";
+import { MessageService } from "@/lib/messages";
+import { Message } from "@/lib/types";
+
+// A message that arrived, or one whose read_at changed
+export type MessageEvent =
+  | { type: "received"; message: Message }
+  | { type: "updated"; message: Message };
+
+type MessageListener = (event: MessageEvent) => void;
+
+interface MessagesContextType {
+  unreadCount: number;
+  refreshUnreadCount: () => Promise<void>;
+  // Hear about messages while a page is open; returns an unsubscribe
+  subscribe: (listener: MessageListener) => () => void;
+}
+
+const MessagesContext = createContext<MessagesContextType | undefined>(
+  undefined
+);
+
+// One Realtime subscription for the signed-in user, shared by the header
+// badge and whichever inbox or conversation page is open
+export function MessagesProvider({ children }: { children: React.ReactNode }) {
+  const { user } = useAuth();
+  const [unreadCount, setUnreadCount] = useState(0);
+  const listenersRef = useRef(new Set<MessageListener>());
+
+  const userId = user?.id;
+
+  const refreshUnreadCount = useCallback(async () => {
+    if (!userId) return;
+
+    const { data, error } = await MessageService.getUnreadCount(userId);
+    if (!error) {
+      setUnreadCount(data);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    if (!userId) {
+      setUnreadCount(0);
+      return;
+    }
+
+    refreshUnreadCount();
+
+    const notify = (event: MessageEvent) =>
+      listenersRef.current.forEach((listener) => listener(event));
+
+    return MessageService.subscribeToMessages(userId, {
+      onReceived: (message) => {
+        setUnreadCount((count) => count + 1);
+        notify({ type: "received", message });
+      },
+      // Messages read here or in another tab
+      onReceivedUpdate: (message) => {
+        refreshUnreadCount();
+        notify({ type: "updated", message });
+      },
+      onSentUpdate: (message) => notify({ type: "updated", message }),
+    });
+  }, [userId, refreshUnreadCount]);
+
+  const subscribe = useCallback((listener: MessageListener) => {
+    listenersRef.current.add(listener);
+    return () => {
+      listenersRef.current.delete(listener);
+    };
+  }, []);
+
+  return (
+    <MessagesContext.Provider
+      value={{ unreadCount, refreshUnreadCount, subscribe }}
+    >
+      {children}
+    </MessagesContext.Provider>
+  );
+}
+
+export const useMessages = () => {
+  const context = useContext(MessagesContext);
+  if (context === undefined) {
+    throw new Error("useMessages must be used within a MessagesProvider");
+  }
+  return context;
+};
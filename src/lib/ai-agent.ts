@@ -2,6 +2,12 @@
 import { GoogleGenerativeAI } from "@google/generative-ai";
 import { supabase } from "./supabase";
 import { PostService } from "./posts";
+import { searchPosts } from "./search";
+import {
+  CATEGORY_SYNONYMS,
+  KEYWORD_CATEGORY_MAP,
+  fuzzyMatch,
+} from "./query-parser";
 import {
   MAIN_CATEGORIES,
   SUB_CATEGORIES,
@@ -10,136 +16,6 @@ import {
   Profile,
 } from "./types";
 
-const CATEGORY_SYNONYMS: { [key: string]: string } = {
-  // Housing
-  "housing options": "Housing",
-  "housing listings": "Housing",
-  "places to live": "Housing",
-  apartments: "Housing",
-  dorms: "Housing",
-  rooms: "Housing",
-  roommate: "Housing",
-  sublet: "Housing",
-  rentals: "Housing",
-  "student housing": "Housing",
-  // For Sale
-  "items for sale": "For Sale",
-  "things for sale": "For Sale",
-  "stuff for sale": "For Sale",
-  marketplace: "For Sale",
-  // Recent/Latest For Sale
-  "most recent items posted for sale": "For Sale",
-  "recent items": "For Sale",
-  "latest items": "For Sale",
-  "recent for sale": "For Sale",
-  "recently posted items": "For Sale",
-  "recent posts": "For Sale",
-  "recent listings": "For Sale",
-  "latest for sale": "For Sale",
-  // Campus Jobs
-  "campus jobs": "Campus Jobs",
-  "available campus jobs": "Campus Jobs",
-  "what campus jobs are available": "Campus Jobs",
-  "student jobs": "Campus Jobs",
-  "on-campus jobs": "Campus Jobs",
-  "on campus jobs": "Campus Jobs",
-  // Jobs
-  job: "Jobs",
-  jobs: "Jobs",
-  work: "Jobs",
-  employment: "Jobs",
-  // Services
-  tutoring: "Services",
-  cleaning: "Services",
-  moving: "Services",
-  "tech support": "Services",
-  // Community
-  "study group": "Community",
-  club: "Community",
-  volunteer: "Community",
-  // Personals
-  friend: "Personals",
-  romance: "Personals",
-  // Events
-  event: "Events",
-  events: "Events",
-  // Housing Wanted
-  "need housing": "Housing Wanted",
-  "looking for housing": "Housing Wanted",
-  // Resumes
-  resume: "Resumes",
-  resumes: "Resumes",
-};
-
-// Add fuzzy match utility at the top (after imports)
-function levenshtein(a: string, b: string): number {
-  const matrix = Array.from({ length: a.length + 1 }, () =>
-    new Array(b.length + 1).fill(0)
-  );
-  for (let i = 0; i <= a.length; i++) matrix[i][0] = i;
-  for (let j = 0; j <= b.length; j++) matrix[0][j] = j;
-  for (let i = 1; i <= a.length; i++) {
-    for (let j = 1; j <= b.length; j++) {
-      matrix[i][j] = Math.min(
-        matrix[i - 1][j] + 1,
-        matrix[i][j - 1] + 1,
-        matrix[i - 1][j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
-      );
-    }
-  }
-  return matrix[a.length][b.length];
-}
-
-function fuzzyMatch(
-  word: string,
-  options: string[],
-  maxDistance = 2
-): string | null {
-  let best: { match: string; dist: number } | null = null;
-  for (const opt of options) {
-    const dist = levenshtein(word.toLowerCase(), opt.toLowerCase());
-    if (dist <= maxDistance && (!best || dist < best.dist)) {
-      best = { match: opt, dist };
-    }
-  }
-  return best ? best.match : null;
-}
-
-// Map common keywords to categories/subcategories
-const KEYWORD_CATEGORY_MAP: Record<
-  string,
-  { category: string; subcategory?: string }
-> = {
-  jobs: { category: "Campus Jobs" },
-  job: { category: "Campus Jobs" },
-  employment: { category: "Campus Jobs" },
-  phone: { category: "For Sale", subcategory: "Electronics" },
-  phones: { category: "For Sale", subcategory: "Electronics" },
-  laptop: { category: "For Sale", subcategory: "Electronics" },
-  laptops: { category: "For Sale", subcategory: "Electronics" },
-  electronic: { category: "For Sale", subcategory: "Electronics" },
-  electronics: { category: "For Sale", subcategory: "Electronics" },
-  house: { category: "Housing" },
-  houses: { category: "Housing" },
-  home: { category: "Housing" },
-  homes: { category: "Housing" },
-  apartment: { category: "Housing" },
-  apartments: { category: "Housing" },
-  bike: { category: "For Sale", subcategory: "Sports" },
-  bikes: { category: "For Sale", subcategory: "Sports" },
-  bicycle: { category: "For Sale", subcategory: "Sports" },
-  furniture: { category: "For Sale", subcategory: "Furniture" },
-  textbook: { category: "For Sale", subcategory: "Books" },
-  textbooks: { category: "For Sale", subcategory: "Books" },
-  book: { category: "For Sale", subcategory: "Books" },
-  books: { category: "For Sale", subcategory: "Books" },
-  roommate: { category: "Housing", subcategory: "Roommate" },
-  sublet: { category: "Housing", subcategory: "Sublet" },
-  room: { category: "Housing", subcategory: "Roommate" },
-  rooms: { category: "Housing", subcategory: "Roommate" },
-  // add more as needed
-};
-
 // Initialize Gemini AI
 const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY!);
 const geminiModel = genAI.getGenerativeModel({
@@ -233,7 +109,8 @@ export class AIAgent {
         const { data: universityPosts, error: universityError } = await supabase
           .from("posts")
           .select("*")
-          .eq("campus", profile.university);
+          .eq("campus", profile.university)
+          .eq("status", "active");
 
         if (!universityError && universityPosts) {
           universityPostsCount = universityPosts.length;
@@ -271,6 +148,7 @@ export class AIAgent {
       const { data: allRecentPosts, error: allRecentError } = await supabase
         .from("posts")
         .select("*")
+        .eq("status", "active")
         .order("created_at", { ascending: false })
         .limit(20); // Increased limit for better context
 
@@ -281,7 +159,8 @@ export class AIAgent {
       // Get posts count by category
       const { data: allPosts, error: allPostsError } = await supabase
         .from("posts")
-        .select("main_category");
+        .select("main_category")
+        .eq("status", "active");
 
       if (allPostsError) {
         console.error("Error fetching all posts:", allPostsError);
@@ -306,6 +185,7 @@ export class AIAgent {
           .from("posts")
           .select("*")
           .eq("campus", userUniversity)
+          .eq("status", "active")
           .order("created_at", { ascending: false })
           .limit(10);
 
@@ -358,7 +238,7 @@ export class AIAgent {
         enhancedPost.imageUrls = post.photos.map((photo) => {
           const { data } = supabase.storage
             .from("post-photos")
-            .getPublicUrl(photo);
+            .getPublicUrl(photo.url);
           return data.publicUrl;
         });
       }
@@ -475,12 +355,6 @@ When users ask about specific items or categories, search the ENTIRE database (a
     searchAllCampuses: boolean = true // New parameter
   ): Promise<EnhancedPost[]> {
     try {
-      // Start with base query
-      let supabaseQuery = supabase
-        .from("posts")
-        .select("*")
-        .order("created_at", { ascending: false });
-
       // If searching by category/subcategory, and query is just the subcategory, skip text search
       if (
         filters.main_category &&
@@ -491,41 +365,24 @@ When users ask about specific items or categories, search the ENTIRE database (a
         query = "";
       }
 
-      // Apply text search (now includes campus/university)
-      if (query) {
-        supabaseQuery = supabaseQuery.or(
-          `title.ilike.%${query}%,description.ilike.%${query}%,main_category.ilike.%${query}%,sub_category.ilike.%${query}%,campus.ilike.%${query}%`
-        );
-      }
-
-      // Apply filters
-      if (filters.main_category) {
-        supabaseQuery = supabaseQuery.eq(
-          "main_category",
-          filters.main_category
-        );
-      }
-
-      if (filters.sub_category) {
-        supabaseQuery = supabaseQuery.eq("sub_category", filters.sub_category);
-      }
-
-      // Only filter by campus if explicitly requested or if searchAllCampuses is false
-      if (filters.campus) {
-        supabaseQuery = supabaseQuery.eq("campus", filters.campus);
-      } else if (!searchAllCampuses && userUniversity) {
-        supabaseQuery = supabaseQuery.eq("campus", userUniversity);
-      }
-
-      if (filters.minPrice) {
-        supabaseQuery = supabaseQuery.gte("price", filters.minPrice);
-      }
-
-      if (filters.maxPrice) {
-        supabaseQuery = supabaseQuery.lte("price", filters.maxPrice);
-      }
-
-      const { data, error } = await supabaseQuery.limit(20); // Increased limit
+      // Ranked full-text search. Only active listings unless the caller
+      // opts in with status: "all"; scheduled posts stay hidden until they
+      // are published. Only filter by campus if explicitly requested or if
+      // searchAllCampuses is false
+      const { data, error } = await searchPosts(
+        query,
+        {
+          category: filters.main_category,
+          subcategory: filters.sub_category,
+          campus:
+            filters.campus ||
+            (!searchAllCampuses && userUniversity ? userUniversity : undefined),
+          minPrice: filters.minPrice,
+          maxPrice: filters.maxPrice,
+          status: filters.status,
+        },
+        { limit: 20 }
+      );
 
       if (error) {
         console.error("Error searching posts:", error);
@@ -533,7 +390,7 @@ When users ask about specific items or categories, search the ENTIRE database (a
       }
 
       // Enhance posts with additional data
-      return await this.enhancePosts(data || []);
+      return await this.enhancePosts(data.map(({ post }) => post));
     } catch (error) {
       console.error("Error in searchRelevantPosts:", error);
       return [];
@@ -1192,6 +1049,7 @@ Please provide a helpful response based on the actual data above.`;
         .from("posts")
         .select("*")
         .eq("main_category", category)
+        .eq("status", "active")
         .order("created_at", { ascending: false });
 
       // Only filter by university if not searching all campuses
@@ -1224,12 +1082,14 @@ Please provide a helpful response based on the actual data above.`;
       // Get total posts
       const { count: totalPosts } = await supabase
         .from("posts")
-        .select("*", { count: "exact", head: true });
+        .select("*", { count: "exact", head: true })
+        .eq("status", "active");
 
       // Get active campuses
       const { data: campusData } = await supabase
         .from("posts")
         .select("campus")
+        .eq("status", "active")
         .order("campus");
 
       const activeCampuses = Array.from(
@@ -1239,7 +1099,8 @@ Please provide a helpful response based on the actual data above.`;
       // Get category breakdown
       const { data: categoryData } = await supabase
         .from("posts")
-        .select("main_category");
+        .select("main_category")
+        .eq("status", "active");
 
       const categoryBreakdown =
         categoryData?.reduce((acc, post) => {
@@ -1254,6 +1115,7 @@ Please provide a helpful response based on the actual data above.`;
       const { count: recentActivity } = await supabase
         .from("posts")
         .select("*", { count: "exact", head: true })
+        .eq("status", "active")
         .gte("created_at", sevenDaysAgo.toISOString());
 
       return {
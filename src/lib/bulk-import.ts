@@ -0,0 +1,167 @@
+// src/lib/bulk-import.ts
+import Papa from "papaparse";
+import { z } from "zod";
+import { CAMPUS_LIST, MAIN_CATEGORIES, SUB_CATEGORIES } from "./types";
+import { validateAttributes } from "./post-attributes";
+import { MAX_POST_PHOTOS } from "./photo-variants";
+import type { CreatePostData } from "./posts";
+
+export const BULK_IMPORT_MAX_ROWS = 100;
+
+// Columns prefixed with this hold category attributes, e.g. attr.condition
+const ATTRIBUTE_COLUMN_PREFIX = "attr.";
+
+export type ImportFormat = "csv" | "json";
+
+// A validated row, before photos are uploaded and seller fields are added.
+// Photos are still zip file names or URLs at this point.
+export type ImportRowData = Omit<
+  CreatePostData,
+  "seller_id" | "seller_name" | "photos"
+> & { photos: string[] };
+
+export interface ImportRowResult {
+  // 1-based, matching the data rows of the uploaded file
+  row: number;
+  title?: string;
+  postId?: string;
+  errors: string[];
+}
+
+const importRowSchema = z
+  .object({
+    title: z.string().trim().min(1, "Title is required").max(200),
+    description: z.string().trim().min(1, "Description is required"),
+    price: z.preprocess(
+      (value) => (value === "" || value === null ? undefined : value),
+      z.coerce
+        .number({ invalid_type_error: "Price must be a number" })
+        .min(0, "Price cannot be negative")
+        .optional()
+    ),
+    main_category: z.enum(MAIN_CATEGORIES, {
+      errorMap: () => ({ message: "Unknown main_category" }),
+    }),
+    sub_category: z.string().trim().min(1, "sub_category is required"),
+    campus: z
+      .string()
+      .trim()
+      .refine((campus) => (CAMPUS_LIST as readonly string[]).includes(campus), {
+        message: "Unknown campus",
+      }),
+    photos: z
+      .array(z.string().trim().min(1))
+      .min(1, "At least one photo is required")
+      .max(MAX_POST_PHOTOS, `At most ${MAX_POST_PHOTOS} photos per post`),
+  })
+  .superRefine((row, ctx) => {
+    const subCategories: readonly string[] = SUB_CATEGORIES[row.main_category];
+    if (!subCategories.includes(row.sub_category)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["sub_category"],
+        message: `"${row.sub_category}" is not a ${row.main_category} sub category`,
+      });
+    }
+  });
+
+/**
+ * Parse an uploaded CSV or JSON file into raw rows
+ */
+export function parseImportFile(
+  content: string,
+  format: ImportFormat
+): { rows: Record<string, unknown>[]; error: string | null } {
+  if (format === "json") {
+    try {
+      const parsed = JSON.parse(content);
+      if (!Array.isArray(parsed)) {
+        return { rows: [], error: "JSON imports must be an array of posts" };
+      }
+      return { rows: parsed, error: null };
+    } catch {
+      return { rows: [], error: "Invalid JSON file" };
+    }
+  }
+
+  const result = Papa.parse<Record<string, string>>(content, {
+    header: true,
+    skipEmptyLines: "greedy",
+    transformHeader: (header) => header.trim(),
+  });
+
+  if (result.errors.length > 0 && result.data.length === 0) {
+    return { rows: [], error: result.errors[0].message };
+  }
+
+  return { rows: result.data, error: null };
+}
+
+// Photos may be a list or a single ";"/"|"-separated string of
+// filenames (looked up in the zip) or URLs
+const normalizePhotos = (value: unknown): string[] => {
+  if (Array.isArray(value)) return value.map(String);
+  if (typeof value !== "string") return [];
+  return value
+    .split(/[;|]/)
+    .map((photo) => photo.trim())
+    .filter(Boolean);
+};
+
+// Attributes come from an `attributes` object (JSON) or attr.* columns (CSV)
+const collectAttributes = (row: Record<string, unknown>) => {
+  const values: Record<string, unknown> = {};
+
+  if (row.attributes && typeof row.attributes === "object") {
+    Object.assign(values, row.attributes);
+  }
+
+  Object.entries(row).forEach(([column, value]) => {
+    if (column.startsWith(ATTRIBUTE_COLUMN_PREFIX)) {
+      const key = column.slice(ATTRIBUTE_COLUMN_PREFIX.length);
+      values[key] = value === "true" ? true : value === "false" ? false : value;
+    }
+  });
+
+  return values;
+};
+
+/**
+ * Validate one raw row against the categories, campuses and the
+ * category's attribute definitions
+ */
+export function validateImportRow(row: Record<string, unknown>): {
+  data: ImportRowData | null;
+  errors: string[];
+} {
+  const result = importRowSchema.safeParse({
+    ...row,
+    photos: normalizePhotos(row.photos),
+  });
+
+  if (!result.success) {
+    return {
+      data: null,
+      errors: result.error.issues.map((issue) => issue.message),
+    };
+  }
+
+  const { data: attributes, errors: attributeErrors } = validateAttributes(
+    result.data.main_category,
+    result.data.sub_category,
+    collectAttributes(row)
+  );
+
+  if (!attributes) {
+    return { data: null, errors: Object.values(attributeErrors) };
+  }
+
+  return { data: { ...result.data, attributes }, errors: [] };
+}
+
+/**
+ * Whether a photo reference is a remote URL rather than a zip filename
+ */
+export function isPhotoUrl(photo: string): boolean {
+  return /^https?:\/\//i.test(photo);
+}
@@ -0,0 +1,39 @@
+-- Enforce post lifecycle transitions in the database
+
+-- Allowed lifecycle moves, mirroring POST_STATUS_TRANSITIONS in
+-- src/lib/posts.ts. Enforced here so a client writing to posts directly
+-- can't skip the rules. New posts start scheduled or active.
+CREATE OR REPLACE FUNCTION public.enforce_post_status_transition()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.status NOT IN ('scheduled', 'active') THEN
+      RAISE EXCEPTION 'New posts must be scheduled or active, not %', NEW.status
+        USING ERRCODE = 'check_violation';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    IF NOT (
+      (OLD.status = 'scheduled' AND NEW.status IN ('active', 'archived'))
+      OR (OLD.status = 'active' AND NEW.status IN ('reserved', 'sold', 'expired', 'archived'))
+      OR (OLD.status = 'reserved' AND NEW.status IN ('active', 'sold', 'archived'))
+      OR (OLD.status IN ('sold', 'expired') AND NEW.status IN ('active', 'archived'))
+      OR (OLD.status = 'archived' AND NEW.status = 'active')
+    ) THEN
+      RAISE EXCEPTION 'Cannot change a % post to %', OLD.status, NEW.status
+        USING ERRCODE = 'check_violation';
+    END IF;
+    NEW.status_changed_at := now();
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER posts_enforce_status_transition
+BEFORE INSERT OR UPDATE OF status ON public.posts
+FOR EACH ROW EXECUTE FUNCTION public.enforce_post_status_transition();
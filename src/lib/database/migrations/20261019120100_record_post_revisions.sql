@@ -0,0 +1,64 @@
+-- Record post revisions in the database and make them immutable
+
+-- Record every edit to a listing's content as a revision in the same
+-- transaction as the edit, so a post can't change without a trace.
+-- Lifecycle, bump and counter columns aren't edits. Security definer
+-- because clients may not write revisions themselves.
+CREATE OR REPLACE FUNCTION public.record_post_revision()
+RETURNS trigger
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  old_values jsonb := to_jsonb(OLD);
+  new_values jsonb := to_jsonb(NEW);
+  field text;
+  changes jsonb := '{}'::jsonb;
+BEGIN
+  FOREACH field IN ARRAY ARRAY[
+    'title', 'description', 'price', 'main_category', 'sub_category',
+    'campus', 'photos', 'attributes'
+  ] LOOP
+    IF old_values -> field IS DISTINCT FROM new_values -> field THEN
+      changes := changes || jsonb_build_object(
+        field,
+        jsonb_build_object('from', old_values -> field, 'to', new_values -> field)
+      );
+    END IF;
+  END LOOP;
+
+  IF changes <> '{}'::jsonb THEN
+    INSERT INTO public.post_revisions (post_id, editor_id, changes)
+    VALUES (NEW.id, auth.uid(), changes);
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER posts_record_revision
+AFTER UPDATE OF title, description, price, main_category, sub_category, campus, photos, attributes ON public.posts
+FOR EACH ROW EXECUTE FUNCTION public.record_post_revision();
+
+-- Revisions are append-only, even for the service role. They only go
+-- away when the post they belong to is deleted.
+CREATE OR REPLACE FUNCTION public.prevent_post_revision_changes()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' AND NOT EXISTS (
+    SELECT 1 FROM public.posts WHERE id = OLD.post_id
+  ) THEN
+    RETURN OLD;
+  END IF;
+
+  RAISE EXCEPTION 'Post revisions cannot be changed'
+    USING ERRCODE = 'insufficient_privilege';
+END;
+$$;
+
+CREATE TRIGGER post_revisions_immutable
+BEFORE UPDATE OR DELETE ON public.post_revisions
+FOR EACH ROW EXECUTE FUNCTION public.prevent_post_revision_changes();
+
+REVOKE INSERT, UPDATE, DELETE ON public.post_revisions FROM anon, authenticated;
@@ -0,0 +1,22 @@
+-- Convert posts.photos from a text[] of URLs to jsonb photo objects
+
+-- Each URL becomes {"url": ...}, in order so the cover photo stays first
+CREATE FUNCTION pg_temp.photo_objects(urls text[])
+RETURNS jsonb
+LANGUAGE sql IMMUTABLE
+AS $$
+  SELECT coalesce(
+    jsonb_agg(jsonb_build_object('url', url) ORDER BY position),
+    '[]'::jsonb
+  )
+  FROM unnest(urls) WITH ORDINALITY AS photo(url, position)
+  WHERE url <> '';
+$$;
+
+-- Changing the type rewrites the table without firing update triggers, so
+-- the conversion doesn't show up as an edit in post_revisions
+ALTER TABLE public.posts
+  ALTER COLUMN photos DROP DEFAULT,
+  ALTER COLUMN photos TYPE jsonb USING pg_temp.photo_objects(photos),
+  ALTER COLUMN photos SET DEFAULT '[]'::jsonb,
+  ALTER COLUMN photos SET NOT NULL;
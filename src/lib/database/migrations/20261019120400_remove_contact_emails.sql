@@ -0,0 +1,31 @@
+-- Stop storing buyer and seller email addresses on posts and messages
+
+-- The old summary exposed each side's email and depended on
+-- posts.seller_email, so it's recreated without them first
+DROP VIEW IF EXISTS public.transaction_summary;
+
+-- Transactions with their post and the seller's payout status. Neither
+-- side's email address is included: buyers and sellers reach each other
+-- through relay aliases.
+CREATE VIEW public.transaction_summary
+WITH (security_invoker = true)
+AS
+SELECT
+  t.*,
+  p.title AS post_title,
+  p.price AS post_price,
+  sa.charges_enabled AS seller_charges_enabled
+FROM public.transactions t
+LEFT JOIN public.posts p ON p.id = t.post_id
+LEFT JOIN public.seller_accounts sa ON sa.stripe_account_id = t.seller_stripe_account_id;
+
+ALTER TABLE public.posts DROP COLUMN IF EXISTS seller_email;
+
+ALTER TABLE public.messages
+  DROP COLUMN IF EXISTS sender_email,
+  DROP COLUMN IF EXISTS recipient_email;
+
+-- Notification emails are sent once per message. Existing messages were
+-- emailed when they were sent.
+ALTER TABLE public.messages ADD COLUMN notified_at timestamp with time zone;
+UPDATE public.messages SET notified_at = created_at;
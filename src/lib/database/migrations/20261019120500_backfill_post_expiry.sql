@@ -0,0 +1,29 @@
+-- Give posts created before listings expired an expiry date
+
+-- Mirrors getPostExpiryDate and CATEGORY_TTL_DAYS in src/lib/post-expiry.ts:
+-- dated events expire at the end of the event day, everything else a
+-- category-specific number of days after it was posted. Posts whose date
+-- has already passed are picked up by the next expiry run.
+ALTER TABLE public.posts ADD COLUMN IF NOT EXISTS expires_at timestamp with time zone;
+
+UPDATE public.posts
+SET expires_at = CASE
+  WHEN main_category = 'Events'
+    AND attributes->>'event_date' ~ '^\d{4}-\d{2}-\d{2}'
+    THEN (substring(attributes->>'event_date' FROM 1 FOR 10)::date + 1)::timestamp with time zone
+      - interval '1 millisecond'
+  ELSE coalesce(created_at, now()) + CASE main_category
+    WHEN 'Campus Jobs' THEN interval '30 days'
+    WHEN 'For Sale' THEN interval '60 days'
+    WHEN 'Jobs' THEN interval '30 days'
+    WHEN 'Services' THEN interval '60 days'
+    WHEN 'Community' THEN interval '60 days'
+    WHEN 'Housing' THEN interval '30 days'
+    WHEN 'Personals' THEN interval '30 days'
+    WHEN 'Events' THEN interval '30 days'
+    WHEN 'Housing Wanted' THEN interval '30 days'
+    WHEN 'Resumes' THEN interval '90 days'
+    ELSE interval '30 days'
+  END
+END
+WHERE expires_at IS NULL;
@@ -0,0 +1,91 @@
+-- Let search_posts be limited to given posts, for saved search alerts
+
+-- Adding a parameter changes the signature, so the old version goes first
+DROP FUNCTION IF EXISTS public.search_posts(text, text, text, text, numeric, numeric, text, jsonb, text, numeric, uuid, integer);
+
+CREATE OR REPLACE FUNCTION public.search_posts(
+  search_query text DEFAULT '',
+  filter_category text DEFAULT NULL,
+  filter_subcategory text DEFAULT NULL,
+  filter_campus text DEFAULT NULL,
+  min_price numeric DEFAULT NULL,
+  max_price numeric DEFAULT NULL,
+  filter_status text DEFAULT 'active',
+  filter_attributes jsonb DEFAULT '{}'::jsonb,
+  -- newest, price_asc, price_desc, most_viewed or ending_soon; defaults
+  -- to relevance when there is a query and newest otherwise. Newest puts
+  -- bumped reposts back at the top.
+  sort_mode text DEFAULT NULL,
+  cursor_key numeric DEFAULT NULL,
+  cursor_id uuid DEFAULT NULL,
+  result_limit integer DEFAULT NULL,
+  -- Only consider these posts, e.g. to check new posts against saved
+  -- searches with the same matching the feed uses
+  filter_post_ids uuid[] DEFAULT NULL
+)
+RETURNS TABLE (post jsonb, rank real, title_highlight text, snippet text, sort_key text)
+LANGUAGE sql STABLE
+AS $$
+  WITH q AS (
+    -- websearch syntax accepts any user input: quotes, "or", -exclusions
+    SELECT websearch_to_tsquery('english', coalesce(search_query, '')) AS query
+  ),
+  matches AS (
+    SELECT
+      p.*,
+      q.query,
+      CASE WHEN numnode(q.query) = 0 THEN 0 ELSE ts_rank_cd(p.search_vector, q.query) END AS rank
+    FROM public.posts p, q
+    -- A query of only stop words matches everything rather than nothing
+    WHERE (numnode(q.query) = 0 OR p.search_vector @@ q.query)
+      -- Scheduled posts stay hidden until they are published
+      AND CASE
+        WHEN filter_status = 'all' THEN p.status <> 'scheduled'
+        ELSE p.status = coalesce(filter_status, 'active')
+      END
+      AND (filter_category IS NULL OR p.main_category = filter_category)
+      AND (filter_subcategory IS NULL OR p.sub_category = filter_subcategory)
+      AND (filter_campus IS NULL OR p.campus = filter_campus)
+      AND (min_price IS NULL OR p.price >= min_price)
+      AND (max_price IS NULL OR p.price <= max_price)
+      AND (filter_post_ids IS NULL OR p.id = ANY (filter_post_ids))
+      -- Exact matches compare the text value, ranges compare the jsonb value
+      -- so numbers sort numerically
+      AND NOT EXISTS (
+        SELECT 1 FROM jsonb_each(coalesce(filter_attributes, '{}'::jsonb)) AS f(key, filter)
+        WHERE (f.filter ? 'eq' AND p.attributes->>f.key IS DISTINCT FROM f.filter->>'eq')
+          OR (f.filter ? 'min' AND NOT coalesce(p.attributes->f.key >= f.filter->'min', false))
+          OR (f.filter ? 'max' AND NOT coalesce(p.attributes->f.key <= f.filter->'max', false))
+      )
+  ),
+  sorted AS (
+    SELECT
+      m.*,
+      coalesce(sort_mode IN ('price_asc', 'ending_soon'), false) AS ascending,
+      CASE
+        WHEN sort_mode = 'price_asc' THEN coalesce(m.price, 'Infinity')
+        WHEN sort_mode = 'price_desc' THEN coalesce(m.price, '-Infinity')
+        WHEN sort_mode = 'most_viewed' THEN m.view_count::numeric
+        WHEN sort_mode = 'ending_soon' THEN coalesce(extract(epoch FROM m.expires_at), 'Infinity')
+        WHEN sort_mode = 'newest' OR numnode(m.query) = 0 THEN extract(epoch FROM coalesce(m.bumped_at, m.created_at))
+        ELSE m.rank::numeric
+      END AS key
+    FROM matches m
+  )
+  SELECT
+    to_jsonb(s) - 'search_vector' - 'query' - 'rank' - 'ascending' - 'key',
+    s.rank,
+    ts_headline('english', s.title, s.query, 'StartSel={{, StopSel=}}, HighlightAll=true'),
+    ts_headline('english', s.description, s.query, 'StartSel={{, StopSel=}}, MaxWords=30, MinWords=12, MaxFragments=2, FragmentDelimiter=" … "'),
+    s.key::text
+  FROM sorted s
+  WHERE cursor_id IS NULL
+    OR (s.ascending AND (s.key, s.id) > (cursor_key, cursor_id))
+    OR (NOT s.ascending AND (s.key, s.id) < (cursor_key, cursor_id))
+  ORDER BY
+    CASE WHEN s.ascending THEN s.key END ASC,
+    CASE WHEN NOT s.ascending THEN s.key END DESC,
+    CASE WHEN s.ascending THEN s.id END ASC,
+    CASE WHEN NOT s.ascending THEN s.id END DESC
+  LIMIT result_limit;
+$$;
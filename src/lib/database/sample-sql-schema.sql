@@ -22,22 +22,67 @@ CREATE TABLE public.chat_sessions (
   CONSTRAINT chat_sessions_pkey PRIMARY KEY (id),
   CONSTRAINT chat_sessions_user_id_fkey FOREIGN KEY (user_id) REFERENCES auth.users(id)
 );
+CREATE TABLE public.favorites (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL,
+  post_id uuid NOT NULL,
+  notified_price numeric,
+  notified_status text,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT favorites_pkey PRIMARY KEY (id),
+  CONSTRAINT favorites_user_id_post_id_key UNIQUE (user_id, post_id),
+  CONSTRAINT favorites_user_id_fkey FOREIGN KEY (user_id) REFERENCES auth.users(id) ON DELETE CASCADE,
+  CONSTRAINT favorites_post_id_fkey FOREIGN KEY (post_id) REFERENCES public.posts(id) ON DELETE CASCADE
+);
 CREATE TABLE public.messages (
   post_id uuid NOT NULL,
   sender_id uuid NOT NULL,
-  sender_email character varying NOT NULL,
   sender_name character varying NOT NULL,
   recipient_id uuid NOT NULL,
-  recipient_email character varying NOT NULL,
   subject character varying NOT NULL,
   message text NOT NULL,
   id uuid NOT NULL DEFAULT gen_random_uuid(),
   created_at timestamp with time zone NOT NULL DEFAULT timezone('utc'::text, now()),
+  read_at timestamp with time zone,
+  notified_at timestamp with time zone,
   CONSTRAINT messages_pkey PRIMARY KEY (id),
   CONSTRAINT messages_recipient_id_fkey FOREIGN KEY (recipient_id) REFERENCES auth.users(id),
   CONSTRAINT messages_post_id_fkey FOREIGN KEY (post_id) REFERENCES public.posts(id),
   CONSTRAINT messages_sender_id_fkey FOREIGN KEY (sender_id) REFERENCES auth.users(id)
 );
+CREATE TABLE public.message_reply_tokens (
+  token text NOT NULL,
+  post_id uuid NOT NULL,
+  user_id uuid NOT NULL,
+  counterpart_id uuid NOT NULL,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  revoked_at timestamp with time zone,
+  CONSTRAINT message_reply_tokens_pkey PRIMARY KEY (token),
+  CONSTRAINT message_reply_tokens_conversation_key UNIQUE (post_id, user_id, counterpart_id),
+  CONSTRAINT message_reply_tokens_post_id_fkey FOREIGN KEY (post_id) REFERENCES public.posts(id) ON DELETE CASCADE,
+  CONSTRAINT message_reply_tokens_user_id_fkey FOREIGN KEY (user_id) REFERENCES auth.users(id) ON DELETE CASCADE,
+  CONSTRAINT message_reply_tokens_counterpart_id_fkey FOREIGN KEY (counterpart_id) REFERENCES auth.users(id) ON DELETE CASCADE
+);
+CREATE TABLE public.post_drafts (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL,
+  data jsonb NOT NULL DEFAULT '{}'::jsonb,
+  current_step text NOT NULL DEFAULT 'main_category'::text,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT post_drafts_pkey PRIMARY KEY (id),
+  CONSTRAINT post_drafts_user_id_fkey FOREIGN KEY (user_id) REFERENCES auth.users(id) ON DELETE CASCADE
+);
+CREATE TABLE public.post_revisions (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  post_id uuid NOT NULL,
+  editor_id uuid,
+  changes jsonb NOT NULL,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT post_revisions_pkey PRIMARY KEY (id),
+  CONSTRAINT post_revisions_post_id_fkey FOREIGN KEY (post_id) REFERENCES public.posts(id) ON DELETE CASCADE,
+  CONSTRAINT post_revisions_editor_id_fkey FOREIGN KEY (editor_id) REFERENCES auth.users(id)
+);
 CREATE TABLE public.posts (
   title text NOT NULL,
   description text NOT NULL,
@@ -47,17 +92,34 @@ CREATE TABLE public.posts (
   campus text NOT NULL,
   seller_id uuid NOT NULL,
   seller_name text NOT NULL,
-  seller_email text NOT NULL,
   id uuid NOT NULL DEFAULT gen_random_uuid(),
-  photos ARRAY DEFAULT '{}'::text[],
+  photos jsonb NOT NULL DEFAULT '[]'::jsonb,
+  photo_variants jsonb NOT NULL DEFAULT '{}'::jsonb,
   created_at timestamp with time zone DEFAULT now(),
   updated_at timestamp with time zone DEFAULT now(),
   stripe_product_id text,
   stripe_price_id text,
   seller_stripe_account_id text,
+  status text NOT NULL DEFAULT 'active'::text CHECK (status = ANY (ARRAY['scheduled'::text, 'active'::text, 'reserved'::text, 'sold'::text, 'expired'::text, 'archived'::text])),
+  status_changed_at timestamp with time zone,
+  publish_at timestamp with time zone,
+  expires_at timestamp with time zone,
+  attributes jsonb NOT NULL DEFAULT '{}'::jsonb,
+  previous_price numeric,
+  bumped_at timestamp with time zone,
+  duplicate_of uuid,
+  duplicate_score numeric,
+  view_count integer NOT NULL DEFAULT 0,
+  search_vector tsvector GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', coalesce(title, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(description, '')), 'B') ||
+    setweight(to_tsvector('english', coalesce(main_category, '') || ' ' || coalesce(sub_category, '')), 'C') ||
+    setweight(to_tsvector('english', coalesce(campus, '')), 'D')
+  ) STORED,
   CONSTRAINT posts_pkey PRIMARY KEY (id),
   CONSTRAINT posts_seller_stripe_account_id_fkey FOREIGN KEY (seller_stripe_account_id) REFERENCES public.seller_accounts(stripe_account_id),
-  CONSTRAINT posts_seller_id_fkey FOREIGN KEY (seller_id) REFERENCES auth.users(id)
+  CONSTRAINT posts_seller_id_fkey FOREIGN KEY (seller_id) REFERENCES auth.users(id),
+  CONSTRAINT posts_duplicate_of_fkey FOREIGN KEY (duplicate_of) REFERENCES public.posts(id) ON DELETE SET NULL
 );
 CREATE TABLE public.profiles (
   id uuid NOT NULL,
@@ -73,6 +135,33 @@ CREATE TABLE public.profiles (
   CONSTRAINT profiles_pkey PRIMARY KEY (id),
   CONSTRAINT profiles_id_fkey FOREIGN KEY (id) REFERENCES auth.users(id)
 );
+CREATE TABLE public.saved_search_matches (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  saved_search_id uuid NOT NULL,
+  post_id uuid NOT NULL,
+  notified_at timestamp with time zone,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT saved_search_matches_pkey PRIMARY KEY (id),
+  CONSTRAINT saved_search_matches_saved_search_id_post_id_key UNIQUE (saved_search_id, post_id),
+  CONSTRAINT saved_search_matches_saved_search_id_fkey FOREIGN KEY (saved_search_id) REFERENCES public.saved_searches(id) ON DELETE CASCADE,
+  CONSTRAINT saved_search_matches_post_id_fkey FOREIGN KEY (post_id) REFERENCES public.posts(id) ON DELETE CASCADE
+);
+CREATE TABLE public.saved_searches (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL,
+  name text NOT NULL,
+  filters jsonb NOT NULL DEFAULT '{}'::jsonb,
+  frequency text NOT NULL DEFAULT 'instant'::text CHECK (frequency = ANY (ARRAY['instant'::text, 'daily'::text])),
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT saved_searches_pkey PRIMARY KEY (id),
+  CONSTRAINT saved_searches_user_id_fkey FOREIGN KEY (user_id) REFERENCES auth.users(id) ON DELETE CASCADE
+);
+CREATE TABLE public.search_queries (
+  query text NOT NULL,
+  search_count integer NOT NULL DEFAULT 1,
+  last_searched_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT search_queries_pkey PRIMARY KEY (query)
+);
 CREATE TABLE public.seller_accounts (
   user_id uuid NOT NULL UNIQUE,
   stripe_account_id text UNIQUE,
@@ -129,4 +218,383 @@ CREATE TABLE public.webhook_events (
   processed boolean DEFAULT false,
   created_at timestamp with time zone NOT NULL DEFAULT timezone('utc'::text, now()),
   CONSTRAINT webhook_events_pkey PRIMARY KEY (id)
-);
\ No newline at end of file
+);
+
+-- Transactions with their post and the seller's payout status. Neither
+-- side's email address is included: buyers and sellers reach each other
+-- through relay aliases.
+CREATE VIEW public.transaction_summary
+WITH (security_invoker = true)
+AS
+SELECT
+  t.*,
+  p.title AS post_title,
+  p.price AS post_price,
+  sa.charges_enabled AS seller_charges_enabled
+FROM public.transactions t
+LEFT JOIN public.posts p ON p.id = t.post_id
+LEFT JOIN public.seller_accounts sa ON sa.stripe_account_id = t.seller_stripe_account_id;
+
+-- Unread messages per recipient, for inbox badges
+CREATE INDEX messages_recipient_unread_idx ON public.messages (recipient_id) WHERE read_at IS NULL;
+
+-- Stream new messages and read receipts to the app over Realtime
+ALTER PUBLICATION supabase_realtime ADD TABLE public.messages;
+
+-- Reply tokens authenticate inbound email, so only the service role may
+-- read or create them
+ALTER TABLE public.message_reply_tokens ENABLE ROW LEVEL SECURITY;
+
+-- Once someone revokes a counterpart's relay alias, the counterpart can't
+-- message them about that post in the app either. Security definer so the
+-- check can read the locked-down tokens table.
+CREATE OR REPLACE FUNCTION public.reject_revoked_contact()
+RETURNS trigger
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM public.message_reply_tokens
+    WHERE post_id = NEW.post_id
+      AND user_id = NEW.sender_id
+      AND counterpart_id = NEW.recipient_id
+      AND revoked_at IS NOT NULL
+  ) THEN
+    RAISE EXCEPTION 'contact_revoked';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER messages_reject_revoked_contact
+BEFORE INSERT ON public.messages
+FOR EACH ROW EXECUTE FUNCTION public.reject_revoked_contact();
+
+-- Allowed lifecycle moves, mirroring POST_STATUS_TRANSITIONS in
+-- src/lib/posts.ts. Enforced here so a client writing to posts directly
+-- can't skip the rules. New posts start scheduled or active.
+CREATE OR REPLACE FUNCTION public.enforce_post_status_transition()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.status NOT IN ('scheduled', 'active') THEN
+      RAISE EXCEPTION 'New posts must be scheduled or active, not %', NEW.status
+        USING ERRCODE = 'check_violation';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    IF NOT (
+      (OLD.status = 'scheduled' AND NEW.status IN ('active', 'archived'))
+      OR (OLD.status = 'active' AND NEW.status IN ('reserved', 'sold', 'expired', 'archived'))
+      OR (OLD.status = 'reserved' AND NEW.status IN ('active', 'sold', 'archived'))
+      OR (OLD.status IN ('sold', 'expired') AND NEW.status IN ('active', 'archived'))
+      OR (OLD.status = 'archived' AND NEW.status = 'active')
+    ) THEN
+      RAISE EXCEPTION 'Cannot change a % post to %', OLD.status, NEW.status
+        USING ERRCODE = 'check_violation';
+    END IF;
+    NEW.status_changed_at := now();
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER posts_enforce_status_transition
+BEFORE INSERT OR UPDATE OF status ON public.posts
+FOR EACH ROW EXECUTE FUNCTION public.enforce_post_status_transition();
+
+-- Record every edit to a listing's content as a revision in the same
+-- transaction as the edit, so a post can't change without a trace.
+-- Lifecycle, bump and counter columns aren't edits. Security definer
+-- because clients may not write revisions themselves.
+CREATE OR REPLACE FUNCTION public.record_post_revision()
+RETURNS trigger
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  old_values jsonb := to_jsonb(OLD);
+  new_values jsonb := to_jsonb(NEW);
+  field text;
+  changes jsonb := '{}'::jsonb;
+BEGIN
+  FOREACH field IN ARRAY ARRAY[
+    'title', 'description', 'price', 'main_category', 'sub_category',
+    'campus', 'photos', 'attributes'
+  ] LOOP
+    IF old_values -> field IS DISTINCT FROM new_values -> field THEN
+      changes := changes || jsonb_build_object(
+        field,
+        jsonb_build_object('from', old_values -> field, 'to', new_values -> field)
+      );
+    END IF;
+  END LOOP;
+
+  IF changes <> '{}'::jsonb THEN
+    INSERT INTO public.post_revisions (post_id, editor_id, changes)
+    VALUES (NEW.id, auth.uid(), changes);
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER posts_record_revision
+AFTER UPDATE OF title, description, price, main_category, sub_category, campus, photos, attributes ON public.posts
+FOR EACH ROW EXECUTE FUNCTION public.record_post_revision();
+
+-- Revisions are append-only, even for the service role. They only go
+-- away when the post they belong to is deleted.
+CREATE OR REPLACE FUNCTION public.prevent_post_revision_changes()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' AND NOT EXISTS (
+    SELECT 1 FROM public.posts WHERE id = OLD.post_id
+  ) THEN
+    RETURN OLD;
+  END IF;
+
+  RAISE EXCEPTION 'Post revisions cannot be changed'
+    USING ERRCODE = 'insufficient_privilege';
+END;
+$$;
+
+CREATE TRIGGER post_revisions_immutable
+BEFORE UPDATE OR DELETE ON public.post_revisions
+FOR EACH ROW EXECUTE FUNCTION public.prevent_post_revision_changes();
+
+REVOKE INSERT, UPDATE, DELETE ON public.post_revisions FROM anon, authenticated;
+
+-- Full-text search over posts, ranked by relevance. Matched terms in the
+-- title and description snippet are wrapped in {{ }} for highlighting.
+-- Runs as the caller, so RLS still applies.
+--
+-- Results are paged with a keyset cursor: pass the sort_key and id of the
+-- last row to get the rows after it. sort_key is the sort column as
+-- numeric (timestamps as epoch seconds), with missing values pushed last.
+CREATE INDEX posts_search_vector_idx ON public.posts USING gin (search_vector);
+
+CREATE OR REPLACE FUNCTION public.search_posts(
+  search_query text DEFAULT '',
+  filter_category text DEFAULT NULL,
+  filter_subcategory text DEFAULT NULL,
+  filter_campus text DEFAULT NULL,
+  min_price numeric DEFAULT NULL,
+  max_price numeric DEFAULT NULL,
+  filter_status text DEFAULT 'active',
+  filter_attributes jsonb DEFAULT '{}'::jsonb,
+  -- newest, price_asc, price_desc, most_viewed or ending_soon; defaults
+  -- to relevance when there is a query and newest otherwise. Newest puts
+  -- bumped reposts back at the top.
+  sort_mode text DEFAULT NULL,
+  cursor_key numeric DEFAULT NULL,
+  cursor_id uuid DEFAULT NULL,
+  result_limit integer DEFAULT NULL,
+  -- Only consider these posts, e.g. to check new posts against saved
+  -- searches with the same matching the feed uses
+  filter_post_ids uuid[] DEFAULT NULL
+)
+RETURNS TABLE (post jsonb, rank real, title_highlight text, snippet text, sort_key text)
+LANGUAGE sql STABLE
+AS $$
+  WITH q AS (
+    -- websearch syntax accepts any user input: quotes, "or", -exclusions
+    SELECT websearch_to_tsquery('english', coalesce(search_query, '')) AS query
+  ),
+  matches AS (
+    SELECT
+      p.*,
+      q.query,
+      CASE WHEN numnode(q.query) = 0 THEN 0 ELSE ts_rank_cd(p.search_vector, q.query) END AS rank
+    FROM public.posts p, q
+    -- A query of only stop words matches everything rather than nothing
+    WHERE (numnode(q.query) = 0 OR p.search_vector @@ q.query)
+      -- Scheduled posts stay hidden until they are published
+      AND CASE
+        WHEN filter_status = 'all' THEN p.status <> 'scheduled'
+        ELSE p.status = coalesce(filter_status, 'active')
+      END
+      AND (filter_category IS NULL OR p.main_category = filter_category)
+      AND (filter_subcategory IS NULL OR p.sub_category = filter_subcategory)
+      AND (filter_campus IS NULL OR p.campus = filter_campus)
+      AND (min_price IS NULL OR p.price >= min_price)
+      AND (max_price IS NULL OR p.price <= max_price)
+      AND (filter_post_ids IS NULL OR p.id = ANY (filter_post_ids))
+      -- Exact matches compare the text value, ranges compare the jsonb value
+      -- so numbers sort numerically
+      AND NOT EXISTS (
+        SELECT 1 FROM jsonb_each(coalesce(filter_attributes, '{}'::jsonb)) AS f(key, filter)
+        WHERE (f.filter ? 'eq' AND p.attributes->>f.key IS DISTINCT FROM f.filter->>'eq')
+          OR (f.filter ? 'min' AND NOT coalesce(p.attributes->f.key >= f.filter->'min', false))
+          OR (f.filter ? 'max' AND NOT coalesce(p.attributes->f.key <= f.filter->'max', false))
+      )
+  ),
+  sorted AS (
+    SELECT
+      m.*,
+      coalesce(sort_mode IN ('price_asc', 'ending_soon'), false) AS ascending,
+      CASE
+        WHEN sort_mode = 'price_asc' THEN coalesce(m.price, 'Infinity')
+        WHEN sort_mode = 'price_desc' THEN coalesce(m.price, '-Infinity')
+        WHEN sort_mode = 'most_viewed' THEN m.view_count::numeric
+        WHEN sort_mode = 'ending_soon' THEN coalesce(extract(epoch FROM m.expires_at), 'Infinity')
+        WHEN sort_mode = 'newest' OR numnode(m.query) = 0 THEN extract(epoch FROM coalesce(m.bumped_at, m.created_at))
+        ELSE m.rank::numeric
+      END AS key
+    FROM matches m
+  )
+  SELECT
+    to_jsonb(s) - 'search_vector' - 'query' - 'rank' - 'ascending' - 'key',
+    s.rank,
+    ts_headline('english', s.title, s.query, 'StartSel={{, StopSel=}}, HighlightAll=true'),
+    ts_headline('english', s.description, s.query, 'StartSel={{, StopSel=}}, MaxWords=30, MinWords=12, MaxFragments=2, FragmentDelimiter=" … "'),
+    s.key::text
+  FROM sorted s
+  WHERE cursor_id IS NULL
+    OR (s.ascending AND (s.key, s.id) > (cursor_key, cursor_id))
+    OR (NOT s.ascending AND (s.key, s.id) < (cursor_key, cursor_id))
+  ORDER BY
+    CASE WHEN s.ascending THEN s.key END ASC,
+    CASE WHEN NOT s.ascending THEN s.key END DESC,
+    CASE WHEN s.ascending THEN s.id END ASC,
+    CASE WHEN NOT s.ascending THEN s.id END DESC
+  LIMIT result_limit;
+$$;
+
+-- Result counts for every sidebar filter in one call. Each dimension is
+-- counted with all the other filters applied but not its own, so picking
+-- a category shows how many results each other category would give.
+-- Category and subcategory counts ignore attribute filters, which only
+-- apply within the selected category. price_buckets is a list of
+-- {min, max} ranges (either may be missing), counted inclusively like
+-- min_price and max_price.
+CREATE OR REPLACE FUNCTION public.post_facets(
+  search_query text DEFAULT '',
+  filter_category text DEFAULT NULL,
+  filter_subcategory text DEFAULT NULL,
+  filter_campus text DEFAULT NULL,
+  min_price numeric DEFAULT NULL,
+  max_price numeric DEFAULT NULL,
+  filter_status text DEFAULT 'active',
+  filter_attributes jsonb DEFAULT '{}'::jsonb,
+  price_buckets jsonb DEFAULT '[]'::jsonb
+)
+RETURNS jsonb
+LANGUAGE sql STABLE
+AS $$
+  WITH q AS (
+    SELECT websearch_to_tsquery('english', coalesce(search_query, '')) AS query
+  ),
+  -- Posts matching the query, flagged by which filters they pass
+  base AS (
+    SELECT
+      p.id,
+      p.main_category,
+      p.sub_category,
+      p.campus,
+      p.price,
+      (filter_category IS NULL OR p.main_category = filter_category) AS m_category,
+      (filter_subcategory IS NULL OR p.sub_category = filter_subcategory) AS m_subcategory,
+      (filter_campus IS NULL OR p.campus = filter_campus) AS m_campus,
+      coalesce(
+        (min_price IS NULL OR p.price >= min_price) AND (max_price IS NULL OR p.price <= max_price),
+        false
+      ) AS m_price,
+      NOT EXISTS (
+        SELECT 1 FROM jsonb_each(coalesce(filter_attributes, '{}'::jsonb)) AS f(key, filter)
+        WHERE (f.filter ? 'eq' AND p.attributes->>f.key IS DISTINCT FROM f.filter->>'eq')
+          OR (f.filter ? 'min' AND NOT coalesce(p.attributes->f.key >= f.filter->'min', false))
+          OR (f.filter ? 'max' AND NOT coalesce(p.attributes->f.key <= f.filter->'max', false))
+      ) AS m_attributes
+    FROM public.posts p, q
+    WHERE (numnode(q.query) = 0 OR p.search_vector @@ q.query)
+      AND CASE
+        WHEN filter_status = 'all' THEN p.status <> 'scheduled'
+        ELSE p.status = coalesce(filter_status, 'active')
+      END
+  )
+  SELECT jsonb_build_object(
+    'total', (
+      SELECT count(*) FROM base
+      WHERE m_category AND m_subcategory AND m_campus AND m_price AND m_attributes
+    ),
+    'categories', (
+      SELECT coalesce(jsonb_object_agg(c.main_category, c.n), '{}'::jsonb)
+      FROM (
+        SELECT main_category, count(*) AS n FROM base
+        WHERE m_campus AND m_price AND main_category IS NOT NULL
+        GROUP BY main_category
+      ) c
+    ),
+    -- Keyed by category, then subcategory
+    'subcategories', (
+      SELECT coalesce(jsonb_object_agg(c.main_category, c.counts), '{}'::jsonb)
+      FROM (
+        SELECT s.main_category, jsonb_object_agg(s.sub_category, s.n) AS counts
+        FROM (
+          SELECT main_category, sub_category, count(*) AS n FROM base
+          WHERE m_category AND m_campus AND m_price AND sub_category IS NOT NULL
+          GROUP BY main_category, sub_category
+        ) s
+        GROUP BY s.main_category
+      ) c
+    ),
+    'campuses', (
+      SELECT coalesce(jsonb_object_agg(c.campus, c.n), '{}'::jsonb)
+      FROM (
+        SELECT campus, count(*) AS n FROM base
+        WHERE m_category AND m_subcategory AND m_price AND m_attributes AND campus IS NOT NULL
+        GROUP BY campus
+      ) c
+    ),
+    'price_buckets', (
+      SELECT coalesce(jsonb_agg(b.bucket ORDER BY b.ord), '[]'::jsonb)
+      FROM (
+        SELECT
+          t.ord,
+          jsonb_build_object('min', t.range->'min', 'max', t.range->'max', 'count', count(base.id)) AS bucket
+        FROM jsonb_array_elements(coalesce(price_buckets, '[]'::jsonb)) WITH ORDINALITY AS t(range, ord)
+        LEFT JOIN base
+          ON base.m_category AND base.m_subcategory AND base.m_campus AND base.m_attributes
+          AND (t.range->'min' IS NULL OR base.price >= (t.range->>'min')::numeric)
+          AND (t.range->'max' IS NULL OR base.price <= (t.range->>'max')::numeric)
+        GROUP BY t.ord, t.range
+      ) b
+    )
+  );
+$$;
+
+-- Count a view of a post. Security definer so any visitor can bump the
+-- counter without being allowed to update the post.
+CREATE OR REPLACE FUNCTION public.record_post_view(target_post_id uuid)
+RETURNS void
+LANGUAGE sql SECURITY DEFINER SET search_path = public
+AS $$
+  UPDATE public.posts SET view_count = view_count + 1 WHERE id = target_post_id;
+$$;
+
+-- Count a search typed into the search bar, for autocomplete. Queries are
+-- stored lowercased with whitespace collapsed so variants add up. Security
+-- definer so any visitor can count a search without writing the table.
+CREATE INDEX search_queries_prefix_idx ON public.search_queries (query text_pattern_ops);
+
+CREATE OR REPLACE FUNCTION public.record_search_query(search_text text)
+RETURNS void
+LANGUAGE sql SECURITY DEFINER SET search_path = public
+AS $$
+  INSERT INTO public.search_queries (query)
+  SELECT normalized.query
+  FROM (
+    SELECT lower(regexp_replace(trim(search_text), '\s+', ' ', 'g')) AS query
+  ) normalized
+  WHERE length(normalized.query) BETWEEN 2 AND 100
+  ON CONFLICT (query) DO UPDATE
+    SET search_count = search_queries.search_count + 1,
+        last_searched_at = now();
+$$;
@@ -0,0 +1,119 @@
+// src/lib/drafts.ts
+import { supabase } from "./supabase";
+import { PostDraft, PostDraftData } from "./types";
+import { PostService } from "./posts";
+import { normalizePostPhotos } from "./photo-variants";
+
+export interface SaveDraftData {
+  user_id: string;
+  data: PostDraftData;
+  current_step: string;
+}
+
+// Older drafts stored photos as bare URLs
+const normalizeDraft = (draft: PostDraft): PostDraft => ({
+  ...draft,
+  data: { ...draft.data, photos: normalizePostPhotos(draft.data?.photos) },
+});
+
+export class DraftService {
+  // Create a draft, or update it when an ID is given
+  static async saveDraft(
+    draft: SaveDraftData,
+    id?: string
+  ): Promise<{ data: PostDraft | null; error: string | null }> {
+    try {
+      const query = id
+        ? supabase
+            .from("post_drafts")
+            .update({
+              data: draft.data,
+              current_step: draft.current_step,
+              updated_at: new Date().toISOString(),
+            })
+            .eq("id", id)
+            .eq("user_id", draft.user_id)
+        : supabase.from("post_drafts").insert(draft);
+
+      const { data, error } = await query.select().single();
+
+      if (error) {
+        return { data: null, error: error.message };
+      }
+
+      return { data, error: null };
+    } catch {
+      return { data: null, error: "Failed to save draft" };
+    }
+  }
+
+  // Get a single draft owned by the user
+  static async getDraft(
+    id: string,
+    userId: string
+  ): Promise<{ data: PostDraft | null; error: string | null }> {
+    try {
+      const { data, error } = await supabase
+        .from("post_drafts")
+        .select("*")
+        .eq("id", id)
+        .eq("user_id", userId)
+        .single();
+
+      if (error) {
+        return { data: null, error: error.message };
+      }
+
+      return { data: normalizeDraft(data), error: null };
+    } catch {
+      return { data: null, error: "Failed to fetch draft" };
+    }
+  }
+
+  // Get a user's drafts, most recently edited first
+  static async getDrafts(
+    userId: string
+  ): Promise<{ data: PostDraft[]; error: string | null }> {
+    try {
+      const { data, error } = await supabase
+        .from("post_drafts")
+        .select("*")
+        .eq("user_id", userId)
+        .order("updated_at", { ascending: false });
+
+      if (error) {
+        return { data: [], error: error.message };
+      }
+
+      return { data: (data || []).map(normalizeDraft), error: null };
+    } catch {
+      return { data: [], error: "Failed to fetch drafts" };
+    }
+  }
+
+  // Delete a draft; pass its photos when the draft is discarded rather than
+  // published, so the uploads don't linger in storage
+  static async deleteDraft(
+    id: string,
+    { photos = [] }: { photos?: string[] } = {}
+  ): Promise<{ success: boolean; error: string | null }> {
+    try {
+      const { error } = await supabase
+        .from("post_drafts")
+        .delete()
+        .eq("id", id);
+
+      if (error) {
+        return { success: false, error: error.message };
+      }
+
+      if (photos.length > 0) {
+        await PostService.deletePhotos(photos);
+      }
+
+      return { success: true, error: null };
+    } catch {
+      return { success: false, error: "Failed to delete draft" };
+    }
+  }
+}
@@ -0,0 +1,195 @@
+// src/lib/duplicate-detection.ts
+import { MAIN_CATEGORIES, Post, PostStatus, PhotoVariantsMap } from "./types";
+
+type MainCategory = (typeof MAIN_CATEGORIES)[number];
+
+// What happens when a new post looks like a repost of an existing one:
+// - block: refuse to create it
+// - bump: merge it into the existing post instead of creating a new one
+// - flag: create it, marked as a possible duplicate for moderators
+export type DuplicateAction = "block" | "bump" | "flag";
+
+export interface DuplicateRule {
+  // Similarity score (0-1) at or above which posts count as duplicates
+  threshold: number;
+  action: DuplicateAction;
+  // Only the seller's posts created this recently are compared
+  lookbackDays: number;
+  // A bump moves the post back to the top of the feed, so a post can only
+  // be bumped once this long after it was posted or last bumped. Reposts
+  // inside the window are blocked.
+  bumpCooldownDays: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_DUPLICATE_RULE: DuplicateRule = {
+  threshold: 0.85,
+  action: "bump",
+  lookbackDays: 30,
+  bumpCooldownDays: 7,
+};
+
+// Per-category overrides of the default rule
+export const CATEGORY_DUPLICATE_RULES: Partial<
+  Record<MainCategory, Partial<DuplicateRule>>
+> = {
+  // Sellers often list several similar items, so be a bit stricter
+  "For Sale": { threshold: 0.9 },
+  // Units in one building share most of their description
+  Housing: { threshold: 0.95, action: "flag" },
+  "Housing Wanted": { action: "block" },
+  Jobs: { action: "flag" },
+  "Campus Jobs": { action: "flag" },
+  // Recurring events are legitimately reposted
+  Events: { threshold: 0.95, action: "flag", lookbackDays: 7 },
+  Personals: { action: "block" },
+  Resumes: { action: "block", lookbackDays: 90 },
+};
+
+// Only listings that are still live are worth merging into
+export const DUPLICATE_CANDIDATE_STATUSES: PostStatus[] = [
+  "scheduled",
+  "active",
+  "reserved",
+];
+
+// Perceptual hashes this many bits apart are treated as the same photo
+const PHOTO_HASH_MAX_DISTANCE = 6;
+
+const TITLE_WEIGHT = 0.6;
+const DESCRIPTION_WEIGHT = 0.4;
+
+export interface DuplicateMatch {
+  post: Post;
+  score: number;
+  action: DuplicateAction;
+  // Set when a bump was refused because the post moved up too recently
+  bumpAvailableAt?: string;
+}
+
+/**
+ * The duplicate rule for a main category
+ */
+export function getDuplicateRule(mainCategory: string): DuplicateRule {
+  return {
+    ...DEFAULT_DUPLICATE_RULE,
+    ...CATEGORY_DUPLICATE_RULES[mainCategory as MainCategory],
+  };
+}
+
+/**
+ * What to do with a repost of the given post. Bumps are rate limited by
+ * the rule's cooldown, so reposting daily can't keep a listing on top.
+ */
+export function getDuplicateAction(
+  rule: DuplicateRule,
+  post: Pick<Post, "bumped_at" | "created_at">,
+  now = Date.now()
+): Pick<DuplicateMatch, "action" | "bumpAvailableAt"> {
+  if (rule.action !== "bump") {
+    return { action: rule.action };
+  }
+
+  const lastMovedUp = new Date(post.bumped_at || post.created_at).getTime();
+  const availableAt = lastMovedUp + rule.bumpCooldownDays * DAY_MS;
+
+  return availableAt > now
+    ? { action: "block", bumpAvailableAt: new Date(availableAt).toISOString() }
+    : { action: "bump" };
+}
+
+// Lowercase, drop punctuation and collapse whitespace
+const normalizeText = (text: string): string =>
+  text
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+
+const trigrams = (text: string): Set<string> => {
+  const padded = `  ${text} `;
+  const grams = new Set<string>();
+  for (let i = 0; i < padded.length - 2; i++) {
+    grams.add(padded.slice(i, i + 3));
+  }
+  return grams;
+};
+
+/**
+ * Dice similarity (0-1) of two texts' character trigrams, so small edits
+ * like "IKEA desk!!" vs "Ikea desk" still score highly
+ */
+export function textSimilarity(a: string, b: string): number {
+  const normalizedA = normalizeText(a || "");
+  const normalizedB = normalizeText(b || "");
+
+  if (!normalizedA && !normalizedB) return 1;
+  if (!normalizedA || !normalizedB) return 0;
+  if (normalizedA === normalizedB) return 1;
+
+  const gramsA = trigrams(normalizedA);
+  const gramsB = trigrams(normalizedB);
+  let shared = 0;
+  gramsA.forEach((gram) => {
+    if (gramsB.has(gram)) shared++;
+  });
+
+  return (2 * shared) / (gramsA.size + gramsB.size);
+}
+
+const hammingDistance = (a: string, b: string): number => {
+  let distance = 0;
+  for (let i = 0; i < a.length; i += 4) {
+    let bits =
+      parseInt(a.slice(i, i + 4), 16) ^ parseInt(b.slice(i, i + 4), 16);
+    while (bits) {
+      distance += bits & 1;
+      bits >>= 1;
+    }
+  }
+  return distance;
+};
+
+const getPhotoHashes = (
+  photos: { url: string }[] | undefined,
+  variants: PhotoVariantsMap | null | undefined
+): string[] =>
+  (photos || [])
+    .map((photo) => variants?.[photo.url]?.hash)
+    .filter((hash): hash is string => !!hash);
+
+/**
+ * Whether any photo of one post is (nearly) the same image as a photo of
+ * the other, going by the perceptual hashes from the image pipeline
+ */
+export function sharesPhoto(
+  a: Pick<Post, "photos" | "photo_variants">,
+  b: Pick<Post, "photos" | "photo_variants">
+): boolean {
+  const hashesB = getPhotoHashes(b.photos, b.photo_variants);
+
+  return getPhotoHashes(a.photos, a.photo_variants).some((hashA) =>
+    hashesB.some(
+      (hashB) =>
+        hashA.length === hashB.length &&
+        hammingDistance(hashA, hashB) <= PHOTO_HASH_MAX_DISTANCE
+    )
+  );
+}
+
+/**
+ * How likely (0-1) it is that two posts are the same listing. A shared
+ * photo is treated as a match on its own.
+ */
+export function duplicateScore(
+  a: Pick<Post, "title" | "description" | "photos" | "photo_variants">,
+  b: Pick<Post, "title" | "description" | "photos" | "photo_variants">
+): number {
+  if (sharesPhoto(a, b)) return 1;
+
+  return (
+    TITLE_WEIGHT * textSimilarity(a.title, b.title) +
+    DESCRIPTION_WEIGHT * textSimilarity(a.description, b.description)
+  );
+}
@@ -0,0 +1,336 @@
+// src/lib/email-services/message-email.ts
+import "server-only";
+import { SupabaseClient } from "@supabase/supabase-js";
+import { sendEmailWithNodemailer } from "./nodemailer";
+import { getReplyToAddress, getReplyToken } from "@/lib/reply-addresses";
+import { escapeHtml } from "@/lib/utils";
+import { Database, Message } from "@/lib/types";
+
+export interface MessageEmail {
+  to: string;
+  subject: string;
+  message: string;
+  senderName: string;
+  postTitle?: string;
+  // The recipient's side of the conversation in the app
+  conversationUrl: string;
+  // The sender's relay alias for this conversation. Never the sender's
+  // real address; without an alias, replies only work in the app.
+  replyTo?: string;
+  sentAt?: Date;
+}
+
+function messageEmailHTML({
+  to,
+  subject,
+  message,
+  senderName,
+  postTitle,
+  conversationUrl,
+  replyTo,
+  sentAt = new Date(),
+}: MessageEmail): string {
+  return `
+    <!DOCTYPE html>
+    <html>
+      <head>
+        <meta charset="utf-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        <title>New Message from Capmus Marketplace</title>
+        <style>
+          body { 
+            font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; 
+            line-height: 1.6; 
+            color: #333; 
+            margin: 0; 
+            padding: 0; 
+            background-color: #f5f5f5;
+          }
+          .container { 
+            max-width: 600px; 
+            margin: 0 auto; 
+            background-color: white;
+            box-shadow: 0 0 10px rgba(0,0,0,0.1);
+          }
+          .header { 
+            background: linear-gradient(135deg, #3b82f6 0%, #1d4ed8 100%);
+            color: white; 
+            padding: 30px 20px; 
+            text-align: center; 
+          }
+          .header h1 { 
+            margin: 0; 
+            font-size: 28px; 
+            font-weight: 600;
+          }
+          .header p { 
+            margin: 10px 0 0 0; 
+            opacity: 0.9;
+            font-size: 16px;
+          }
+          .content { 
+            padding: 30px 20px; 
+          }
+          .message-header {
+            background-color: #f8fafc;
+            border-left: 4px solid #3b82f6;
+            padding: 20px;
+            margin: 20px 0;
+            border-radius: 0 8px 8px 0;
+          }
+          .message-header h2 {
+            margin: 0 0 10px 0;
+            color: #1e293b;
+            font-size: 20px;
+          }
+          .sender-info {
+            display: flex;
+            align-items: center;
+            gap: 10px;
+            margin: 15px 0;
+          }
+          .sender-details {
+            flex: 1;
+          }
+          .sender-name {
+            font-weight: 600;
+            color: #1e293b;
+            margin: 0;
+          }
+          .message-box { 
+            background-color: white; 
+            padding: 25px; 
+            border: 1px solid #e2e8f0;
+            border-radius: 12px; 
+            margin: 25px 0;
+            box-shadow: 0 1px 3px rgba(0,0,0,0.1);
+          }
+          .message-content {
+            font-size: 16px;
+            line-height: 1.7;
+            color: #334155;
+            white-space: pre-wrap;
+          }
+          .reply-section {
+            background-color: #f1f5f9;
+            padding: 20px;
+            border-radius: 8px;
+            margin: 25px 0;
+            text-align: center;
+          }
+          .reply-button {
+            display: inline-block;
+            padding: 12px 30px;
+            background: linear-gradient(135deg, #3b82f6 0%, #1d4ed8 100%);
+            color: white;
+            text-decoration: none;
+            border-radius: 8px;
+            font-weight: 600;
+            transition: transform 0.2s;
+          }
+          .reply-button:hover {
+            transform: translateY(-1px);
+          }
+          .footer { 
+            text-align: center; 
+            padding: 30px 20px; 
+            background-color: #f8fafc;
+            border-top: 1px solid #e2e8f0;
+            color: #64748b; 
+            font-size: 14px; 
+          }
+          .footer a {
+            color: #3b82f6;
+            text-decoration: none;
+          }
+          .timestamp {
+            color: #64748b;
+            font-size: 14px;
+            margin-top: 15px;
+          }
+          @media (max-width: 600px) {
+            .container { margin: 0; }
+            .header { padding: 20px 15px; }
+            .content { padding: 20px 15px; }
+            .message-box { padding: 20px 15px; }
+          }
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          <div class="header">
+            <h1>Capmus Marketplace</h1>
+            <p>You have a new message!</p>
+          </div>
+          
+          <div class="content">
+            <div class="message-header">
+              <h2>${escapeHtml(subject)}</h2>
+              ${
+                postTitle
+                  ? `<p><strong>Regarding:</strong> ${escapeHtml(
+                      postTitle
+                    )}</p>`
+                  : ""
+              }
+            </div>
+            
+            <div class="sender-info">
+              <div class="sender-details">
+                <p class="sender-name">${escapeHtml(senderName)}</p>
+              </div>
+            </div>
+            
+            <div class="message-box">
+              <div class="message-content">${escapeHtml(message)}</div>
+              <div class="timestamp">
+                Sent on ${sentAt.toLocaleString()}
+              </div>
+            </div>
+            
+            <div class="reply-section">
+              <p><strong>Ready to reply?</strong></p>
+              <p>The whole conversation with ${escapeHtml(
+                senderName
+              )} is in your Capmus Marketplace inbox.</p>
+              <a href="${conversationUrl}" class="reply-button">
+                Reply in your inbox
+              </a>
+            </div>
+            
+            <div style="margin-top: 30px; padding-top: 20px; border-top: 1px solid #e2e8f0;">
+              ${
+                replyTo
+                  ? `<p><strong>💡 Pro tip:</strong> You can also just reply to this email. Your reply goes straight into the conversation with ${escapeHtml(
+                      senderName
+                    )}, and neither of you sees the other's email address.</p>`
+                  : `<p><strong>💡 Note:</strong> Replies to this email don't reach ${escapeHtml(
+                      senderName
+                    )}. Reply in your inbox instead.</p>`
+              }
+            </div>
+          </div>
+          
+          <div class="footer">
+            <p><strong>Capmus Marketplace</strong> - Connecting Capmus Communities</p>
+            <p>This message was sent via our secure platform. 
+            <a href="mailto:support@Capmusmarketplace.com">Contact Support</a> if you have any concerns.</p>
+            <p style="margin-top: 15px; opacity: 0.7;">
+              This email was sent to ${escapeHtml(
+                to
+              )} because you listed an item on Capmus Marketplace.
+            </p>
+          </div>
+        </div>
+      </body>
+    </html>
+  `;
+}
+
+// Let someone know they have a new message, from the app or by email
+export async function sendMessageEmail(email: MessageEmail) {
+  return sendEmailWithNodemailer({
+    to: email.to,
+    subject: `[Capmus Marketplace] ${email.subject}`,
+    html: messageEmailHTML(email),
+    replyTo: email.replyTo,
+  });
+}
+
+/**
+ * Email a saved message to its recipient. Their real address is looked up
+ * here and only ever used as the To; replies go to their relay alias for
+ * the conversation. Needs a service client to read both.
+ *
+ * Each message is emailed at most once: the message is claimed by setting
+ * notified_at before sending, and released again if sending fails.
+ */
+export async function notifyMessageRecipient(
+  message: Message,
+  baseUrl: string,
+  client: SupabaseClient<Database>
+): Promise<{
+  success: boolean;
+  error: string | null;
+  emailId?: string;
+  alreadyNotified?: boolean;
+}> {
+  const { data: claimed, error: claimError } = await client
+    .from("messages")
+    .update({ notified_at: new Date().toISOString() })
+    .eq("id", message.id)
+    .is("notified_at", null)
+    .select("id")
+    .maybeSingle();
+
+  if (claimError) {
+    return { success: false, error: claimError.message };
+  }
+  if (!claimed) {
+    return {
+      success: false,
+      error: "The recipient has already been notified",
+      alreadyNotified: true,
+    };
+  }
+
+  const result = await sendNotification(message, baseUrl, client);
+
+  if (!result.success) {
+    await client
+      .from("messages")
+      .update({ notified_at: null })
+      .eq("id", message.id);
+  }
+
+  return result;
+}
+
+async function sendNotification(
+  message: Message,
+  baseUrl: string,
+  client: SupabaseClient<Database>
+): Promise<{ success: boolean; error: string | null; emailId?: string }> {
+  const [{ data: recipient }, { data: post }, { data: token, error }] =
+    await Promise.all([
+      client
+        .from("profiles")
+        .select("email")
+        .eq("id", message.recipient_id)
+        .single(),
+      client.from("posts").select("title").eq("id", message.post_id).single(),
+      getReplyToken(
+        {
+          postId: message.post_id,
+          userId: message.recipient_id,
+          counterpartId: message.sender_id,
+        },
+        client
+      ),
+    ]);
+
+  if (!recipient?.email) {
+    return { success: false, error: "Recipient has no email address" };
+  }
+  if (error) {
+    console.error("Reply address error:", error);
+  }
+
+  const result = await sendMessageEmail({
+    to: recipient.email,
+    subject: message.subject,
+    message: message.message,
+    senderName: message.sender_name,
+    postTitle: post?.title,
+    // The recipient's side of the conversation is keyed by the sender
+    conversationUrl: `${baseUrl}/inbox/${message.post_id}/${message.sender_id}`,
+    replyTo: getReplyToAddress(token),
+    sentAt: new Date(message.created_at),
+  });
+
+  if (!result.success) {
+    return { success: false, error: result.error || "Failed to send email" };
+  }
+
+  return { success: true, error: null, emailId: result.data?.messageId };
+}
@@ -0,0 +1,109 @@
+// src/lib/favorites.ts
+import { supabase } from "./supabase";
+import { FavoriteWithPost, Post } from "./types";
+import { normalizePost } from "./photo-variants";
+
+export class FavoriteService {
+  // Save a post, remembering its current price and status so later
+  // changes can be notified
+  static async addFavorite(
+    userId: string,
+    post: Post
+  ): Promise<{ success: boolean; error: string | null }> {
+    try {
+      const { error } = await supabase.from("favorites").upsert(
+        {
+          user_id: userId,
+          post_id: post.id,
+          notified_price: post.price ?? null,
+          notified_status: post.status,
+        },
+        { onConflict: "user_id,post_id", ignoreDuplicates: true }
+      );
+
+      if (error) {
+        return { success: false, error: error.message };
+      }
+
+      return { success: true, error: null };
+    } catch {
+      return { success: false, error: "Failed to save post" };
+    }
+  }
+
+  static async removeFavorite(
+    userId: string,
+    postId: string
+  ): Promise<{ success: boolean; error: string | null }> {
+    try {
+      const { error } = await supabase
+        .from("favorites")
+        .delete()
+        .eq("user_id", userId)
+        .eq("post_id", postId);
+
+      if (error) {
+        return { success: false, error: error.message };
+      }
+
+      return { success: true, error: null };
+    } catch {
+      return { success: false, error: "Failed to remove saved post" };
+    }
+  }
+
+  // Get a user's saved posts, most recently saved first
+  static async getFavorites(
+    userId: string
+  ): Promise<{ data: FavoriteWithPost[]; error: string | null }> {
+    try {
+      const { data, error } = await supabase
+        .from("favorites")
+        .select("*, post:posts(*)")
+        .eq("user_id", userId)
+        .order("created_at", { ascending: false });
+
+      if (error) {
+        return { data: [], error: error.message };
+      }
+
+      // Posts hidden from the user by RLS come back as null
+      return {
+        data: (data || [])
+          .filter((favorite: FavoriteWithPost) => favorite.post)
+          .map((favorite: FavoriteWithPost) => ({
+            ...favorite,
+            post: normalizePost(favorite.post),
+          })),
+        error: null,
+      };
+    } catch {
+      return { data: [], error: "Failed to fetch saved posts" };
+    }
+  }
+
+  // IDs of every post the user has saved, for heart toggles
+  static async getFavoritePostIds(
+    userId: string
+  ): Promise<{ data: string[]; error: string | null }> {
+    try {
+      const { data, error } = await supabase
+        .from("favorites")
+        .select("post_id")
+        .eq("user_id", userId);
+
+      if (error) {
+        return { data: [], error: error.message };
+      }
+
+      return {
+        data: (data || []).map(
+          (favorite: { post_id: string }) => favorite.post_id
+        ),
+        error: null,
+      };
+    } catch {
+      return { data: [], error: "Failed to fetch saved posts" };
+    }
+  }
+}
@@ -1,5 +1,21 @@
 // src/lib/filterUtils.ts
 import { PostFilters } from "./posts";
+import {
+  POST_SORTS,
+  POST_SORT_LABELS,
+  POST_STATUSES,
+  PostSort,
+  PostStatus,
+} from "./types";
+import {
+  AttributeFilter,
+  AttributeFilters,
+  cleanAttributeFilters,
+  getFilterableAttributes,
+} from "./post-attributes";
+
+// Attribute filters are stored as attr.<key>, attr.<key>.min and attr.<key>.max
+const ATTRIBUTE_PARAM_PREFIX = "attr.";
 
 /**
  * Convert filters to URL search parameters
@@ -10,11 +26,19 @@ export const filtersToSearchParams = (
   const params = new URLSearchParams();
 
   Object.entries(filters).forEach(([key, value]) => {
+    if (key === "attributes") return;
     if (value !== undefined && value !== null && value !== "") {
       params.set(key, value.toString());
     }
   });
 
+  Object.entries(filters.attributes || {}).forEach(([key, filter]) => {
+    const name = `${ATTRIBUTE_PARAM_PREFIX}${key}`;
+    if (filter.eq !== undefined) params.set(name, filter.eq.toString());
+    if (filter.min !== undefined) params.set(`${name}.min`, `${filter.min}`);
+    if (filter.max !== undefined) params.set(`${name}.max`, `${filter.max}`);
+  });
+
   return params;
 };
 
@@ -44,6 +68,49 @@ export const searchParamsToFilters = (
   const maxPrice = searchParams.get("maxPrice");
   if (maxPrice) filters.maxPrice = parseFloat(maxPrice);
 
+  // Scheduled posts are never browsable from the URL
+  const status = searchParams.get("status");
+  if (
+    status === "all" ||
+    (status !== "scheduled" && POST_STATUSES.includes(status as PostStatus))
+  ) {
+    filters.status = status as PostStatus | "all";
+  }
+
+  const sort = searchParams.get("sort");
+  if (POST_SORTS.includes(sort as PostSort)) {
+    filters.sort = sort as PostSort;
+  }
+
+  // Only accept attributes defined for the selected category
+  if (category) {
+    const attributes: AttributeFilters = {};
+
+    getFilterableAttributes(category, subcategory || undefined).forEach(
+      (definition) => {
+        const name = `${ATTRIBUTE_PARAM_PREFIX}${definition.key}`;
+        const parse = (value: string) =>
+          definition.type === "date" ? value : parseFloat(value);
+        const filter: AttributeFilter = {};
+
+        const eq = searchParams.get(name);
+        if (eq) filter.eq = definition.type === "boolean" ? eq === "true" : eq;
+
+        const min = searchParams.get(`${name}.min`);
+        if (min && !Number.isNaN(parse(min))) filter.min = parse(min);
+
+        const max = searchParams.get(`${name}.max`);
+        if (max && !Number.isNaN(parse(max))) filter.max = parse(max);
+
+        if (Object.keys(filter).length > 0) {
+          attributes[definition.key] = filter;
+        }
+      }
+    );
+
+    if (Object.keys(attributes).length > 0) filters.attributes = attributes;
+  }
+
   return filters;
 };
 
@@ -94,6 +161,8 @@ export const formatFilterValue = (
       return `$${value} max`;
     case "search":
       return `"${value}"`;
+    case "sort":
+      return POST_SORT_LABELS[value as PostSort] || value.toString();
     default:
       return value.toString();
   }
@@ -110,6 +179,9 @@ export const getFilterDisplayName = (key: keyof PostFilters): string => {
     campus: "Campus",
     minPrice: "Min Price",
     maxPrice: "Max Price",
+    status: "Status",
+    attributes: "Details",
+    sort: "Sort",
   };
 
   return displayNames[key] || key;
@@ -129,10 +201,16 @@ export const cleanFilters = (filters: PostFilters): PostFilters => {
   const cleaned: PostFilters = {};
 
   Object.entries(filters).forEach(([key, value]) => {
+    if (key === "attributes") return;
     if (!isFilterEmpty(value)) {
       cleaned[key as keyof PostFilters] = value;
     }
   });
 
+  const attributes = cleanAttributeFilters(filters.attributes || {});
+  if (Object.keys(attributes).length > 0) {
+    cleaned.attributes = attributes;
+  }
+
   return cleaned;
 };
@@ -0,0 +1,173 @@
+// src/lib/image-pipeline.ts
+import "server-only";
+import sharp from "sharp";
+import { encode } from "blurhash";
+import { SupabaseClient } from "@supabase/supabase-js";
+import { Database, PhotoSize, PhotoVariantsMap } from "./types";
+import { PHOTO_SIZE_DIMENSIONS } from "./photo-variants";
+
+const WEBP_QUALITY = 80;
+
+// Blurhash is computed from a tiny copy; more components add little detail
+const BLURHASH_SAMPLE_SIZE = 32;
+const BLURHASH_COMPONENTS = { x: 4, y: 3 };
+
+// A difference hash compares neighbouring pixels of a 9x8 greyscale copy
+const HASH_WIDTH = 9;
+const HASH_HEIGHT = 8;
+
+export interface ProcessedPhoto {
+  sizes: Record<PhotoSize, Buffer>;
+  blurhash: string;
+  hash: string;
+  width: number;
+  height: number;
+}
+
+// 64-bit difference hash as hex; resized or re-encoded copies of a photo
+// hash to the same or nearly the same value
+async function differenceHash(image: sharp.Sharp): Promise<string> {
+  const pixels = await image
+    .clone()
+    .greyscale()
+    .resize(HASH_WIDTH, HASH_HEIGHT, { fit: "fill" })
+    .raw()
+    .toBuffer();
+
+  let hash = "";
+  for (let row = 0; row < HASH_HEIGHT; row++) {
+    let nibble = 0;
+    for (let col = 0; col < HASH_WIDTH - 1; col++) {
+      const offset = row * HASH_WIDTH + col;
+      nibble = (nibble << 1) | (pixels[offset] > pixels[offset + 1] ? 1 : 0);
+      if (col % 4 === 3) {
+        hash += nibble.toString(16);
+        nibble = 0;
+      }
+    }
+  }
+  return hash;
+}
+
+/**
+ * Auto-orient a photo and re-encode it as WebP at each size. sharp drops
+ * all metadata on output, so EXIF (including GPS location) is stripped.
+ */
+export async function processPhoto(input: Buffer): Promise<ProcessedPhoto> {
+  const image = sharp(input, { failOn: "error" }).rotate();
+
+  const sizeNames = Object.keys(PHOTO_SIZE_DIMENSIONS) as PhotoSize[];
+  const outputs = await Promise.all(
+    sizeNames.map((size) =>
+      image
+        .clone()
+        .resize({
+          width: PHOTO_SIZE_DIMENSIONS[size],
+          height: PHOTO_SIZE_DIMENSIONS[size],
+          fit: "inside",
+          withoutEnlargement: true,
+        })
+        .webp({ quality: WEBP_QUALITY })
+        .toBuffer({ resolveWithObject: true })
+    )
+  );
+
+  const { data: pixels, info } = await image
+    .clone()
+    .resize(BLURHASH_SAMPLE_SIZE, BLURHASH_SAMPLE_SIZE, { fit: "inside" })
+    .ensureAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  const sizes = {} as Record<PhotoSize, Buffer>;
+  sizeNames.forEach((size, index) => {
+    sizes[size] = outputs[index].data;
+  });
+
+  const large = outputs[sizeNames.indexOf("large")].info;
+
+  return {
+    sizes,
+    hash: await differenceHash(image),
+    blurhash: encode(
+      new Uint8ClampedArray(pixels),
+      info.width,
+      info.height,
+      BLURHASH_COMPONENTS.x,
+      BLURHASH_COMPONENTS.y
+    ),
+    width: large.width,
+    height: large.height,
+  };
+}
+
+/**
+ * Process and upload photos to the post-photos bucket. Each photo's
+ * "large" variant URL is the one to store in post.photos.
+ */
+export async function uploadProcessedPhotos(
+  photos: File[],
+  userId: string,
+  client: SupabaseClient<Database>
+): Promise<{
+  urls: string[];
+  variants: PhotoVariantsMap;
+  error: string | null;
+}> {
+  const uploadedPaths: string[] = [];
+  const variants: PhotoVariantsMap = {};
+
+  try {
+    const urls: string[] = [];
+
+    // One photo at a time keeps peak memory down for large originals
+    for (let index = 0; index < photos.length; index++) {
+      const processed = await processPhoto(
+        Buffer.from(await photos[index].arrayBuffer())
+      );
+      const baseName = `${userId}_${Date.now()}_${index}`;
+      const sizeUrls = {} as Record<PhotoSize, string>;
+
+      for (const size of Object.keys(processed.sizes) as PhotoSize[]) {
+        const fileName = `${baseName}_${size}.webp`;
+
+        const { error: uploadError } = await client.storage
+          .from("post-photos")
+          .upload(fileName, processed.sizes[size], {
+            contentType: "image/webp",
+            cacheControl: "31536000",
+            upsert: false,
+          });
+
+        if (uploadError) {
+          throw uploadError;
+        }
+
+        uploadedPaths.push(fileName);
+        sizeUrls[size] = client.storage
+          .from("post-photos")
+          .getPublicUrl(fileName).data.publicUrl;
+      }
+
+      urls.push(sizeUrls.large);
+      variants[sizeUrls.large] = {
+        sizes: sizeUrls,
+        blurhash: processed.blurhash,
+        hash: processed.hash,
+        width: processed.width,
+        height: processed.height,
+      };
+    }
+
+    return { urls, variants, error: null };
+  } catch (error) {
+    console.error("Error processing photos:", error);
+
+    // Don't leave half of a batch behind
+    if (uploadedPaths.length > 0) {
+      await client.storage.from("post-photos").remove(uploadedPaths);
+    }
+
+    return { urls: [], variants: {}, error: "Failed to upload photos" };
+  }
+}
@@ -0,0 +1,98 @@
+// src/lib/inbound-email.ts
+import "server-only";
+import { AddressObject, simpleParser } from "mailparser";
+
+export interface InboundEmail {
+  from: string | null;
+  // Every address the email was delivered to
+  recipients: string[];
+  subject: string;
+  text: string;
+}
+
+// Lines that start the quoted copy of the email being replied to
+const QUOTE_HEADER_PATTERNS = [
+  // Gmail, Apple Mail: "On Mon, Jan 6, 2025 at 9:00 AM Sam <...> wrote:"
+  /^On\s.+wrote:\s*$/i,
+  /^-+\s*Original Message\s*-+$/i,
+  /^-+\s*Forwarded message\s*-+$/i,
+  // Outlook puts a rule and a header block above the quote
+  /^_{10,}$/,
+  /^From:\s.+/i,
+];
+
+// Lines that start a signature
+const SIGNATURE_PATTERNS = [
+  /^--\s*$/,
+  /^Sent from my \w+/i,
+  /^Sent from (Mail|Outlook|Yahoo Mail)/i,
+  /^Get Outlook for/i,
+];
+
+const addressesOf = (field?: AddressObject | AddressObject[]) =>
+  (Array.isArray(field) ? field : field ? [field] : [])
+    .flatMap((group) => group.value)
+    .map((entry) => entry.address)
+    .filter((address): address is string => !!address);
+
+/**
+ * Parse a raw MIME message. Plain text is preferred; HTML-only emails are
+ * converted to text by the parser.
+ */
+export async function parseInboundEmail(
+  raw: Buffer | string
+): Promise<InboundEmail> {
+  const parsed = await simpleParser(raw);
+
+  // Forwarding services keep the original envelope recipient in headers,
+  // which the parser returns as text or as parsed addresses
+  const envelope = ["delivered-to", "x-original-to", "envelope-to"].flatMap(
+    (header) => {
+      const value = parsed.headers.get(header);
+      if (typeof value === "string") return [value];
+      if (value && typeof value === "object" && "value" in value) {
+        return addressesOf(value as AddressObject);
+      }
+      return [];
+    }
+  );
+
+  return {
+    from: addressesOf(parsed.from)[0] ?? null,
+    recipients: [
+      ...addressesOf(parsed.to),
+      ...addressesOf(parsed.cc),
+      ...envelope,
+    ],
+    subject: parsed.subject || "",
+    text: parsed.text || "",
+  };
+}
+
+/**
+ * Just what the person wrote: everything above the quoted email they
+ * replied to, without their signature.
+ */
+export function extractReplyText(text: string): string {
+  const lines = text.replace(/\r\n?/g, "\n").split("\n");
+  const kept: string[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    const trimmed = lines[i].trim();
+    // Long "On ... wrote:" lines get wrapped onto a second line
+    const withNext = `${trimmed} ${(lines[i + 1] || "").trim()}`;
+
+    if (
+      trimmed.startsWith(">") ||
+      QUOTE_HEADER_PATTERNS.some(
+        (pattern) => pattern.test(trimmed) || pattern.test(withNext)
+      ) ||
+      SIGNATURE_PATTERNS.some((pattern) => pattern.test(trimmed))
+    ) {
+      break;
+    }
+    kept.push(lines[i]);
+  }
+
+  return kept.join("\n").trim();
+}
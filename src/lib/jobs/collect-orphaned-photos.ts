@@ -0,0 +1,213 @@
+// src/lib/jobs/collect-orphaned-photos.ts
+import "server-only";
+import { SupabaseClient } from "@supabase/supabase-js";
+import { createServiceClient } from "@/lib/server";
+import {
+  getPhotoFileUrls,
+  getPhotoStoragePath,
+  normalizePostPhotos,
+} from "@/lib/photo-variants";
+import {
+  Database,
+  PhotoVariantsMap,
+  PostDraftData,
+  PostPhoto,
+} from "@/lib/types";
+
+const PAGE_SIZE = 1000;
+// Storage removes are sent in chunks to keep request sizes reasonable
+const DELETE_CHUNK_SIZE = 100;
+
+// Files younger than this may belong to an upload that hasn't been
+// attached to a post or draft yet
+export const DEFAULT_GRACE_HOURS = 24;
+
+export interface StoredPhoto {
+  path: string;
+  size: number | null;
+  created_at: string | null;
+}
+
+// Walk the post-photos bucket, descending into folders
+async function listBucketObjects(
+  supabase: SupabaseClient<Database>,
+  prefix = ""
+): Promise<StoredPhoto[]> {
+  const objects: StoredPhoto[] = [];
+
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data, error } = await supabase.storage
+      .from("post-photos")
+      .list(prefix, {
+        limit: PAGE_SIZE,
+        offset,
+        sortBy: { column: "name", order: "asc" },
+      });
+
+    if (error) {
+      throw new Error(`Failed to list "${prefix || "/"}": ${error.message}`);
+    }
+
+    for (const entry of data || []) {
+      const path = prefix ? `${prefix}/${entry.name}` : entry.name;
+
+      // Folders are returned without an id
+      if (entry.id === null) {
+        objects.push(...(await listBucketObjects(supabase, path)));
+      } else {
+        objects.push({
+          path,
+          size: entry.metadata?.size ?? null,
+          created_at: entry.created_at ?? null,
+        });
+      }
+    }
+
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  return objects;
+}
+
+// Read every row of a table in pages
+async function selectAll<T>(
+  supabase: SupabaseClient<Database>,
+  table: "posts" | "post_drafts" | "profiles",
+  columns: string
+): Promise<T[]> {
+  const rows: T[] = [];
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from(table)
+      .select(columns)
+      .order("id", { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) {
+      throw new Error(`Failed to read ${table}: ${error.message}`);
+    }
+
+    rows.push(...((data || []) as T[]));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  return rows;
+}
+
+// Every bucket path still referenced by a post, draft or profile avatar
+async function getReferencedPaths(
+  supabase: SupabaseClient<Database>
+): Promise<Set<string>> {
+  const [posts, drafts, profiles] = await Promise.all([
+    selectAll<{
+      photos: (string | PostPhoto)[] | null;
+      photo_variants: PhotoVariantsMap | null;
+    }>(supabase, "posts", "photos, photo_variants"),
+    selectAll<{ data: PostDraftData | null }>(supabase, "post_drafts", "data"),
+    selectAll<{ avatar_url: string | null }>(
+      supabase,
+      "profiles",
+      "avatar_url"
+    ),
+  ]);
+
+  const urls: string[] = [];
+  posts.forEach((post) => {
+    urls.push(
+      ...getPhotoFileUrls(
+        post.photo_variants,
+        // Posts from before the jsonb migration stored bare URLs
+        normalizePostPhotos(post.photos).map((photo) => photo.url)
+      )
+    );
+  });
+  drafts.forEach((draft) => {
+    urls.push(
+      ...getPhotoFileUrls(
+        draft.data?.photo_variants,
+        // Older drafts stored bare URLs
+        normalizePostPhotos(draft.data?.photos).map((photo) => photo.url)
+      )
+    );
+  });
+  profiles.forEach((profile) => {
+    if (profile.avatar_url) urls.push(profile.avatar_url);
+  });
+
+  const paths = new Set<string>();
+  urls.forEach((url) => {
+    const path = getPhotoStoragePath(url);
+    if (path) paths.add(path);
+  });
+
+  return paths;
+}
+
+/**
+ * Find files in the post-photos bucket that no post, draft or avatar
+ * references and that are older than the grace period. Unless dryRun is
+ * set, the files are deleted.
+ */
+export async function collectOrphanedPhotos({
+  dryRun = false,
+  graceHours = DEFAULT_GRACE_HOURS,
+}: { dryRun?: boolean; graceHours?: number } = {}): Promise<{
+  scanned: number;
+  orphaned: StoredPhoto[];
+  deleted: number;
+  errors: string[];
+}> {
+  const supabase = createServiceClient();
+  const result = {
+    scanned: 0,
+    orphaned: [] as StoredPhoto[],
+    deleted: 0,
+    errors: [] as string[],
+  };
+
+  let objects: StoredPhoto[];
+  let referenced: Set<string>;
+  try {
+    // References are read after listing, so a file uploaded and attached
+    // mid-run is still seen as referenced
+    objects = await listBucketObjects(supabase);
+    referenced = await getReferencedPaths(supabase);
+  } catch (error) {
+    result.errors.push(error instanceof Error ? error.message : String(error));
+    return result;
+  }
+
+  const cutoff = Date.now() - graceHours * 60 * 60 * 1000;
+  result.scanned = objects.length;
+  result.orphaned = objects.filter(
+    (object) =>
+      !referenced.has(object.path) &&
+      // Without a timestamp there's no way to honour the grace period
+      !!object.created_at &&
+      new Date(object.created_at).getTime() < cutoff
+  );
+
+  if (dryRun) {
+    return result;
+  }
+
+  for (let i = 0; i < result.orphaned.length; i += DELETE_CHUNK_SIZE) {
+    const paths = result.orphaned
+      .slice(i, i + DELETE_CHUNK_SIZE)
+      .map((object) => object.path);
+
+    const { error } = await supabase.storage.from("post-photos").remove(paths);
+
+    if (error) {
+      result.errors.push(
+        `Failed to delete ${paths.length} files: ${error.message}`
+      );
+      continue;
+    }
+
+    result.deleted += paths.length;
+  }
+
+  return result;
+}
@@ -0,0 +1,124 @@
+// src/lib/jobs/expire-posts.ts
+import "server-only";
+import { createServiceClient } from "@/lib/server";
+import { PostService } from "@/lib/posts";
+import { createRenewalToken } from "@/lib/renewal-tokens";
+import { sendEmailWithNodemailer } from "@/lib/email-services/nodemailer";
+import { escapeHtml } from "@/lib/utils";
+import { Post } from "@/lib/types";
+
+const BATCH_SIZE = 100;
+
+/**
+ * Expire every active post whose expires_at has passed and email each
+ * seller a one-click renewal link.
+ */
+export async function expireStalePosts(baseUrl: string): Promise<{
+  expired: number;
+  emailed: number;
+  errors: string[];
+}> {
+  const supabase = createServiceClient();
+  const result = { expired: 0, emailed: 0, errors: [] as string[] };
+
+  const { data: stalePosts, error } = await supabase
+    .from("posts")
+    .select("*")
+    .eq("status", "active")
+    .lte("expires_at", new Date().toISOString())
+    .order("expires_at", { ascending: true })
+    .limit(BATCH_SIZE);
+
+  if (error) {
+    result.errors.push(error.message);
+    return result;
+  }
+
+  // Posts don't store the seller's email, so look it up for each seller
+  const sellerIds = Array.from(
+    new Set((stalePosts || []).map((post) => post.seller_id))
+  );
+  const { data: profiles, error: profilesError } = sellerIds.length
+    ? await supabase.from("profiles").select("id, email").in("id", sellerIds)
+    : { data: [], error: null };
+
+  if (profilesError) {
+    result.errors.push(profilesError.message);
+  }
+
+  const emailsById = new Map<string, string>();
+  (profiles || []).forEach((profile) =>
+    emailsById.set(profile.id, profile.email)
+  );
+
+  for (const post of (stalePosts || []) as Post[]) {
+    const { data: expiredPost, error: statusError } =
+      await PostService.transitionStatus(post.id, "expired", supabase);
+
+    if (statusError || !expiredPost) {
+      result.errors.push(`${post.id}: ${statusError}`);
+      continue;
+    }
+
+    result.expired += 1;
+
+    const emailResult = await sendRenewalEmail(
+      expiredPost,
+      emailsById.get(post.seller_id),
+      baseUrl
+    );
+    if (emailResult.success) {
+      result.emailed += 1;
+    } else {
+      result.errors.push(`${post.id}: ${emailResult.error}`);
+    }
+  }
+
+  return result;
+}
+
+async function sendRenewalEmail(
+  post: Post,
+  sellerEmail: string | undefined,
+  baseUrl: string
+) {
+  if (!sellerEmail || !post.expires_at) {
+    return { success: false, error: "Missing seller email or expiry" };
+  }
+
+  const token = createRenewalToken(post.id, post.expires_at);
+  const renewUrl = `${baseUrl}/api/posts/${post.id}/renew?token=${token}`;
+
+  const html = `
+    <!DOCTYPE html>
+    <html>
+      <body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; color: #333; line-height: 1.6;">
+        <div style="max-width: 600px; margin: 0 auto; padding: 24px;">
+          <h2 style="color: #1e293b;">Your listing has expired</h2>
+          <p>Hi ${escapeHtml(post.seller_name)},</p>
+          <p>
+            Your listing <strong>${escapeHtml(
+              post.title
+            )}</strong> has expired and is no
+            longer shown on Campus Marketplace.
+          </p>
+          <p>Still available? Renew it here:</p>
+          <p>
+            <a href="${renewUrl}" style="display: inline-block; padding: 12px 30px; background: #3b82f6; color: white; text-decoration: none; border-radius: 8px; font-weight: 600;">
+              Renew listing
+            </a>
+          </p>
+          <p style="color: #64748b; font-size: 14px;">
+            If you no longer need this listing, you can ignore this email.
+          </p>
+        </div>
+      </body>
+    </html>
+  `;
+
+  return sendEmailWithNodemailer({
+    to: sellerEmail,
+    subject: `[Campus Marketplace] Your listing "${post.title}" has expired`,
+    html,
+  });
+}
@@ -0,0 +1,208 @@
+// src/lib/jobs/notify-favorites.ts
+import "server-only";
+import { createServiceClient } from "@/lib/server";
+import { sendEmailWithNodemailer } from "@/lib/email-services/nodemailer";
+import { escapeHtml, formatPrice } from "@/lib/utils";
+import { FavoriteWithPost } from "@/lib/types";
+
+const PAGE_SIZE = 500;
+
+type FavoriteEvent = "price_drop" | "sold";
+
+interface FavoriteChange {
+  favorite: FavoriteWithPost;
+  event: FavoriteEvent;
+}
+
+const hasPriceDrop = ({ post, notified_price }: FavoriteWithPost) =>
+  post.price != null && notified_price != null && post.price < notified_price;
+
+// What, if anything, a saver should hear about since they were last told
+const getFavoriteEvent = (favorite: FavoriteWithPost): FavoriteEvent | null => {
+  const { post } = favorite;
+
+  if (post.status === "sold" && favorite.notified_status !== "sold") {
+    return "sold";
+  }
+
+  if (post.status === "active" && hasPriceDrop(favorite)) {
+    return "price_drop";
+  }
+
+  return null;
+};
+
+/**
+ * Email users when a post they saved drops in price or sells, batching
+ * each user's changes into one email. Every favorite's notified price
+ * and status is then brought up to date, so each change is sent once.
+ */
+export async function notifyFavoriteChanges(baseUrl: string): Promise<{
+  checked: number;
+  emailed: number;
+  errors: string[];
+}> {
+  const supabase = createServiceClient();
+  const result = { checked: 0, emailed: 0, errors: [] as string[] };
+
+  const changesByUser = new Map<string, FavoriteChange[]>();
+  // Favorites whose post changed in a way nobody needs to hear about
+  const silentUpdates: FavoriteWithPost[] = [];
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from("favorites")
+      .select("*, post:posts(*)")
+      .order("id", { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) {
+      result.errors.push(error.message);
+      return result;
+    }
+
+    for (const favorite of (data || []) as FavoriteWithPost[]) {
+      if (!favorite.post) continue;
+      result.checked += 1;
+
+      const priceChanged =
+        (favorite.post.price ?? null) !== favorite.notified_price;
+      const statusChanged = favorite.post.status !== favorite.notified_status;
+      if (!priceChanged && !statusChanged) continue;
+
+      // A reserved post's price drop is sent once it's back on sale;
+      // updating the snapshot now would lose it
+      if (favorite.post.status === "reserved" && hasPriceDrop(favorite)) {
+        continue;
+      }
+
+      const event = getFavoriteEvent(favorite);
+      if (!event) {
+        silentUpdates.push(favorite);
+        continue;
+      }
+
+      const changes = changesByUser.get(favorite.user_id) || [];
+      changes.push({ favorite, event });
+      changesByUser.set(favorite.user_id, changes);
+    }
+
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  const userIds = Array.from(changesByUser.keys());
+  const { data: profiles, error: profilesError } = userIds.length
+    ? await supabase
+        .from("profiles")
+        .select("id, email, full_name")
+        .in("id", userIds)
+    : { data: [], error: null };
+
+  if (profilesError) {
+    result.errors.push(profilesError.message);
+  }
+
+  const profilesById = new Map<
+    string,
+    { email: string; full_name: string | null }
+  >();
+  (profiles || []).forEach((profile) => profilesById.set(profile.id, profile));
+
+  const notified: FavoriteWithPost[] = [...silentUpdates];
+
+  for (const userId of userIds) {
+    const changes = changesByUser.get(userId)!;
+    const profile = profilesById.get(userId);
+
+    if (!profile?.email) {
+      result.errors.push(`${userId}: No email address`);
+      continue;
+    }
+
+    const emailResult = await sendFavoritesEmail(
+      profile.email,
+      profile.full_name,
+      changes,
+      baseUrl
+    );
+
+    if (!emailResult.success) {
+      // Leave the snapshot alone so the next run retries
+      result.errors.push(`${userId}: ${emailResult.error}`);
+      continue;
+    }
+
+    result.emailed += 1;
+    notified.push(...changes.map(({ favorite }) => favorite));
+  }
+
+  for (const favorite of notified) {
+    const { error } = await supabase
+      .from("favorites")
+      .update({
+        notified_price: favorite.post.price ?? null,
+        notified_status: favorite.post.status,
+      })
+      .eq("id", favorite.id);
+
+    if (error) {
+      result.errors.push(`${favorite.id}: ${error.message}`);
+    }
+  }
+
+  return result;
+}
+
+async function sendFavoritesEmail(
+  email: string,
+  name: string | null,
+  changes: FavoriteChange[],
+  baseUrl: string
+) {
+  const items = changes
+    .map(({ favorite: { post, notified_price }, event }) => {
+      const postUrl = `${baseUrl}/post/${post.id}`;
+      const detail =
+        event === "sold"
+          ? "has been sold"
+          : `dropped from ${formatPrice(notified_price!)} to ${formatPrice(
+              post.price!
+            )}`;
+
+      return `<li style="margin-bottom: 8px;"><a href="${postUrl}" style="color: #3b82f6; font-weight: 600;">${escapeHtml(
+        post.title
+      )}</a> ${detail}</li>`;
+    })
+    .join("");
+
+  const html = `
+    <!DOCTYPE html>
+    <html>
+      <body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; color: #333; line-height: 1.6;">
+        <div style="max-width: 600px; margin: 0 auto; padding: 24px;">
+          <h2 style="color: #1e293b;">Updates on your saved posts</h2>
+          <p>Hi ${escapeHtml(name || "there")},</p>
+          <ul style="padding-left: 20px;">${items}</ul>
+          <p>
+            <a href="${baseUrl}/saved" style="display: inline-block; padding: 12px 30px; background: #3b82f6; color: white; text-decoration: none; border-radius: 8px; font-weight: 600;">
+              View saved posts
+            </a>
+          </p>
+          <p style="color: #64748b; font-size: 14px;">
+            You're getting this because you saved these posts on Campus
+            Marketplace. Remove a post from your saved list to stop updates.
+          </p>
+        </div>
+      </body>
+    </html>
+  `;
+
+  const subject =
+    changes.length === 1
+      ? `[Campus Marketplace] "${changes[0].favorite.post.title}" ${
+          changes[0].event === "sold" ? "has sold" : "dropped in price"
+        }`
+      : `[Campus Marketplace] ${changes.length} of your saved posts changed`;
+
+  return sendEmailWithNodemailer({ to: email, subject, html });
+}
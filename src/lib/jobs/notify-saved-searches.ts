@@ -0,0 +1,354 @@
+// src/lib/jobs/notify-saved-searches.ts
+import "server-only";
+import { SupabaseClient } from "@supabase/supabase-js";
+import { createServiceClient } from "@/lib/server";
+import { sendEmailWithNodemailer } from "@/lib/email-services/nodemailer";
+import { findSavedSearchMatches } from "@/lib/saved-searches";
+import { escapeHtml, formatPrice } from "@/lib/utils";
+import { Database, Post, SavedSearch, SavedSearchMatch } from "@/lib/types";
+
+const PAGE_SIZE = 500;
+
+interface MatchWithDetails extends SavedSearchMatch {
+  saved_search: SavedSearch;
+  post: Post | null;
+}
+
+interface SearchMatches {
+  search: SavedSearch;
+  posts: Post[];
+}
+
+async function getAllSavedSearches(
+  supabase: SupabaseClient<Database>
+): Promise<SavedSearch[]> {
+  const searches: SavedSearch[] = [];
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from("saved_searches")
+      .select("*")
+      .order("id", { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) {
+      throw new Error(`Failed to read saved searches: ${error.message}`);
+    }
+
+    searches.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  return searches;
+}
+
+// Group matches by subscriber, then by saved search within each email
+function groupByUser(
+  matches: MatchWithDetails[]
+): Map<string, SearchMatches[]> {
+  const byUser = new Map<string, SearchMatches[]>();
+
+  matches.forEach(({ saved_search, post }) => {
+    if (!post) return;
+
+    const groups = byUser.get(saved_search.user_id) || [];
+    const group = groups.find(({ search }) => search.id === saved_search.id);
+    if (group) {
+      group.posts.push(post);
+    } else {
+      groups.push({ search: saved_search, posts: [post] });
+    }
+    byUser.set(saved_search.user_id, groups);
+  });
+
+  return byUser;
+}
+
+// Email each subscriber their matches and stamp the ones that were sent
+async function emailMatches(
+  supabase: SupabaseClient<Database>,
+  matches: MatchWithDetails[],
+  baseUrl: string,
+  digest: boolean
+): Promise<{ emailed: number; errors: string[] }> {
+  const result = { emailed: 0, errors: [] as string[] };
+  const byUser = groupByUser(matches);
+  const userIds = Array.from(byUser.keys());
+
+  if (userIds.length === 0) {
+    return result;
+  }
+
+  const { data: profiles, error: profilesError } = await supabase
+    .from("profiles")
+    .select("id, email, full_name")
+    .in("id", userIds);
+
+  if (profilesError) {
+    result.errors.push(profilesError.message);
+    return result;
+  }
+
+  const profilesById = new Map<
+    string,
+    { email: string; full_name: string | null }
+  >();
+  (profiles || []).forEach((profile) => profilesById.set(profile.id, profile));
+
+  for (const userId of userIds) {
+    const profile = profilesById.get(userId);
+
+    if (!profile?.email) {
+      result.errors.push(`${userId}: No email address`);
+      continue;
+    }
+
+    const emailResult = await sendMatchesEmail(
+      profile.email,
+      profile.full_name,
+      byUser.get(userId)!,
+      baseUrl,
+      digest
+    );
+
+    if (!emailResult.success) {
+      // Leave the matches unsent so the next digest retries them
+      result.errors.push(`${userId}: ${emailResult.error}`);
+      continue;
+    }
+
+    result.emailed += 1;
+
+    const sentIds = matches
+      .filter(({ saved_search }) => saved_search.user_id === userId)
+      .map(({ id }) => id);
+    const { error } = await supabase
+      .from("saved_search_matches")
+      .update({ notified_at: new Date().toISOString() })
+      .in("id", sentIds);
+
+    if (error) {
+      result.errors.push(`${userId}: ${error.message}`);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Match newly created or published posts against every saved search,
+ * recording each match once. Subscribers with instant alerts are emailed
+ * straight away; daily subscribers get the match in their next digest.
+ */
+export async function notifySavedSearchMatches(
+  posts: Post[],
+  baseUrl: string
+): Promise<{ matched: number; emailed: number; errors: string[] }> {
+  const supabase = createServiceClient();
+  const result = { matched: 0, emailed: 0, errors: [] as string[] };
+
+  // Only live posts are worth telling anyone about
+  const livePosts = posts.filter((post) => post.status === "active");
+  if (livePosts.length === 0) {
+    return result;
+  }
+
+  let searches: SavedSearch[];
+  try {
+    searches = await getAllSavedSearches(supabase);
+  } catch (error) {
+    result.errors.push(error instanceof Error ? error.message : String(error));
+    return result;
+  }
+
+  const candidates: { search: SavedSearch; post: Post }[] = [];
+  for (const search of searches) {
+    // Sellers don't need alerts about their own listings
+    const others = livePosts.filter(
+      (post) => post.seller_id !== search.user_id
+    );
+    if (others.length === 0) continue;
+
+    const { data: matches, error } = await findSavedSearchMatches(
+      search,
+      others,
+      supabase
+    );
+    if (error) {
+      result.errors.push(`${search.id}: ${error}`);
+      continue;
+    }
+
+    matches.forEach((post) => candidates.push({ search, post }));
+  }
+
+  if (candidates.length === 0) {
+    return result;
+  }
+
+  // Matches already recorded are skipped, so a post is never sent twice
+  const { data: inserted, error: insertError } = await supabase
+    .from("saved_search_matches")
+    .upsert(
+      candidates.map(({ search, post }) => ({
+        saved_search_id: search.id,
+        post_id: post.id,
+      })),
+      { onConflict: "saved_search_id,post_id", ignoreDuplicates: true }
+    )
+    .select();
+
+  if (insertError) {
+    result.errors.push(insertError.message);
+    return result;
+  }
+
+  result.matched = (inserted || []).length;
+
+  const instantMatches = (inserted || [])
+    .map((match: SavedSearchMatch) => {
+      const candidate = candidates.find(
+        ({ search, post }) =>
+          search.id === match.saved_search_id && post.id === match.post_id
+      )!;
+      return { ...match, saved_search: candidate.search, post: candidate.post };
+    })
+    .filter(({ saved_search }) => saved_search.frequency === "instant");
+
+  const emailResult = await emailMatches(
+    supabase,
+    instantMatches,
+    baseUrl,
+    false
+  );
+  result.emailed = emailResult.emailed;
+  result.errors.push(...emailResult.errors);
+
+  return result;
+}
+
+/**
+ * Send each subscriber one email listing every match they haven't heard
+ * about yet: daily searches, plus instant alerts that failed to send.
+ * Posts that are no longer active by then are dropped from the email.
+ */
+export async function sendSavedSearchDigests(baseUrl: string): Promise<{
+  matches: number;
+  emailed: number;
+  errors: string[];
+}> {
+  const supabase = createServiceClient();
+  const result = { matches: 0, emailed: 0, errors: [] as string[] };
+  const pending: MatchWithDetails[] = [];
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from("saved_search_matches")
+      .select("*, saved_search:saved_searches(*), post:posts(*)")
+      .is("notified_at", null)
+      .order("created_at", { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) {
+      result.errors.push(error.message);
+      return result;
+    }
+
+    pending.push(...((data || []) as MatchWithDetails[]));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  result.matches = pending.length;
+
+  // Stale matches are stamped without being sent so they don't pile up
+  const staleIds = pending
+    .filter(({ post }) => !post || post.status !== "active")
+    .map(({ id }) => id);
+  if (staleIds.length > 0) {
+    const { error } = await supabase
+      .from("saved_search_matches")
+      .update({ notified_at: new Date().toISOString() })
+      .in("id", staleIds);
+
+    if (error) {
+      result.errors.push(error.message);
+    }
+  }
+
+  const emailResult = await emailMatches(
+    supabase,
+    pending.filter(({ post }) => post?.status === "active"),
+    baseUrl,
+    true
+  );
+  result.emailed = emailResult.emailed;
+  result.errors.push(...emailResult.errors);
+
+  return result;
+}
+
+async function sendMatchesEmail(
+  email: string,
+  name: string | null,
+  groups: SearchMatches[],
+  baseUrl: string,
+  digest: boolean
+) {
+  const sections = groups
+    .map(({ search, posts }) => {
+      const items = posts
+        .map((post) => {
+          const postUrl = `${baseUrl}/post/${post.id}`;
+          const price =
+            post.price != null ? ` - ${formatPrice(post.price)}` : "";
+
+          return `<li style="margin-bottom: 8px;"><a href="${postUrl}" style="color: #3b82f6; font-weight: 600;">${escapeHtml(
+            post.title
+          )}</a>${price} <span style="color: #64748b;">(${escapeHtml(
+            post.campus
+          )})</span></li>`;
+        })
+        .join("");
+
+      return `<h3 style="color: #1e293b; margin-bottom: 4px;">${escapeHtml(
+        search.name
+      )}</h3><ul style="padding-left: 20px; margin-top: 0;">${items}</ul>`;
+    })
+    .join("");
+
+  const html = `
+    <!DOCTYPE html>
+    <html>
+      <body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; color: #333; line-height: 1.6;">
+        <div style="max-width: 600px; margin: 0 auto; padding: 24px;">
+          <h2 style="color: #1e293b;">${
+            digest ? "Your daily saved search digest" : "New posts for you"
+          }</h2>
+          <p>Hi ${escapeHtml(name || "there")},</p>
+          <p>These new posts match your saved searches:</p>
+          ${sections}
+          <p>
+            <a href="${baseUrl}/saved-searches" style="display: inline-block; padding: 12px 30px; background: #3b82f6; color: white; text-decoration: none; border-radius: 8px; font-weight: 600;">
+              Manage saved searches
+            </a>
+          </p>
+          <p style="color: #64748b; font-size: 14px;">
+            You're getting this because you saved these searches on Campus
+            Marketplace. Delete a saved search to stop its alerts.
+          </p>
+        </div>
+      </body>
+    </html>
+  `;
+
+  const postCount = groups.reduce(
+    (count, group) => count + group.posts.length,
+    0
+  );
+  const subject =
+    postCount === 1
+      ? `[Campus Marketplace] New match for "${groups[0].search.name}": ${groups[0].posts[0].title}`
+      : `[Campus Marketplace] ${postCount} new posts match your saved searches`;
+
+  return sendEmailWithNodemailer({ to: email, subject, html });
+}
@@ -0,0 +1,45 @@
+// src/lib/jobs/publish-scheduled-posts.ts
+import "server-only";
+import { createServiceClient } from "@/lib/server";
+import { PostService } from "@/lib/posts";
+import { Post } from "@/lib/types";
+
+const BATCH_SIZE = 100;
+
+/**
+ * Publish every scheduled post whose publish_at has passed.
+ */
+export async function publishScheduledPosts(): Promise<{
+  published: Post[];
+  errors: string[];
+}> {
+  const supabase = createServiceClient();
+  const result = { published: [] as Post[], errors: [] as string[] };
+
+  const { data: duePosts, error } = await supabase
+    .from("posts")
+    .select("id")
+    .eq("status", "scheduled")
+    .lte("publish_at", new Date().toISOString())
+    .order("publish_at", { ascending: true })
+    .limit(BATCH_SIZE);
+
+  if (error) {
+    result.errors.push(error.message);
+    return result;
+  }
+
+  for (const { id } of duePosts || []) {
+    const { data: post, error: statusError } =
+      await PostService.transitionStatus(id, "active", supabase);
+
+    if (statusError || !post) {
+      result.errors.push(`${id}: ${statusError}`);
+      continue;
+    }
+
+    result.published.push(post);
+  }
+
+  return result;
+}
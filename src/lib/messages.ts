@@ -1,15 +1,34 @@
 // src/lib/messages.ts
+import { SupabaseClient } from "@supabase/supabase-js";
 import { supabase } from "./supabase";
+import { Conversation, Database, Message, MessageWithPost } from "./types";
+import { normalizePost } from "./photo-variants";
 
 export interface MessageData {
   post_id: string;
   recipient_id: string;
-  recipient_email: string;
   subject: string;
   message: string;
   sender_name?: string;
-  sender_email?: string;
-  post_title?: string;
+}
+
+// Whether either side of a conversation has stopped the other contacting
+// them
+export interface ContactStatus {
+  revokedByMe: boolean;
+  revokedByThem: boolean;
+}
+
+const CONTACT_REVOKED_MESSAGE =
+  "This person is no longer accepting messages about this listing";
+
+// A reply that arrived by email rather than through the app
+export interface InboundReplyData {
+  post_id: string;
+  sender_id: string;
+  recipient_id: string;
+  subject: string;
+  message: string;
 }
 
 export interface SendMessageResponse {
@@ -17,6 +36,51 @@ export interface SendMessageResponse {
   error?: string;
 }
 
+/**
+ * Group a user's messages, newest first, into one conversation per post
+ * and counterpart, newest conversation first
+ */
+export function groupConversations(
+  messages: MessageWithPost[],
+  userId: string
+): Conversation[] {
+  const conversations = new Map<string, Conversation>();
+
+  messages.forEach((message) => {
+    const isMine = message.sender_id === userId;
+    const counterpartId = isMine ? message.recipient_id : message.sender_id;
+    const key = `${message.post_id}:${counterpartId}`;
+    const isUnread = !isMine && !message.read_at;
+
+    let conversation = conversations.get(key);
+    if (!conversation) {
+      conversation = {
+        post_id: message.post_id,
+        post: message.post && normalizePost(message.post),
+        counterpart_id: counterpartId,
+        // The counterpart's name is only stored on messages they sent;
+        // until they reply, fall back to the listing's seller name
+        counterpart_name:
+          (counterpartId === message.post?.seller_id &&
+            message.post?.seller_name) ||
+          (isMine ? "Buyer" : message.sender_name),
+        last_message: message,
+        unread_count: 0,
+      };
+      conversations.set(key, conversation);
+    }
+
+    if (!isMine) {
+      conversation.counterpart_name = message.sender_name;
+    }
+    if (isUnread) {
+      conversation.unread_count += 1;
+    }
+  });
+
+  return Array.from(conversations.values());
+}
+
 export class MessageService {
   static async sendMessage(
     messageData: MessageData
@@ -40,7 +104,7 @@ export class MessageService {
       // Get sender profile information
       const { data: profile, error: profileError } = await supabase
         .from("profiles")
-        .select("full_name, email")
+        .select("full_name")
         .eq("id", user.id)
         .single();
 
@@ -50,20 +114,18 @@ export class MessageService {
       }
 
       const senderName = profile.full_name || "Campus Marketplace User";
-      const senderEmail = profile.email || user.email;
 
-      console.log("Sender info retrieved:", { senderName, senderEmail });
+      console.log("Sender info retrieved:", { senderName });
 
-      // Save message to database using your existing schema
+      // Email addresses aren't stored on messages; the email API looks up
+      // the recipient's and relays through aliases
       const { data: dbMessage, error: dbError } = await supabase
         .from("messages")
         .insert({
           post_id: messageData.post_id,
           sender_id: user.id,
-          sender_email: senderEmail,
           sender_name: senderName,
           recipient_id: messageData.recipient_id,
-          recipient_email: messageData.recipient_email,
           subject: messageData.subject,
           message: messageData.message,
         })
@@ -72,6 +134,10 @@ export class MessageService {
 
       if (dbError) {
         console.error("Database error:", dbError);
+        // Raised by the database when the recipient has revoked contact
+        if (dbError.message === "contact_revoked") {
+          return { error: CONTACT_REVOKED_MESSAGE };
+        }
         return { error: "Failed to save message to database" };
       }
 
@@ -97,18 +163,15 @@ export class MessageService {
           "Content-Type": "application/json",
           Authorization: `Bearer ${session.access_token}`,
         },
-        body: JSON.stringify({
-          to: messageData.recipient_email,
-          subject: messageData.subject,
-          message: messageData.message,
-          senderName: senderName,
-          senderEmail: senderEmail,
-          postTitle: messageData.post_title,
-        }),
+        // The route reads everything else from the saved message, so
+        // nothing in the request can change who the email goes to
+        body: JSON.stringify({ messageId: dbMessage.id }),
       });
 
       console.log("Email API response status:", emailResponse.status);
 
+      // The email only lets the recipient know; the message is already in
+      // their inbox, so a failed email doesn't fail the send
       if (!emailResponse.ok) {
         const errorText = await emailResponse.text();
         console.error("Email API response not ok:", {
@@ -117,15 +180,14 @@ export class MessageService {
           body: errorText,
         });
 
-        // Try to parse as JSON, fallback to text
-        let emailResult;
-        try {
-          emailResult = JSON.parse(errorText);
-        } catch {
-          emailResult = { error: errorText || "Failed to send email" };
-        }
-
-        return { error: emailResult.error || "Failed to send email" };
+        return {
+          data: {
+            message: "Message sent successfully",
+            emailSent: false,
+            dbMessageId: dbMessage?.id,
+            savedMessage: dbMessage,
+          },
+        };
       }
 
       const emailResult = await emailResponse.json();
@@ -134,8 +196,10 @@ export class MessageService {
       return {
         data: {
           message: "Message sent successfully",
+          emailSent: true,
           emailId: emailResult.emailId,
           dbMessageId: dbMessage?.id,
+          savedMessage: dbMessage,
         },
       };
     } catch (error) {
@@ -144,6 +208,54 @@ export class MessageService {
     }
   }
 
+  /**
+   * Save a reply someone sent by email. There's no session to act as, so
+   * the caller passes a service client after authenticating the reply.
+   */
+  static async saveInboundReply(
+    reply: InboundReplyData,
+    client: SupabaseClient<Database>
+  ): Promise<{ data: Message | null; error: string | null }> {
+    try {
+      const { data: sender, error: profileError } = await client
+        .from("profiles")
+        .select("full_name")
+        .eq("id", reply.sender_id)
+        .single();
+
+      if (profileError) {
+        return { data: null, error: "Failed to get sender information" };
+      }
+
+      const { data, error } = await client
+        .from("messages")
+        .insert({
+          post_id: reply.post_id,
+          sender_id: reply.sender_id,
+          sender_name: sender.full_name || "Campus Marketplace User",
+          recipient_id: reply.recipient_id,
+          subject: reply.subject,
+          message: reply.message,
+        })
+        .select()
+        .single();
+
+      if (error) {
+        return {
+          data: null,
+          error:
+            error.message === "contact_revoked"
+              ? CONTACT_REVOKED_MESSAGE
+              : error.message,
+        };
+      }
+
+      return { data, error: null };
+    } catch {
+      return { data: null, error: "Failed to save reply" };
+    }
+  }
+
   // ... keep existing code (getMessageHistory, getPostMessages, getConversation methods)
   static async getMessageHistory(userId: string) {
     try {
@@ -152,7 +264,7 @@ export class MessageService {
         .select(
           `
           *,
-          post:posts(title, price, main_category, sub_category)
+          post:posts(id, title, price, main_category, sub_category, photos, photo_variants, status, seller_id, seller_name)
         `
         )
         .or(`sender_id.eq.${userId},recipient_id.eq.${userId}`)
@@ -169,6 +281,114 @@ export class MessageService {
     }
   }
 
+  // The user's conversations for the inbox, newest first
+  static async getConversations(
+    userId: string
+  ): Promise<{ data: Conversation[]; error: string | null }> {
+    const { data, error } = await this.getMessageHistory(userId);
+
+    if (error) {
+      return { data: [], error };
+    }
+
+    return {
+      data: groupConversations((data || []) as MessageWithPost[], userId),
+      error: null,
+    };
+  }
+
+  // Messages sent to the user that they haven't opened yet
+  static async getUnreadCount(
+    userId: string
+  ): Promise<{ data: number; error: string | null }> {
+    try {
+      const { count, error } = await supabase
+        .from("messages")
+        .select("id", { count: "exact", head: true })
+        .eq("recipient_id", userId)
+        .is("read_at", null);
+
+      if (error) {
+        return { data: 0, error: error.message };
+      }
+
+      return { data: count || 0, error: null };
+    } catch {
+      return { data: 0, error: "Failed to count unread messages" };
+    }
+  }
+
+  /**
+   * Listen for messages as they happen: new and updated messages sent to
+   * the user, and updates to messages the user sent (read receipts).
+   * Returns a function that stops listening.
+   */
+  static subscribeToMessages(
+    userId: string,
+    handlers: {
+      onReceived?: (message: Message) => void;
+      onReceivedUpdate?: (message: Message) => void;
+      onSentUpdate?: (message: Message) => void;
+    }
+  ): () => void {
+    const table = { schema: "public", table: "messages" };
+    const channel = supabase
+      .channel(`messages:${userId}`)
+      .on(
+        "postgres_changes",
+        { ...table, event: "INSERT", filter: `recipient_id=eq.${userId}` },
+        (payload) => handlers.onReceived?.(payload.new as Message)
+      )
+      .on(
+        "postgres_changes",
+        { ...table, event: "UPDATE", filter: `recipient_id=eq.${userId}` },
+        (payload) => handlers.onReceivedUpdate?.(payload.new as Message)
+      )
+      .on(
+        "postgres_changes",
+        { ...table, event: "UPDATE", filter: `sender_id=eq.${userId}` },
+        (payload) => handlers.onSentUpdate?.(payload.new as Message)
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }
+
+  // Mark the other person's messages in a conversation as read
+  static async markConversationRead(
+    postId: string,
+    otherUserId: string
+  ): Promise<{ success: boolean; error: string | null }> {
+    try {
+      const {
+        data: { user },
+        error: authError,
+      } = await supabase.auth.getUser();
+
+      if (authError || !user) {
+        return { success: false, error: "Authentication required" };
+      }
+
+      const { error } = await supabase
+        .from("messages")
+        .update({ read_at: new Date().toISOString() })
+        .eq("post_id", postId)
+        .eq("sender_id", otherUserId)
+        .eq("recipient_id", user.id)
+        .is("read_at", null);
+
+      if (error) {
+        return { success: false, error: error.message };
+      }
+
+      return { success: true, error: null };
+    } catch {
+      return { success: false, error: "Failed to mark messages as read" };
+    }
+  }
+
   static async getPostMessages(postId: string) {
     try {
       const {
@@ -228,4 +448,48 @@ export class MessageService {
       return { error: "Failed to fetch conversation" };
     }
   }
+
+  // Calls the contact API, which reads the locked-down alias table
+  private static async fetchContact(
+    postId: string,
+    otherUserId: string,
+    method: "GET" | "POST"
+  ): Promise<{ data: ContactStatus | null; error: string | null }> {
+    try {
+      const {
+        data: { session },
+      } = await supabase.auth.getSession();
+
+      if (!session) {
+        return { data: null, error: "Authentication required" };
+      }
+
+      const params = new URLSearchParams({ postId, userId: otherUserId });
+      const response = await fetch(`/api/messages/contact?${params}`, {
+        method,
+        headers: { Authorization: `Bearer ${session.access_token}` },
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        return { data: null, error: result.error || "Request failed" };
+      }
+
+      return { data: result, error: null };
+    } catch {
+      return { data: null, error: "Failed to reach the server" };
+    }
+  }
+
+  static async getContactStatus(postId: string, otherUserId: string) {
+    return this.fetchContact(postId, otherUserId, "GET");
+  }
+
+  /**
+   * Stop the other person contacting the user about this post, by email or
+   * in the app. Their relay alias stops working for good.
+   */
+  static async revokeContact(postId: string, otherUserId: string) {
+    return this.fetchContact(postId, otherUserId, "POST");
+  }
 }
@@ -0,0 +1,13 @@
+// src/lib/moderation.ts
+import "server-only";
+
+// Moderators are listed by email, comma separated, in MODERATOR_EMAILS
+export function isModerator(email: string | null | undefined): boolean {
+  if (!email) return false;
+
+  return (process.env.MODERATOR_EMAILS || "")
+    .split(",")
+    .map((entry) => entry.trim().toLowerCase())
+    .filter(Boolean)
+    .includes(email.toLowerCase());
+}
@@ -1,7 +1,9 @@
 // src/lib/payments.ts
+import { SupabaseClient } from "@supabase/supabase-js";
 import { createClient } from "@/lib/supabase";
 import { createServiceClient } from "@/lib/server";
 import {
+  Database,
   Transaction,
   TransactionStatus,
   TransactionWithDetails,
@@ -137,10 +139,9 @@ export async function getUserTransactions(
   userId: string,
   role: "buyer" | "seller" | "both" = "both",
   limit = 20,
-  offset = 0
+  offset = 0,
+  supabase: SupabaseClient<Database> = createClient()
 ): Promise<TransactionWithDetails[]> {
-  const supabase = createClient();
-
   let query = supabase
     .from("transaction_summary")
     .select("*")
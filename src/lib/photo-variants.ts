@@ -0,0 +1,111 @@
+// src/lib/photo-variants.ts
+import { PhotoSize, PhotoVariantsMap, PostPhoto } from "./types";
+
+export const MAX_POST_PHOTOS = 10;
+export const PHOTO_CAPTION_MAX_LENGTH = 140;
+export const PHOTO_ALT_MAX_LENGTH = 200;
+
+// Longest edge of each generated size; smaller originals are never upscaled
+export const PHOTO_SIZE_DIMENSIONS: Record<PhotoSize, number> = {
+  thumb: 320,
+  medium: 800,
+  large: 1600,
+};
+
+/**
+ * Pick the URL to render a photo at, falling back to the stored photo
+ * for posts created before variants existed
+ */
+export function getPhotoUrl(
+  variants: PhotoVariantsMap | null | undefined,
+  url: string,
+  size: PhotoSize
+): string {
+  return variants?.[url]?.sizes[size] || url;
+}
+
+/**
+ * The variants belonging to the given photos, e.g. to store on a post
+ */
+export function pickPhotoVariants(
+  variants: PhotoVariantsMap | null | undefined,
+  urls: string[]
+): PhotoVariantsMap {
+  const picked: PhotoVariantsMap = {};
+  urls.forEach((url) => {
+    if (variants?.[url]) picked[url] = variants[url];
+  });
+  return picked;
+}
+
+/**
+ * Every stored file behind the given photos, so removing a photo also
+ * removes its resized copies
+ */
+export function getPhotoFileUrls(
+  variants: PhotoVariantsMap | null | undefined,
+  urls: string[]
+): string[] {
+  const fileUrls = new Set<string>();
+  urls.forEach((url) => {
+    fileUrls.add(url);
+    Object.values(variants?.[url]?.sizes || {}).forEach((variantUrl) =>
+      fileUrls.add(variantUrl)
+    );
+  });
+  return Array.from(fileUrls);
+}
+
+// Public URLs look like .../storage/v1/object/public/post-photos/<path>
+const PHOTO_URL_PATH_MARKER = "/object/public/post-photos/";
+
+/**
+ * The object path inside the post-photos bucket for a public photo URL,
+ * including any folders. Returns null for URLs outside the bucket, such
+ * as remote images from bulk imports.
+ */
+export function getPhotoStoragePath(url: string): string | null {
+  const markerIndex = url.indexOf(PHOTO_URL_PATH_MARKER);
+  if (markerIndex === -1) return null;
+
+  const path = url
+    .slice(markerIndex + PHOTO_URL_PATH_MARKER.length)
+    .split(/[?#]/)[0];
+
+  try {
+    return decodeURIComponent(path) || null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Clean photos into stored PostPhoto objects: trims text, drops empty
+ * fields and anything extra (like pending files). Bare URLs, as saved by
+ * older drafts, become photos without a caption.
+ */
+export function normalizePostPhotos(
+  photos: (string | PostPhoto)[] | null | undefined
+): PostPhoto[] {
+  return (photos || [])
+    .map((photo) => (typeof photo === "string" ? { url: photo } : photo))
+    .filter((photo) => !!photo?.url)
+    .map(({ url, caption, alt }) => {
+      const normalized: PostPhoto = { url };
+      const trimmedCaption = caption?.trim().slice(0, PHOTO_CAPTION_MAX_LENGTH);
+      const trimmedAlt = alt?.trim().slice(0, PHOTO_ALT_MAX_LENGTH);
+      if (trimmedCaption) normalized.caption = trimmedCaption;
+      if (trimmedAlt) normalized.alt = trimmedAlt;
+      return normalized;
+    });
+}
+
+/**
+ * A post row with its photos normalized, for rows that may predate photo
+ * objects and still hold bare URLs
+ */
+export function normalizePost<T extends { photos?: PostPhoto[] | null }>(
+  post: T
+): T {
+  return { ...post, photos: normalizePostPhotos(post.photos) };
+}
@@ -0,0 +1,423 @@
+// src/lib/post-attributes.ts
+import { z } from "zod";
+import { AttributeValue, MAIN_CATEGORIES, PostAttributes } from "./types";
+import { formatDate, formatPrice } from "./utils";
+
+type MainCategory = (typeof MAIN_CATEGORIES)[number];
+
+export type AttributeType =
+  | "text"
+  | "number"
+  | "currency"
+  | "select"
+  | "date"
+  | "boolean";
+
+export interface AttributeDefinition {
+  key: string;
+  label: string;
+  type: AttributeType;
+  required?: boolean;
+  options?: readonly string[];
+  min?: number;
+  max?: number;
+  placeholder?: string;
+  // Limit the attribute to these sub categories (all when omitted)
+  subCategories?: readonly string[];
+}
+
+const CONDITION_OPTIONS = ["New", "Like New", "Good", "Fair", "For Parts"];
+const PAY_PERIOD_OPTIONS = ["Hourly", "Weekly", "Monthly", "Yearly"];
+const WORK_LOCATION_OPTIONS = ["On-site", "Remote", "Hybrid"];
+
+// Typed attributes per main category, rendered as an extra wizard step
+export const CATEGORY_ATTRIBUTES: Partial<
+  Record<MainCategory, AttributeDefinition[]>
+> = {
+  "For Sale": [
+    {
+      key: "condition",
+      label: "Condition",
+      type: "select",
+      options: CONDITION_OPTIONS,
+      required: true,
+    },
+    {
+      key: "brand",
+      label: "Brand",
+      type: "text",
+      placeholder: "e.g. IKEA, Apple",
+    },
+  ],
+  Housing: [
+    {
+      key: "bedrooms",
+      label: "Bedrooms",
+      type: "number",
+      min: 0,
+      max: 20,
+      required: true,
+    },
+    {
+      key: "bathrooms",
+      label: "Bathrooms",
+      type: "number",
+      min: 0,
+      max: 20,
+    },
+    {
+      key: "rent_period",
+      label: "Rent Period",
+      type: "select",
+      options: ["Monthly", "Weekly", "Total"],
+      required: true,
+      subCategories: ["Rent", "Sublet", "Roommate"],
+    },
+    {
+      key: "move_in_date",
+      label: "Move-in Date",
+      type: "date",
+      required: true,
+    },
+    {
+      key: "move_out_date",
+      label: "Move-out Date",
+      type: "date",
+      subCategories: ["Sublet"],
+    },
+    {
+      key: "furnished",
+      label: "Furnished",
+      type: "boolean",
+    },
+  ],
+  "Housing Wanted": [
+    {
+      key: "bedrooms",
+      label: "Bedrooms",
+      type: "number",
+      min: 0,
+      max: 20,
+    },
+    {
+      key: "move_in_date",
+      label: "Move-in Date",
+      type: "date",
+      required: true,
+    },
+  ],
+  Jobs: [
+    {
+      key: "pay_rate",
+      label: "Pay Rate",
+      type: "currency",
+      min: 0,
+      required: true,
+    },
+    {
+      key: "pay_period",
+      label: "Pay Period",
+      type: "select",
+      options: PAY_PERIOD_OPTIONS,
+      required: true,
+    },
+    {
+      key: "hours_per_week",
+      label: "Hours per Week",
+      type: "number",
+      min: 0,
+      max: 80,
+    },
+    {
+      key: "work_location",
+      label: "Work Location",
+      type: "select",
+      options: WORK_LOCATION_OPTIONS,
+    },
+  ],
+  "Campus Jobs": [
+    {
+      key: "pay_rate",
+      label: "Pay Rate",
+      type: "currency",
+      min: 0,
+      required: true,
+    },
+    {
+      key: "pay_period",
+      label: "Pay Period",
+      type: "select",
+      options: PAY_PERIOD_OPTIONS,
+      required: true,
+    },
+    {
+      key: "hours_per_week",
+      label: "Hours per Week",
+      type: "number",
+      min: 0,
+      max: 40,
+    },
+    {
+      key: "department",
+      label: "Department",
+      type: "text",
+    },
+  ],
+  Services: [
+    {
+      key: "rate_unit",
+      label: "Priced",
+      type: "select",
+      options: ["Per hour", "Per session", "Flat fee"],
+    },
+  ],
+  Events: [
+    {
+      key: "event_date",
+      label: "Event Date",
+      type: "date",
+      required: true,
+    },
+    {
+      key: "start_time",
+      label: "Start Time",
+      type: "text",
+      placeholder: "e.g. 7:00 PM",
+    },
+    {
+      key: "location",
+      label: "Location",
+      type: "text",
+      placeholder: "Building or address",
+    },
+  ],
+};
+
+/**
+ * Get the attribute definitions that apply to a category/sub category pair
+ */
+export function getAttributeDefinitions(
+  mainCategory: string,
+  subCategory?: string
+): AttributeDefinition[] {
+  const definitions = CATEGORY_ATTRIBUTES[mainCategory as MainCategory] || [];
+
+  return definitions.filter(
+    (definition) =>
+      !definition.subCategories ||
+      !subCategory ||
+      definition.subCategories.includes(subCategory)
+  );
+}
+
+// Treat blank form inputs as "not provided"
+const emptyToUndefined = (value: unknown) =>
+  value === "" || value === null ? undefined : value;
+
+function buildFieldSchema(definition: AttributeDefinition): z.ZodTypeAny {
+  let schema: z.ZodTypeAny;
+
+  switch (definition.type) {
+    case "number":
+    case "currency": {
+      let numberSchema = z.coerce.number({
+        invalid_type_error: `${definition.label} must be a number`,
+      });
+      if (definition.min !== undefined) {
+        numberSchema = numberSchema.min(
+          definition.min,
+          `${definition.label} must be at least ${definition.min}`
+        );
+      }
+      if (definition.max !== undefined) {
+        numberSchema = numberSchema.max(
+          definition.max,
+          `${definition.label} must be at most ${definition.max}`
+        );
+      }
+      schema = numberSchema;
+      break;
+    }
+    case "select":
+      schema = z.enum(definition.options as [string, ...string[]], {
+        errorMap: () => ({ message: `Please select a ${definition.label}` }),
+      });
+      break;
+    case "date":
+      schema = z
+        .string()
+        .regex(/^\d{4}-\d{2}-\d{2}$/, `${definition.label} must be a date`);
+      break;
+    case "boolean":
+      schema = z.boolean();
+      break;
+    default:
+      schema = z.string().trim().max(200);
+  }
+
+  if (!definition.required) {
+    return z.preprocess(emptyToUndefined, schema.optional());
+  }
+
+  return z.preprocess(
+    emptyToUndefined,
+    z
+      .any()
+      .refine((value) => value !== undefined, {
+        message: `${definition.label} is required`,
+      })
+      .pipe(schema)
+  );
+}
+
+/**
+ * Build a zod schema for the attributes of a category/sub category pair
+ */
+export function buildAttributesSchema(
+  mainCategory: string,
+  subCategory?: string
+) {
+  const shape: Record<string, z.ZodTypeAny> = {};
+
+  getAttributeDefinitions(mainCategory, subCategory).forEach((definition) => {
+    shape[definition.key] = buildFieldSchema(definition);
+  });
+
+  return z.object(shape);
+}
+
+/**
+ * Validate raw form values, returning typed attributes or per-field errors
+ */
+export function validateAttributes(
+  mainCategory: string,
+  subCategory: string,
+  values: Record<string, unknown>
+): { data: PostAttributes | null; errors: Record<string, string> } {
+  const result = buildAttributesSchema(mainCategory, subCategory).safeParse(
+    values
+  );
+
+  if (!result.success) {
+    const errors: Record<string, string> = {};
+    result.error.issues.forEach((issue) => {
+      const key = issue.path[0]?.toString();
+      if (key && !errors[key]) {
+        errors[key] = issue.message;
+      }
+    });
+    return { data: null, errors };
+  }
+
+  // Drop attributes that were left blank
+  const data: PostAttributes = {};
+  Object.entries(result.data).forEach(([key, value]) => {
+    if (value !== undefined) {
+      data[key] = value as AttributeValue;
+    }
+  });
+
+  return { data, errors: {} };
+}
+
+/**
+ * Format an attribute value for display
+ */
+export function formatAttributeValue(
+  definition: AttributeDefinition,
+  value: AttributeValue
+): string {
+  switch (definition.type) {
+    case "currency":
+      return formatPrice(Number(value));
+    case "date":
+      // Parse as a local date so it does not shift a day in US timezones
+      return formatDate(`${value}T00:00:00`);
+    case "boolean":
+      return value ? "Yes" : "No";
+    default:
+      return value.toString();
+  }
+}
+
+// Exact match for select/boolean attributes, inclusive range otherwise
+export interface AttributeFilter {
+  eq?: string | boolean;
+  min?: number | string;
+  max?: number | string;
+}
+
+export type AttributeFilters = Record<string, AttributeFilter>;
+
+/**
+ * Attributes that can be filtered on for a category (free text is left to search)
+ */
+export function getFilterableAttributes(
+  mainCategory: string,
+  subCategory?: string
+): AttributeDefinition[] {
+  return getAttributeDefinitions(mainCategory, subCategory).filter(
+    (definition) => definition.type !== "text"
+  );
+}
+
+/**
+ * Whether an attribute is filtered by range rather than exact match
+ */
+export function isRangeAttribute(definition: AttributeDefinition): boolean {
+  return (
+    definition.type === "number" ||
+    definition.type === "currency" ||
+    definition.type === "date"
+  );
+}
+
+/**
+ * Drop attribute filters that have no values set
+ */
+export function cleanAttributeFilters(
+  filters: AttributeFilters
+): AttributeFilters {
+  const cleaned: AttributeFilters = {};
+
+  Object.entries(filters).forEach(([key, filter]) => {
+    const entry: AttributeFilter = {};
+    if (filter.eq !== undefined && filter.eq !== "") entry.eq = filter.eq;
+    if (filter.min !== undefined && filter.min !== "") entry.min = filter.min;
+    if (filter.max !== undefined && filter.max !== "") entry.max = filter.max;
+
+    if (Object.keys(entry).length > 0) {
+      cleaned[key] = entry;
+    }
+  });
+
+  return cleaned;
+}
+
+/**
+ * Format an attribute filter for display, e.g. "Bedrooms: 2 - 4"
+ */
+export function formatAttributeFilter(
+  definition: AttributeDefinition,
+  filter: AttributeFilter
+): string {
+  if (filter.eq !== undefined) {
+    return `${definition.label}: ${formatAttributeValue(
+      definition,
+      filter.eq
+    )}`;
+  }
+
+  const min =
+    filter.min !== undefined
+      ? formatAttributeValue(definition, filter.min)
+      : "";
+  const max =
+    filter.max !== undefined
+      ? formatAttributeValue(definition, filter.max)
+      : "";
+
+  if (min && max) return `${definition.label}: ${min} - ${max}`;
+  if (min) return `${definition.label}: ${min}+`;
+  return `${definition.label}: up to ${max}`;
+}
@@ -0,0 +1,63 @@
+// src/lib/post-expiry.ts
+import { MAIN_CATEGORIES } from "./types";
+
+type MainCategory = (typeof MAIN_CATEGORIES)[number];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// How long a listing stays live before it expires, per main category
+export const CATEGORY_TTL_DAYS: Record<MainCategory, number> = {
+  "Campus Jobs": 30,
+  "For Sale": 60,
+  Jobs: 30,
+  Services: 60,
+  Community: 60,
+  Housing: 30,
+  Personals: 30,
+  // Fallback when an event has no date; dated events expire after the event
+  Events: 30,
+  "Housing Wanted": 30,
+  Resumes: 90,
+};
+
+export const DEFAULT_TTL_DAYS = 30;
+
+// Listings this close to expiry are highlighted for renewal
+export const EXPIRING_SOON_DAYS = 3;
+
+/**
+ * Work out when a listing in the given category should expire.
+ * Events expire at the end of their event day when one is known.
+ */
+export function getPostExpiryDate(
+  mainCategory: string,
+  options: { from?: Date; eventDate?: string } = {}
+): Date {
+  const from = options.from || new Date();
+
+  if (mainCategory === "Events" && options.eventDate) {
+    const eventDay = new Date(options.eventDate);
+    if (!isNaN(eventDay.getTime())) {
+      eventDay.setHours(23, 59, 59, 999);
+      return eventDay;
+    }
+  }
+
+  const ttlDays =
+    CATEGORY_TTL_DAYS[mainCategory as MainCategory] || DEFAULT_TTL_DAYS;
+  return new Date(from.getTime() + ttlDays * DAY_MS);
+}
+
+export function isPostExpired(expiresAt?: string | null): boolean {
+  if (!expiresAt) return false;
+  return new Date(expiresAt).getTime() <= Date.now();
+}
+
+export function isExpiringSoon(
+  expiresAt?: string | null,
+  withinDays = EXPIRING_SOON_DAYS
+): boolean {
+  if (!expiresAt) return false;
+  const remaining = new Date(expiresAt).getTime() - Date.now();
+  return remaining > 0 && remaining <= withinDays * DAY_MS;
+}
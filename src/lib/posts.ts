@@ -1,6 +1,37 @@
 // src/lib/posts.ts
+import { SupabaseClient } from "@supabase/supabase-js";
 import { supabase } from "./supabase";
-import { Post, PostFormData } from "./types";
+import {
+  Database,
+  FlaggedPost,
+  Post,
+  PostAttributes,
+  PostFieldChange,
+  PostPhoto,
+  PostFormData,
+  PostRevision,
+  PostSort,
+  PostStatus,
+  PhotoVariantsMap,
+} from "./types";
+import { getPostExpiryDate, isPostExpired } from "./post-expiry";
+import { AttributeFilters } from "./post-attributes";
+import { getPhotoStoragePath, normalizePost } from "./photo-variants";
+import {
+  PostCursor,
+  PostFacets,
+  PostSearchHighlight,
+  getPostFacets,
+  searchPosts,
+} from "./search";
+import {
+  DUPLICATE_CANDIDATE_STATUSES,
+  DuplicateMatch,
+  duplicateScore,
+  getDuplicateAction,
+  getDuplicateRule,
+} from "./duplicate-detection";
+import { formatDate } from "./utils";
 
 export interface CreatePostData {
   title: string;
@@ -9,12 +40,34 @@ export interface CreatePostData {
   main_category: string;
   sub_category: string;
   campus: string;
-  photos: string[];
+  photos: PostPhoto[];
+  photo_variants?: PhotoVariantsMap;
   seller_id: string;
   seller_name: string;
-  seller_email: string;
+  expires_at?: string;
+  // A future time schedules the post instead of publishing it now
+  publish_at?: string;
+  attributes?: PostAttributes;
 }
 
+// Fields updatePost may change. Lifecycle fields only move through
+// transitionStatus and renewPost, and the database enforces the allowed
+// status transitions.
+export type PostUpdate = Partial<
+  Omit<
+    CreatePostData,
+    "seller_id" | "seller_name" | "price" | "expires_at" | "publish_at"
+  >
+> & { price?: number | null };
+
+// Stripped from updatePost payloads, whatever the caller's type says
+const LIFECYCLE_FIELDS = [
+  "status",
+  "status_changed_at",
+  "expires_at",
+  "publish_at",
+];
+
 export interface PostFilters {
   category?: string;
   subcategory?: string;
@@ -22,17 +75,141 @@ export interface PostFilters {
   minPrice?: number;
   maxPrice?: number;
   search?: string;
+  // Keyed by attribute key from the category's attribute definitions
+  attributes?: AttributeFilters;
+  // Defaults to "active"; pass "all" to include every lifecycle state
+  status?: PostStatus | "all";
+  sort?: PostSort;
+}
+
+// Allowed lifecycle moves, keyed by the current status
+export const POST_STATUS_TRANSITIONS: Record<PostStatus, PostStatus[]> = {
+  scheduled: ["active", "archived"],
+  active: ["reserved", "sold", "expired", "archived"],
+  reserved: ["active", "sold", "archived"],
+  sold: ["active", "archived"],
+  expired: ["active", "archived"],
+  archived: ["active"],
+};
+
+export function canTransitionPostStatus(
+  from: PostStatus,
+  to: PostStatus
+): boolean {
+  return POST_STATUS_TRANSITIONS[from]?.includes(to) ?? false;
+}
+
+// Fill in lifecycle fields for a new post
+function toPostInsert(data: CreatePostData) {
+  const isScheduled =
+    !!data.publish_at && new Date(data.publish_at).getTime() > Date.now();
+
+  return {
+    ...data,
+    status: (isScheduled ? "scheduled" : "active") as PostStatus,
+    publish_at: isScheduled ? data.publish_at : null,
+    // A scheduled post's lifetime starts when it goes live
+    expires_at:
+      data.expires_at ||
+      getPostExpiryDate(data.main_category, {
+        from: isScheduled ? new Date(data.publish_at!) : undefined,
+        eventDate: data.attributes?.event_date as string | undefined,
+      }).toISOString(),
+  };
+}
+
+// When a post going live again should expire: a fresh lifetime, or the
+// end of the event day for dated events. Null for an event that has
+// already happened, which can't go live until its date is changed.
+function getRenewedExpiry(
+  post: Pick<Post, "main_category" | "attributes">
+): string | null {
+  const expiresAt = getPostExpiryDate(post.main_category, {
+    eventDate: post.attributes?.event_date as string | undefined,
+  });
+  return expiresAt.getTime() > Date.now() ? expiresAt.toISOString() : null;
+}
+
+const PAST_EVENT_ERROR =
+  "This event has already taken place. Update its date to renew it.";
+
+// Why a repost of one of the seller's live listings was refused
+export const getRepostBlockedError = ({
+  post,
+  bumpAvailableAt,
+}: DuplicateMatch) =>
+  bumpAvailableAt
+    ? `This looks like a repost of your listing "${
+        post.title
+      }", which was moved to the top recently. You can repost it to bump it again after ${formatDate(
+        bumpAvailableAt
+      )}.`
+    : `This looks like a repost of your listing "${post.title}". Edit or renew that listing instead.`;
+
+// Compare the updated fields against the stored post
+function diffPostFields(
+  before: Post,
+  updates: PostUpdate
+): Record<string, PostFieldChange> {
+  const changes: Record<string, PostFieldChange> = {};
+
+  Object.entries(updates).forEach(([field, to]) => {
+    // Variants are derived from photos, which carry the change already
+    if (field === "photo_variants") return;
+
+    const from = before[field as keyof Post] ?? null;
+    if (JSON.stringify(from) !== JSON.stringify(to ?? null)) {
+      changes[field] = { from, to: to ?? null };
+    }
+  });
+
+  return changes;
 }
 
 export class PostService {
-  // Create a new post
+  // Create a new post. Reposts of the seller's live listings are blocked,
+  // merged into the existing post as a bump, or flagged, depending on the
+  // category's duplicate rule; `duplicate` says which happened.
   static async createPost(
-    data: CreatePostData
-  ): Promise<{ data: Post | null; error: string | null }> {
+    data: CreatePostData,
+    client: SupabaseClient<Database> = supabase
+  ): Promise<{
+    data: Post | null;
+    error: string | null;
+    duplicate?: DuplicateMatch;
+  }> {
     try {
-      const { data: post, error } = await supabase
+      const { data: duplicate, error: duplicateError } =
+        await PostService.findDuplicatePost(data, client);
+
+      // Detection is best effort and never stops a post being created
+      if (duplicateError) {
+        console.error("Error checking for duplicate posts:", duplicateError);
+      }
+
+      if (duplicate?.action === "block") {
+        return {
+          data: null,
+          error: getRepostBlockedError(duplicate),
+          duplicate,
+        };
+      }
+
+      if (duplicate?.action === "bump") {
+        const { data: merged, error: mergeError } =
+          await PostService.mergeRepost(duplicate.post.id, data, client);
+        return { data: merged, error: mergeError, duplicate };
+      }
+
+      const { data: post, error } = await client
         .from("posts")
-        .insert(data)
+        .insert({
+          ...toPostInsert(data),
+          ...(duplicate && {
+            duplicate_of: duplicate.post.id,
+            duplicate_score: duplicate.score,
+          }),
+        })
         .select()
         .single();
 
@@ -40,58 +217,215 @@ export class PostService {
         return { data: null, error: error.message };
       }
 
-      return { data: post, error: null };
+      return { data: post, error: null, duplicate: duplicate || undefined };
     } catch (error) {
       return { data: null, error: "Failed to create post" };
     }
   }
 
-  // Get all posts with optional filters
-  static async getPosts(
-    filters: PostFilters = {}
-  ): Promise<{ data: Post[]; error: string | null }> {
+  // Find the seller's live post in the same category that the new post
+  // most resembles, if it clears the category's duplicate threshold
+  static async findDuplicatePost(
+    data: CreatePostData,
+    client: SupabaseClient<Database> = supabase
+  ): Promise<{ data: DuplicateMatch | null; error: string | null }> {
     try {
-      let query = supabase
+      const rule = getDuplicateRule(data.main_category);
+      const since = new Date(
+        Date.now() - rule.lookbackDays * 24 * 60 * 60 * 1000
+      ).toISOString();
+
+      const { data: candidates, error } = await client
         .from("posts")
         .select("*")
-        .order("created_at", { ascending: false });
+        .eq("seller_id", data.seller_id)
+        .eq("main_category", data.main_category)
+        .in("status", DUPLICATE_CANDIDATE_STATUSES)
+        .gte("created_at", since)
+        .order("created_at", { ascending: false })
+        .limit(100);
 
-      // Apply filters
-      if (filters.category) {
-        query = query.eq("main_category", filters.category);
+      if (error) {
+        return { data: null, error: error.message };
       }
 
-      if (filters.subcategory) {
-        query = query.eq("sub_category", filters.subcategory);
-      }
+      let best: DuplicateMatch | null = null;
+      (candidates || []).map(normalizePost).forEach((candidate: Post) => {
+        const score = duplicateScore(data, candidate);
+        if (score >= rule.threshold && (!best || score > best.score)) {
+          best = {
+            post: candidate,
+            score,
+            ...getDuplicateAction(rule, candidate),
+          };
+        }
+      });
 
-      if (filters.campus) {
-        query = query.eq("campus", filters.campus);
-      }
+      return { data: best, error: null };
+    } catch {
+      return { data: null, error: "Failed to check for duplicate posts" };
+    }
+  }
 
-      if (filters.minPrice) {
-        query = query.gte("price", filters.minPrice);
-      }
+  // Fold a repost into the existing post: its content replaces the old
+  // listing's and the bump moves the post back to the top of the feed
+  private static async mergeRepost(
+    id: string,
+    data: CreatePostData,
+    client: SupabaseClient<Database>
+  ): Promise<{ data: Post | null; error: string | null }> {
+    const { data: updated, error } = await PostService.updatePost(
+      id,
+      {
+        title: data.title,
+        description: data.description,
+        price: data.price ?? null,
+        sub_category: data.sub_category,
+        campus: data.campus,
+        photos: data.photos,
+        photo_variants: data.photo_variants,
+        attributes: data.attributes,
+      },
+      client
+    );
+
+    if (error || !updated) {
+      return { data: null, error: error || "Failed to update post" };
+    }
 
-      if (filters.maxPrice) {
-        query = query.lte("price", filters.maxPrice);
+    const { data: bumped, error: bumpError } = await client
+      .from("posts")
+      .update({ bumped_at: new Date().toISOString() })
+      .eq("id", id)
+      .select()
+      .single();
+
+    if (bumpError) {
+      return { data: null, error: bumpError.message };
+    }
+
+    return { data: bumped, error: null };
+  }
+
+  // Create several posts in one insert, so either all or none are saved.
+  // Reposts are checked as in createPost, but can't be merged into the
+  // existing post without breaking all-or-nothing: a blocked repost fails
+  // the whole batch, and bumps are flagged instead. `duplicates` lines up
+  // with `posts`.
+  static async createPosts(
+    posts: CreatePostData[],
+    client: SupabaseClient<Database> = supabase
+  ): Promise<{
+    data: Post[];
+    error: string | null;
+    duplicates?: (DuplicateMatch | null)[];
+  }> {
+    try {
+      const checks = await Promise.all(
+        posts.map((post) => PostService.findDuplicatePost(post, client))
+      );
+
+      // Detection is best effort, as for single posts
+      const duplicates = checks.map(({ data: duplicate, error }) => {
+        if (error) {
+          console.error("Error checking for duplicate posts:", error);
+        }
+        return duplicate;
+      });
+
+      const blocked = duplicates.find(
+        (duplicate) => duplicate?.action === "block"
+      );
+      if (blocked) {
+        return {
+          data: [],
+          error: getRepostBlockedError(blocked),
+          duplicates,
+        };
       }
 
-      if (filters.search) {
-        query = query.or(
-          `title.ilike.%${filters.search}%,description.ilike.%${filters.search}%`
-        );
+      const { data, error } = await client
+        .from("posts")
+        .insert(
+          posts.map((post, index) => {
+            const duplicate = duplicates[index];
+            return {
+              ...toPostInsert(post),
+              ...(duplicate && {
+                duplicate_of: duplicate.post.id,
+                duplicate_score: duplicate.score,
+              }),
+            };
+          })
+        )
+        .select();
+
+      if (error) {
+        return { data: [], error: error.message, duplicates };
       }
 
-      const { data, error } = await query;
+      return { data: data || [], error: null, duplicates };
+    } catch {
+      return { data: [], error: "Failed to create posts" };
+    }
+  }
+
+  // Get all posts with optional filters
+  // Pass a limit to page through the results; nextCursor is then the
+  // cursor for the following page, or null once there are no more
+  static async getPosts(
+    filters: PostFilters = {},
+    { limit, cursor }: { limit?: number; cursor?: PostCursor | null } = {}
+  ): Promise<{
+    data: Post[];
+    // Highlighted title and snippet per post id, when searching
+    highlights: Record<string, PostSearchHighlight>;
+    nextCursor: PostCursor | null;
+    error: string | null;
+  }> {
+    // Search results are ordered by relevance unless a sort is chosen,
+    // everything else newest first
+    const { data, error } = await searchPosts(filters.search || "", filters, {
+      limit,
+      cursor,
+    });
+
+    if (error) {
+      return { data: [], highlights: {}, nextCursor: null, error };
+    }
+
+    const highlights: Record<string, PostSearchHighlight> = {};
+    if (filters.search) {
+      data.forEach(({ post, highlight }) => {
+        highlights[post.id] = highlight;
+      });
+    }
+
+    return {
+      data: data.map(({ post }) => post),
+      highlights,
+      nextCursor:
+        limit && data.length === limit ? data[data.length - 1].cursor : null,
+      error: null,
+    };
+  }
+
+  // Count a visit to a post for the "most viewed" sort
+  static async recordView(
+    postId: string
+  ): Promise<{ success: boolean; error: string | null }> {
+    try {
+      const { error } = await supabase.rpc("record_post_view", {
+        target_post_id: postId,
+      });
 
       if (error) {
-        return { data: [], error: error.message };
+        return { success: false, error: error.message };
       }
 
-      return { data: data || [], error: null };
-    } catch (error) {
-      return { data: [], error: "Failed to fetch posts" };
+      return { success: true, error: null };
+    } catch {
+      return { success: false, error: "Failed to record view" };
     }
   }
 
@@ -110,7 +444,7 @@ export class PostService {
         return { data: null, error: error.message };
       }
 
-      return { data, error: null };
+      return { data: normalizePost(data), error: null };
     } catch (error) {
       return { data: null, error: "Failed to fetch post" };
     }
@@ -118,10 +452,11 @@ export class PostService {
 
   // Get posts by seller ID
   static async getPostsBySeller(
-    sellerId: string
+    sellerId: string,
+    client: SupabaseClient<Database> = supabase
   ): Promise<{ data: Post[]; error: string | null }> {
     try {
-      const { data, error } = await supabase
+      const { data, error } = await client
         .from("posts")
         .select("*")
         .eq("seller_id", sellerId)
@@ -131,21 +466,53 @@ export class PostService {
         return { data: [], error: error.message };
       }
 
-      return { data: data || [], error: null };
+      return { data: (data || []).map(normalizePost), error: null };
     } catch (error) {
       return { data: [], error: "Failed to fetch seller posts" };
     }
   }
 
-  // Update a post
+  // Update a post. The database records what changed as an immutable
+  // revision in the same transaction (see record_post_revision).
   static async updatePost(
     id: string,
-    updates: Partial<CreatePostData>
+    fields: PostUpdate,
+    client: SupabaseClient<Database> = supabase
   ): Promise<{ data: Post | null; error: string | null }> {
+    const updates: PostUpdate = { ...fields };
+    LIFECYCLE_FIELDS.forEach(
+      (field) => delete (updates as Record<string, unknown>)[field]
+    );
+
     try {
-      const { data, error } = await supabase
+      const { data: stored, error: fetchError } = await client
         .from("posts")
-        .update(updates)
+        .select("*")
+        .eq("id", id)
+        .single();
+
+      if (fetchError || !stored) {
+        return { data: null, error: fetchError?.message || "Post not found" };
+      }
+
+      const current = normalizePost(stored);
+      const changes = diffPostFields(current, updates);
+      if (Object.keys(changes).length === 0) {
+        return { data: current, error: null };
+      }
+
+      // Remember the old price while it's been lowered, clear it otherwise
+      const priceUpdates: Partial<Post> = {};
+      if (changes.price) {
+        const from = current.price ?? null;
+        const to = updates.price ?? null;
+        priceUpdates.previous_price =
+          from !== null && to !== null && to < from ? from : null;
+      }
+
+      const { data, error } = await client
+        .from("posts")
+        .update({ ...updates, ...priceUpdates })
         .eq("id", id)
         .select()
         .single();
@@ -154,12 +521,186 @@ export class PostService {
         return { data: null, error: error.message };
       }
 
-      return { data, error: null };
-    } catch (error) {
+      return { data: normalizePost(data), error: null };
+    } catch {
       return { data: null, error: "Failed to update post" };
     }
   }
 
+  // Posts flagged as possible reposts and still up, newest first, for
+  // moderators
+  static async getFlaggedPosts(
+    client: SupabaseClient<Database> = supabase
+  ): Promise<{ data: FlaggedPost[]; error: string | null }> {
+    try {
+      const { data, error } = await client
+        .from("posts")
+        .select(
+          "*, original:posts!posts_duplicate_of_fkey(id, title, status, created_at)"
+        )
+        .not("duplicate_of", "is", null)
+        .neq("status", "archived")
+        .order("created_at", { ascending: false });
+
+      if (error) {
+        return { data: [], error: error.message };
+      }
+
+      return {
+        data: ((data || []) as FlaggedPost[]).map(normalizePost),
+        error: null,
+      };
+    } catch {
+      return { data: [], error: "Failed to fetch flagged posts" };
+    }
+  }
+
+  // Get the change history of a post, newest first
+  static async getPostRevisions(
+    postId: string,
+    client: SupabaseClient<Database> = supabase
+  ): Promise<{ data: PostRevision[]; error: string | null }> {
+    try {
+      const { data, error } = await client
+        .from("post_revisions")
+        .select("*")
+        .eq("post_id", postId)
+        .order("created_at", { ascending: false });
+
+      if (error) {
+        return { data: [], error: error.message };
+      }
+
+      return { data: data || [], error: null };
+    } catch {
+      return { data: [], error: "Failed to fetch post revisions" };
+    }
+  }
+
+  // Move a post to a new lifecycle status, enforcing allowed transitions
+  static async transitionStatus(
+    id: string,
+    to: PostStatus,
+    client: SupabaseClient<Database> = supabase
+  ): Promise<{ data: Post | null; error: string | null }> {
+    try {
+      const { data: current, error: fetchError } = await client
+        .from("posts")
+        .select("status, main_category, expires_at, attributes")
+        .eq("id", id)
+        .single();
+
+      if (fetchError || !current) {
+        return { data: null, error: fetchError?.message || "Post not found" };
+      }
+
+      const from = (current.status || "active") as PostStatus;
+      if (!canTransitionPostStatus(from, to)) {
+        return {
+          data: null,
+          error: `Cannot change a ${from} post to ${to}`,
+        };
+      }
+
+      const updates: Partial<Post> = {
+        status: to,
+        status_changed_at: new Date().toISOString(),
+      };
+
+      // Going live again restarts the clock if the old expiry has passed
+      if (
+        to === "active" &&
+        (!current.expires_at || isPostExpired(current.expires_at))
+      ) {
+        const expiresAt = getRenewedExpiry(current);
+        if (!expiresAt) {
+          return { data: null, error: PAST_EVENT_ERROR };
+        }
+        updates.expires_at = expiresAt;
+      }
+
+      const { data, error } = await client
+        .from("posts")
+        .update(updates)
+        .eq("id", id)
+        .select()
+        .single();
+
+      if (error) {
+        return { data: null, error: error.message };
+      }
+
+      return { data: normalizePost(data), error: null };
+    } catch {
+      return { data: null, error: "Failed to update post status" };
+    }
+  }
+
+  static async markReserved(id: string, client?: SupabaseClient<Database>) {
+    return this.transitionStatus(id, "reserved", client);
+  }
+
+  static async markSold(id: string, client?: SupabaseClient<Database>) {
+    return this.transitionStatus(id, "sold", client);
+  }
+
+  static async archive(id: string, client?: SupabaseClient<Database>) {
+    return this.transitionStatus(id, "archived", client);
+  }
+
+  static async relist(id: string, client?: SupabaseClient<Database>) {
+    return this.transitionStatus(id, "active", client);
+  }
+
+  // Extend an active listing, or bring an expired one back to the feed
+  static async renewPost(
+    id: string,
+    client: SupabaseClient<Database> = supabase
+  ): Promise<{ data: Post | null; error: string | null }> {
+    try {
+      const { data: current, error: fetchError } = await client
+        .from("posts")
+        .select("status, main_category, attributes")
+        .eq("id", id)
+        .single();
+
+      if (fetchError || !current) {
+        return { data: null, error: fetchError?.message || "Post not found" };
+      }
+
+      if (current.status === "expired") {
+        return this.transitionStatus(id, "active", client);
+      }
+
+      if (current.status !== "active") {
+        return {
+          data: null,
+          error: `Only active or expired posts can be renewed`,
+        };
+      }
+
+      const expiresAt = getRenewedExpiry(current);
+      if (!expiresAt) {
+        return { data: null, error: PAST_EVENT_ERROR };
+      }
+
+      const { data, error } = await client
+        .from("posts")
+        .update({ expires_at: expiresAt })
+        .eq("id", id)
+        .select()
+        .single();
+
+      if (error) {
+        return { data: null, error: error.message };
+      }
+
+      return { data: normalizePost(data), error: null };
+    } catch {
+      return { data: null, error: "Failed to renew post" };
+    }
+  }
+
   // Delete a post
   static async deletePost(
     id: string
@@ -177,53 +718,64 @@ export class PostService {
     }
   }
 
-  // Upload photos to Supabase Storage
-  static async uploadPhotos(
-    photos: File[],
-    userId: string
-  ): Promise<{ urls: string[]; error: string | null }> {
+  // Upload photos through the server-side image pipeline
+  static async uploadPhotos(photos: File[]): Promise<{
+    urls: string[];
+    variants: PhotoVariantsMap;
+    error: string | null;
+  }> {
     try {
-      const uploadPromises = photos.map(async (photo, index) => {
-        const fileName = `${userId}_${Date.now()}_${index}.${photo.name
-          .split(".")
-          .pop()}`;
-
-        const { error: uploadError } = await supabase.storage
-          .from("post-photos")
-          .upload(fileName, photo, {
-            cacheControl: "3600",
-            upsert: false,
-          });
-
-        if (uploadError) {
-          throw uploadError;
-        }
+      const {
+        data: { session },
+      } = await supabase.auth.getSession();
 
-        const { data } = supabase.storage
-          .from("post-photos")
-          .getPublicUrl(fileName);
+      if (!session) {
+        return { urls: [], variants: {}, error: "No active session" };
+      }
+
+      const body = new FormData();
+      photos.forEach((photo) => body.append("photos", photo));
 
-        return data.publicUrl;
+      // Photos are resized and stripped of EXIF data on the server
+      const response = await fetch("/api/posts/photos", {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${session.access_token}`,
+        },
+        body,
       });
 
-      const urls = await Promise.all(uploadPromises);
-      return { urls, error: null };
+      const result = await response.json();
+
+      if (!response.ok) {
+        return {
+          urls: [],
+          variants: {},
+          error: result.error || "Failed to upload photos",
+        };
+      }
+
+      return { urls: result.urls, variants: result.variants, error: null };
     } catch (error) {
-      return { urls: [], error: "Failed to upload photos" };
+      return { urls: [], variants: {}, error: "Failed to upload photos" };
     }
   }
 
   // Delete photos from Supabase Storage
   static async deletePhotos(
-    photoUrls: string[]
+    photoUrls: string[],
+    client: SupabaseClient<Database> = supabase
   ): Promise<{ success: boolean; error: string | null }> {
     try {
-      const filePaths = photoUrls.map((url) => {
-        const urlParts = url.split("/");
-        return urlParts[urlParts.length - 1];
-      });
+      const filePaths = photoUrls
+        .map(getPhotoStoragePath)
+        .filter((path): path is string => !!path);
 
-      const { error } = await supabase.storage
+      if (filePaths.length === 0) {
+        return { success: true, error: null };
+      }
+
+      const { error } = await client.storage
         .from("post-photos")
         .remove(filePaths);
 
@@ -237,42 +789,25 @@ export class PostService {
     }
   }
 
-  // Get posts count by category
-  static async getPostsCountByCategory(): Promise<{
-    data: Record<string, number>;
-    error: string | null;
-  }> {
-    try {
-      const { data, error } = await supabase
-        .from("posts")
-        .select("main_category")
-        .not("main_category", "is", null);
-
-      if (error) {
-        return { data: {}, error: error.message };
-      }
-
-      const counts = data.reduce((acc, post) => {
-        acc[post.main_category] = (acc[post.main_category] || 0) + 1;
-        return acc;
-      }, {} as Record<string, number>);
-
-      return { data: counts, error: null };
-    } catch (error) {
-      return { data: {}, error: "Failed to get category counts" };
-    }
+  // Result counts for each sidebar option under the current filters
+  static async getFacets(
+    filters: PostFilters = {}
+  ): Promise<{ data: PostFacets | null; error: string | null }> {
+    return getPostFacets(filters.search || "", filters);
   }
+
   static async getPostsByCategory(category: string, limit = 5) {
     try {
       const { data, error } = await supabase
         .from("posts")
         .select("*")
         .eq("main_category", category)
+        .eq("status", "active")
         .order("created_at", { ascending: false })
         .limit(limit);
 
       if (error) throw error;
-      return { data, error: null };
+      return { data: (data || []).map(normalizePost), error: null };
     } catch (error) {
       return {
         data: [],
@@ -286,11 +821,12 @@ export class PostService {
       const { data, error } = await supabase
         .from("posts")
         .select("*")
+        .eq("status", "active")
         .order("created_at", { ascending: false })
         .limit(limit);
 
       if (error) throw error;
-      return { data, error: null };
+      return { data: (data || []).map(normalizePost), error: null };
     } catch (error) {
       return {
         data: [],
@@ -0,0 +1,478 @@
+// src/lib/query-parser.ts
+import { CAMPUS_LIST, MAIN_CATEGORIES, SUB_CATEGORIES } from "./types";
+import type { PostFilters } from "./posts";
+import { formatFilterValue } from "./filterUtils";
+
+export const CATEGORY_SYNONYMS: { [key: string]: string } = {
+  // Housing
+  "housing options": "Housing",
+  "housing listings": "Housing",
+  "places to live": "Housing",
+  apartments: "Housing",
+  dorms: "Housing",
+  rooms: "Housing",
+  roommate: "Housing",
+  sublet: "Housing",
+  rentals: "Housing",
+  "student housing": "Housing",
+  // For Sale
+  "items for sale": "For Sale",
+  "things for sale": "For Sale",
+  "stuff for sale": "For Sale",
+  marketplace: "For Sale",
+  // Recent/Latest For Sale
+  "most recent items posted for sale": "For Sale",
+  "recent items": "For Sale",
+  "latest items": "For Sale",
+  "recent for sale": "For Sale",
+  "recently posted items": "For Sale",
+  "recent posts": "For Sale",
+  "recent listings": "For Sale",
+  "latest for sale": "For Sale",
+  // Campus Jobs
+  "campus jobs": "Campus Jobs",
+  "available campus jobs": "Campus Jobs",
+  "what campus jobs are available": "Campus Jobs",
+  "student jobs": "Campus Jobs",
+  "on-campus jobs": "Campus Jobs",
+  "on campus jobs": "Campus Jobs",
+  // Jobs
+  job: "Jobs",
+  jobs: "Jobs",
+  work: "Jobs",
+  employment: "Jobs",
+  // Services
+  tutoring: "Services",
+  cleaning: "Services",
+  moving: "Services",
+  "tech support": "Services",
+  // Community
+  "study group": "Community",
+  club: "Community",
+  volunteer: "Community",
+  // Personals
+  friend: "Personals",
+  romance: "Personals",
+  // Events
+  event: "Events",
+  events: "Events",
+  // Housing Wanted
+  "need housing": "Housing Wanted",
+  "looking for housing": "Housing Wanted",
+  // Resumes
+  resume: "Resumes",
+  resumes: "Resumes",
+};
+
+// Map common keywords to categories/subcategories
+export const KEYWORD_CATEGORY_MAP: Record<
+  string,
+  { category: string; subcategory?: string }
+> = {
+  jobs: { category: "Campus Jobs" },
+  job: { category: "Campus Jobs" },
+  employment: { category: "Campus Jobs" },
+  phone: { category: "For Sale", subcategory: "Electronics" },
+  phones: { category: "For Sale", subcategory: "Electronics" },
+  laptop: { category: "For Sale", subcategory: "Electronics" },
+  laptops: { category: "For Sale", subcategory: "Electronics" },
+  electronic: { category: "For Sale", subcategory: "Electronics" },
+  electronics: { category: "For Sale", subcategory: "Electronics" },
+  house: { category: "Housing" },
+  houses: { category: "Housing" },
+  home: { category: "Housing" },
+  homes: { category: "Housing" },
+  apartment: { category: "Housing" },
+  apartments: { category: "Housing" },
+  bike: { category: "For Sale", subcategory: "Sports" },
+  bikes: { category: "For Sale", subcategory: "Sports" },
+  bicycle: { category: "For Sale", subcategory: "Sports" },
+  furniture: { category: "For Sale", subcategory: "Furniture" },
+  textbook: { category: "For Sale", subcategory: "Books" },
+  textbooks: { category: "For Sale", subcategory: "Books" },
+  book: { category: "For Sale", subcategory: "Books" },
+  books: { category: "For Sale", subcategory: "Books" },
+  roommate: { category: "Housing", subcategory: "Roommate" },
+  sublet: { category: "Housing", subcategory: "Sublet" },
+  room: { category: "Housing", subcategory: "Roommate" },
+  rooms: { category: "Housing", subcategory: "Roommate" },
+  // add more as needed
+};
+
+// Short names people type for each campus, besides the full name
+export const CAMPUS_ALIASES: Record<(typeof CAMPUS_LIST)[number], string[]> = {
+  "University of California, Los Angeles": ["ucla", "uc los angeles"],
+  "Stanford University": ["stanford"],
+  "Harvard University": ["harvard"],
+  "Massachusetts Institute of Technology": ["mit"],
+  "University of California, Berkeley": ["uc berkeley", "ucb", "berkeley"],
+  "Yale University": ["yale"],
+  "Princeton University": ["princeton"],
+  "Columbia University": ["columbia"],
+  "University of Chicago": ["uchicago", "uchi"],
+  "University of Pennsylvania": ["upenn", "penn"],
+};
+
+export function levenshtein(a: string, b: string): number {
+  const matrix = Array.from({ length: a.length + 1 }, () =>
+    new Array(b.length + 1).fill(0)
+  );
+  for (let i = 0; i <= a.length; i++) matrix[i][0] = i;
+  for (let j = 0; j <= b.length; j++) matrix[0][j] = j;
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      matrix[i][j] = Math.min(
+        matrix[i - 1][j] + 1,
+        matrix[i][j - 1] + 1,
+        matrix[i - 1][j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+  }
+  return matrix[a.length][b.length];
+}
+
+export function fuzzyMatch(
+  word: string,
+  options: string[],
+  maxDistance = 2
+): string | null {
+  let best: { match: string; dist: number } | null = null;
+  for (const opt of options) {
+    const dist = levenshtein(word.toLowerCase(), opt.toLowerCase());
+    if (dist <= maxDistance && (!best || dist < best.dist)) {
+      best = { match: opt, dist };
+    }
+  }
+  return best ? best.match : null;
+}
+
+// Filters a query can set, other than the leftover keywords
+export type ParsedFilterKey =
+  | "category"
+  | "subcategory"
+  | "campus"
+  | "minPrice"
+  | "maxPrice";
+
+export interface ParsedQueryChip {
+  key: ParsedFilterKey;
+  value: string | number;
+  label: string;
+}
+
+export interface ParsedSearchQuery {
+  filters: Pick<PostFilters, ParsedFilterKey | "search">;
+  // One per filter taken from the text, in the order they were found
+  chips: ParsedQueryChip[];
+}
+
+const AMOUNT = String.raw`(\$\s*)?(\d[\d,]*(?:\.\d+)?)(k)?(\s*(?:dollars|bucks|usd))?`;
+
+// Numbers followed by one of these are quantities, not prices
+const NON_PRICE_UNITS =
+  /^\s*(?:%|years?|yrs?|months?|mos?|weeks?|days?|hours?|hrs?|miles?|mi|km|lbs?|kg|inch(?:es)?|in|ft|feet|gb|tb|mb|people|bedrooms?|beds?|br|baths?|ba)\b/i;
+
+const MAX_PRICE_WORDS = String.raw`under|below|less than|cheaper than|max(?:imum)?|up to|at most|no more than|<=?`;
+const MIN_PRICE_WORDS = String.raw`over|above|more than|at least|min(?:imum)?|from|>=?`;
+
+// Intent and connective words that mean nothing once filters are pulled out
+const FILLER_WORDS = new Set([
+  "a",
+  "an",
+  "the",
+  "at",
+  "in",
+  "near",
+  "around",
+  "on",
+  "for",
+  "and",
+  "or",
+  "with",
+  "looking",
+  "find",
+  "show",
+  "me",
+  "i",
+  "im",
+  "i'm",
+  "want",
+  "need",
+  "search",
+  "searching",
+  "any",
+  "some",
+]);
+
+// Subcategory names too generic to imply a category on their own
+const VAGUE_SUBCATEGORIES = ["Other", "General", "Sale", "Social"];
+
+const escapeRegExp = (text: string) =>
+  text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// Whole-word pattern that treats spaces and hyphens alike
+const phrasePattern = (phrase: string, suffix = "") =>
+  new RegExp(
+    String.raw`(^|[^a-z0-9])(${phrase
+      .toLowerCase()
+      .split(/[\s-]+/)
+      .map(escapeRegExp)
+      .join(String.raw`[\s-]+`)}${suffix})(?=$|[^a-z0-9])`,
+    "i"
+  );
+
+const parseAmount = (digits: string, thousands?: string): number => {
+  const amount = parseFloat(digits.replace(/,/g, ""));
+  return thousands ? amount * 1000 : amount;
+};
+
+// "tutoring" means Services > Tutoring and "roommate" Housing > Roommate
+const synonymSubcategory = (
+  phrase: string,
+  category: string
+): string | undefined => {
+  const mapped = KEYWORD_CATEGORY_MAP[phrase];
+  if (mapped?.category === category && mapped.subcategory) {
+    return mapped.subcategory;
+  }
+  return (
+    SUB_CATEGORIES[category as keyof typeof SUB_CATEGORIES] as
+      | readonly string[]
+      | undefined
+  )?.find((subcategory) => subcategory.toLowerCase() === phrase);
+};
+
+// The longest option first, so "campus jobs" wins over "jobs"
+const byLengthDesc = (a: string, b: string) => b.length - a.length;
+
+/**
+ * Turn free text like "mini fridge under $50 at berkeley" into filters:
+ * price bounds, campus, category and subcategory are pulled out, and
+ * whatever is left becomes the keyword search. Deterministic; no LLM.
+ */
+export function parseSearchQuery(text: string): ParsedSearchQuery {
+  const filters: ParsedSearchQuery["filters"] = {};
+  const chips: ParsedQueryChip[] = [];
+  let rest = ` ${text} `;
+
+  const addChip = (key: ParsedFilterKey, value: string | number) => {
+    (filters as Record<ParsedFilterKey, string | number>)[key] = value;
+    chips.push({
+      key,
+      value,
+      label:
+        typeof value === "number"
+          ? formatFilterValue(key, value)
+          : value.toString(),
+    });
+  };
+
+  // Blank out a matched span so later passes don't see it again
+  const consume = (match: RegExpExecArray, group = 0) => {
+    const start = match.index + match[0].indexOf(match[group]);
+    rest =
+      rest.slice(0, start) +
+      " ".repeat(match[group].length) +
+      rest.slice(start + match[group].length);
+  };
+
+  const isPrice = (
+    match: RegExpExecArray,
+    dollarGroup: number,
+    currencyGroup: number
+  ) =>
+    !!match[dollarGroup] ||
+    !!match[currencyGroup] ||
+    !NON_PRICE_UNITS.test(rest.slice(match.index + match[0].length));
+
+  // Price ranges: "$20-$50", "$20 to 50", "between 20 and 50 dollars"
+  const range = new RegExp(
+    String.raw`(?:between\s+)?${AMOUNT}\s*(?:-|–|to|and)\s*${AMOUNT}`,
+    "i"
+  ).exec(rest);
+  if (
+    range &&
+    (range[1] || range[4] || range[5] || range[8] || /^between/i.test(range[0]))
+  ) {
+    addChip("minPrice", parseAmount(range[2], range[3]));
+    addChip("maxPrice", parseAmount(range[6], range[7]));
+    consume(range);
+  }
+
+  // Upper and lower bounds: "under $50", "at least 20 bucks"
+  const bounds: [ParsedFilterKey, string][] = [
+    ["maxPrice", MAX_PRICE_WORDS],
+    ["minPrice", MIN_PRICE_WORDS],
+  ];
+  bounds.forEach(([key, words]) => {
+    if (filters[key] !== undefined) return;
+    const match = new RegExp(
+      String.raw`(?:^|\s)(?:${words})\s*${AMOUNT}`,
+      "i"
+    ).exec(rest);
+    // "from" only counts as a price with a currency, e.g. "from $20"
+    if (
+      match &&
+      isPrice(match, 1, 4) &&
+      (!/^\s*from/i.test(match[0]) || match[1] || match[4])
+    ) {
+      addChip(key, parseAmount(match[2], match[3]));
+      consume(match);
+    }
+  });
+
+  // Campus: full names and aliases, optionally introduced by "at"/"near"
+  const campusOptions = CAMPUS_LIST.flatMap((campus) =>
+    [campus, ...CAMPUS_ALIASES[campus]].map((alias) => ({ alias, campus }))
+  ).sort((a, b) => byLengthDesc(a.alias, b.alias));
+
+  for (const { alias, campus } of campusOptions) {
+    const match = phrasePattern(alias).exec(rest);
+    if (!match) continue;
+
+    addChip("campus", campus);
+    consume(match, 2);
+    break;
+  }
+
+  // Misspelled campus after "at", e.g. "at berkely"
+  if (!filters.campus) {
+    const match = /\b(?:at|near)\s+([a-z]{5,})\b/i.exec(rest);
+    const singleWordAliases = campusOptions.filter(
+      ({ alias }) => !/\s/.test(alias) && alias.length >= 5
+    );
+    const corrected =
+      match &&
+      fuzzyMatch(
+        match[1],
+        singleWordAliases.map(({ alias }) => alias),
+        1
+      );
+    if (match && corrected) {
+      addChip(
+        "campus",
+        singleWordAliases.find(({ alias }) => alias === corrected)!.campus
+      );
+      consume(match);
+    }
+  }
+
+  // Category names and synonyms are consumed; item keywords like "bike"
+  // set the category but stay in the search
+  const categoryOptions: {
+    phrase: string;
+    category: string;
+    subcategory?: string;
+    keep: boolean;
+  }[] = [
+    ...MAIN_CATEGORIES.map((category) => ({
+      phrase: category,
+      category,
+      keep: false,
+    })),
+    ...Object.entries(CATEGORY_SYNONYMS).map(([phrase, category]) => ({
+      phrase,
+      category,
+      subcategory: synonymSubcategory(phrase, category),
+      keep: false,
+    })),
+    ...Object.entries(KEYWORD_CATEGORY_MAP).map(([phrase, mapping]) => ({
+      phrase,
+      ...mapping,
+      keep: true,
+    })),
+  ].sort((a, b) => byLengthDesc(a.phrase, b.phrase));
+
+  for (const option of categoryOptions) {
+    const match = phrasePattern(option.phrase).exec(rest);
+    if (!match) continue;
+
+    addChip("category", option.category);
+    if (option.subcategory) addChip("subcategory", option.subcategory);
+    if (!option.keep) consume(match, 2);
+    break;
+  }
+
+  // Subcategory names, e.g. "part-time" or "internships". Without a
+  // category only names that belong to a single category count.
+  if (!filters.subcategory) {
+    const subcategoryOptions = Object.entries(SUB_CATEGORIES)
+      .filter(
+        ([category]) => !filters.category || category === filters.category
+      )
+      .flatMap(([category, subcategories]) =>
+        (subcategories as readonly string[]).map((subcategory) => ({
+          category,
+          subcategory,
+        }))
+      )
+      .filter(
+        ({ subcategory }, _, options) =>
+          filters.category ||
+          options.filter((option) => option.subcategory === subcategory)
+            .length === 1
+      )
+      .filter(
+        ({ subcategory }) =>
+          filters.category || !VAGUE_SUBCATEGORIES.includes(subcategory)
+      )
+      .sort((a, b) => byLengthDesc(a.subcategory, b.subcategory));
+
+    for (const { category, subcategory } of subcategoryOptions) {
+      const match = phrasePattern(subcategory, "s?").exec(rest);
+      if (!match) continue;
+
+      if (!filters.category) addChip("category", category);
+      addChip("subcategory", subcategory);
+      consume(match, 2);
+      break;
+    }
+  }
+
+  // Typos in category names and keywords, e.g. "electornics"
+  let words = rest.split(/\s+/).filter(Boolean);
+  if (!filters.category) {
+    const names = [
+      ...MAIN_CATEGORIES,
+      ...Object.values(SUB_CATEGORIES).flat(),
+      ...Object.keys(KEYWORD_CATEGORY_MAP),
+    ];
+
+    for (let i = 0; i < words.length; i++) {
+      const word = words[i].toLowerCase();
+      if (word.length < 5 || !/^[a-z]+$/.test(word)) continue;
+
+      const corrected = fuzzyMatch(word, names, word.length >= 8 ? 2 : 1);
+      if (!corrected) continue;
+
+      const mapping = KEYWORD_CATEGORY_MAP[corrected];
+      const parent = Object.entries(SUB_CATEGORIES).find(([, subs]) =>
+        (subs as readonly string[]).includes(corrected)
+      )?.[0];
+
+      if (mapping) {
+        addChip("category", mapping.category);
+        if (mapping.subcategory) addChip("subcategory", mapping.subcategory);
+        // Search for the word they meant
+        words[i] = corrected;
+      } else if ((MAIN_CATEGORIES as readonly string[]).includes(corrected)) {
+        addChip("category", corrected);
+        words.splice(i, 1);
+      } else if (parent) {
+        addChip("category", parent);
+        addChip("subcategory", corrected);
+        words.splice(i, 1);
+      }
+      break;
+    }
+  }
+
+  words = words.filter(
+    (word) => !FILLER_WORDS.has(word.toLowerCase()) && /[a-z0-9]/i.test(word)
+  );
+  if (words.length > 0) {
+    filters.search = words.join(" ");
+  }
+
+  return { filters, chips };
+}
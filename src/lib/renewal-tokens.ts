@@ -0,0 +1,34 @@
+// src/lib/renewal-tokens.ts
+import "server-only";
+import { createHmac, timingSafeEqual } from "crypto";
+
+function getSecret(): string {
+  const secret = process.env.POST_RENEWAL_SECRET;
+  if (!secret) {
+    throw new Error("POST_RENEWAL_SECRET is not set in environment variables");
+  }
+  return secret;
+}
+
+/**
+ * Sign a one-click renewal link for a post. The token is bound to the
+ * post's current expiry, so it stops working once the post is renewed.
+ */
+export function createRenewalToken(postId: string, expiresAt: string): string {
+  return createHmac("sha256", getSecret())
+    .update(`${postId}:${new Date(expiresAt).toISOString()}`)
+    .digest("hex");
+}
+
+export function verifyRenewalToken(
+  postId: string,
+  expiresAt: string,
+  token: string
+): boolean {
+  const expected = Buffer.from(createRenewalToken(postId, expiresAt), "hex");
+  const received = Buffer.from(token, "hex");
+
+  return (
+    expected.length === received.length && timingSafeEqual(expected, received)
+  );
+}
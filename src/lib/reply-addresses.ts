@@ -0,0 +1,184 @@
+// src/lib/reply-addresses.ts
+import "server-only";
+import { randomBytes } from "crypto";
+import { SupabaseClient } from "@supabase/supabase-js";
+import { Database, MessageReplyToken } from "./types";
+
+// reply+<token>@<INBOUND_EMAIL_DOMAIN>
+const REPLY_ADDRESS_PATTERN = /^reply\+([a-f0-9]{32})@(.+)$/i;
+
+export interface ReplyConversation {
+  postId: string;
+  // The person replying, and the person their reply goes to
+  userId: string;
+  counterpartId: string;
+}
+
+function getInboundDomain(): string | null {
+  return process.env.INBOUND_EMAIL_DOMAIN?.toLowerCase() || null;
+}
+
+// Inbound email is only accepted when a domain is configured
+export function isReplyByEmailEnabled(): boolean {
+  return !!getInboundDomain();
+}
+
+export function formatReplyAddress(token: string): string {
+  return `reply+${token}@${getInboundDomain()}`;
+}
+
+/**
+ * The token in a reply address, or null when the address isn't one of
+ * ours. Accepts a bare address or a "Name <address>" header value.
+ */
+export function parseReplyAddress(address: string): string | null {
+  const bare = address.match(/<([^>]+)>/)?.[1] ?? address;
+  const match = bare.trim().match(REPLY_ADDRESS_PATTERN);
+
+  if (!match || match[2].toLowerCase() !== getInboundDomain()) {
+    return null;
+  }
+
+  return match[1].toLowerCase();
+}
+
+/**
+ * The token for one side of a conversation, created on first use. The
+ * same person always gets the same address for the same conversation,
+ * so check revoked_at before handing it out.
+ */
+export async function getReplyToken(
+  { postId, userId, counterpartId }: ReplyConversation,
+  client: SupabaseClient<Database>
+): Promise<{ data: MessageReplyToken | null; error: string | null }> {
+  const findToken = () =>
+    client
+      .from("message_reply_tokens")
+      .select("*")
+      .eq("post_id", postId)
+      .eq("user_id", userId)
+      .eq("counterpart_id", counterpartId)
+      .maybeSingle();
+
+  try {
+    const { data: existing, error: findError } = await findToken();
+    if (findError) {
+      return { data: null, error: findError.message };
+    }
+    if (existing) {
+      return { data: existing, error: null };
+    }
+
+    const { data: created, error: insertError } = await client
+      .from("message_reply_tokens")
+      .insert({
+        token: randomBytes(16).toString("hex"),
+        post_id: postId,
+        user_id: userId,
+        counterpart_id: counterpartId,
+      })
+      .select()
+      .single();
+
+    if (!insertError) {
+      return { data: created, error: null };
+    }
+
+    // Another message in the same conversation created it first
+    if (insertError.code === "23505") {
+      const { data, error } = await findToken();
+      return { data, error: error?.message ?? null };
+    }
+
+    return { data: null, error: insertError.message };
+  } catch {
+    return { data: null, error: "Failed to create reply address" };
+  }
+}
+
+// The address a notification email should be replied to, or none when
+// inbound email is off or the alias has been revoked
+export function getReplyToAddress(
+  token: MessageReplyToken | null
+): string | undefined {
+  return token && !token.revoked_at && isReplyByEmailEnabled()
+    ? formatReplyAddress(token.token)
+    : undefined;
+}
+
+/**
+ * Stop someone contacting the user about a post: their alias for the user
+ * stops accepting email, and the database rejects their messages.
+ */
+export async function revokeReplyToken(
+  conversation: ReplyConversation,
+  client: SupabaseClient<Database>
+): Promise<{ success: boolean; error: string | null }> {
+  const { data: token, error } = await getReplyToken(conversation, client);
+  if (error || !token) {
+    return { success: false, error: error || "Failed to revoke alias" };
+  }
+  if (token.revoked_at) {
+    return { success: true, error: null };
+  }
+
+  try {
+    const { error: updateError } = await client
+      .from("message_reply_tokens")
+      .update({ revoked_at: new Date().toISOString() })
+      .eq("token", token.token);
+
+    if (updateError) {
+      return { success: false, error: updateError.message };
+    }
+
+    return { success: true, error: null };
+  } catch {
+    return { success: false, error: "Failed to revoke alias" };
+  }
+}
+
+// Whether the counterpart has stopped this person contacting them
+export async function isContactRevoked(
+  { postId, userId, counterpartId }: ReplyConversation,
+  client: SupabaseClient<Database>
+): Promise<{ data: boolean; error: string | null }> {
+  try {
+    const { data, error } = await client
+      .from("message_reply_tokens")
+      .select("revoked_at")
+      .eq("post_id", postId)
+      .eq("user_id", userId)
+      .eq("counterpart_id", counterpartId)
+      .maybeSingle();
+
+    if (error) {
+      return { data: false, error: error.message };
+    }
+
+    return { data: !!data?.revoked_at, error: null };
+  } catch {
+    return { data: false, error: "Failed to check alias" };
+  }
+}
+
+export async function resolveReplyToken(
+  token: string,
+  client: SupabaseClient<Database>
+): Promise<{ data: MessageReplyToken | null; error: string | null }> {
+  try {
+    const { data, error } = await client
+      .from("message_reply_tokens")
+      .select("*")
+      .eq("token", token)
+      .maybeSingle();
+
+    if (error) {
+      return { data: null, error: error.message };
+    }
+
+    return { data, error: null };
+  } catch {
+    return { data: null, error: "Failed to look up reply address" };
+  }
+}
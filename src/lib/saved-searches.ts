@@ -0,0 +1,245 @@
+// src/lib/saved-searches.ts
+import { SupabaseClient } from "@supabase/supabase-js";
+import { supabase } from "./supabase";
+import { cleanFilters } from "./filterUtils";
+import type { PostFilters } from "./posts";
+import { searchPosts } from "./search";
+import { Database, Post, SavedSearch, SavedSearchFrequency } from "./types";
+
+export const SAVED_SEARCH_NAME_MAX_LENGTH = 80;
+
+// Compare attribute values the way Postgres compares the jsonb values:
+// numbers numerically, everything else (e.g. ISO dates) as text
+const compareAttribute = (value: unknown, bound: number | string): number => {
+  if (typeof value === "number" && typeof bound === "number") {
+    return value - bound;
+  }
+  return String(value).localeCompare(String(bound));
+};
+
+/**
+ * Whether a post passes the sidebar filters (category, campus, price and
+ * attributes), checked the same way search_posts does. The search text
+ * isn't checked here: that needs the database's full-text search, see
+ * findSavedSearchMatches.
+ */
+export function postMatchesFilters(post: Post, filters: PostFilters): boolean {
+  if (filters.category && post.main_category !== filters.category) {
+    return false;
+  }
+
+  if (filters.subcategory && post.sub_category !== filters.subcategory) {
+    return false;
+  }
+
+  if (filters.campus && post.campus !== filters.campus) {
+    return false;
+  }
+
+  if (
+    filters.minPrice &&
+    (post.price == null || post.price < filters.minPrice)
+  ) {
+    return false;
+  }
+
+  if (
+    filters.maxPrice &&
+    (post.price == null || post.price > filters.maxPrice)
+  ) {
+    return false;
+  }
+
+  return Object.entries(filters.attributes || {}).every(([key, filter]) => {
+    const value = post.attributes?.[key];
+    if (value === undefined || value === null || value === "") return false;
+
+    if (filter.eq !== undefined && String(value) !== filter.eq.toString()) {
+      return false;
+    }
+    if (filter.min !== undefined && compareAttribute(value, filter.min) < 0) {
+      return false;
+    }
+    if (filter.max !== undefined && compareAttribute(value, filter.max) > 0) {
+      return false;
+    }
+    return true;
+  });
+}
+
+/**
+ * The posts, of those given, that a saved search would show: the same
+ * search PostService.getPosts runs, limited to these posts. The status
+ * filter is ignored; saved searches only ever match posts as they go
+ * live. Posts failing the sidebar filters are dropped before asking the
+ * database.
+ */
+export async function findSavedSearchMatches(
+  search: SavedSearch,
+  posts: Post[],
+  client: SupabaseClient<Database> = supabase
+): Promise<{ data: Post[]; error: string | null }> {
+  const filters = search.filters || {};
+  const candidates = posts.filter((post) => postMatchesFilters(post, filters));
+
+  if (candidates.length === 0 || !filters.search?.trim()) {
+    return { data: candidates, error: null };
+  }
+
+  const { data, error } = await searchPosts(
+    filters.search,
+    { ...filters, status: "active" },
+    { postIds: candidates.map((post) => post.id), client }
+  );
+
+  if (error) {
+    return { data: [], error };
+  }
+
+  const matchedIds = new Set(data.map(({ post }) => post.id));
+  return {
+    data: candidates.filter((post) => matchedIds.has(post.id)),
+    error: null,
+  };
+}
+
+export class SavedSearchService {
+  // Get a user's saved searches, newest first
+  static async getSavedSearches(
+    userId: string
+  ): Promise<{ data: SavedSearch[]; error: string | null }> {
+    try {
+      const { data, error } = await supabase
+        .from("saved_searches")
+        .select("*")
+        .eq("user_id", userId)
+        .order("created_at", { ascending: false });
+
+      if (error) {
+        return { data: [], error: error.message };
+      }
+
+      return { data: data || [], error: null };
+    } catch {
+      return { data: [], error: "Failed to fetch saved searches" };
+    }
+  }
+
+  static async createSavedSearch(
+    userId: string,
+    name: string,
+    filters: PostFilters,
+    frequency: SavedSearchFrequency
+  ): Promise<{ data: SavedSearch | null; error: string | null }> {
+    const trimmedName = name.trim();
+    if (!trimmedName) {
+      return { data: null, error: "Give your search a name" };
+    }
+    if (trimmedName.length > SAVED_SEARCH_NAME_MAX_LENGTH) {
+      return {
+        data: null,
+        error: `Names can be at most ${SAVED_SEARCH_NAME_MAX_LENGTH} characters`,
+      };
+    }
+
+    // Alerts are about new listings, so the status filter doesn't apply
+    const savedFilters = cleanFilters(filters);
+    delete savedFilters.status;
+
+    try {
+      const { data, error } = await supabase
+        .from("saved_searches")
+        .insert({
+          user_id: userId,
+          name: trimmedName,
+          filters: savedFilters,
+          frequency,
+        })
+        .select()
+        .single();
+
+      if (error) {
+        return { data: null, error: error.message };
+      }
+
+      return { data, error: null };
+    } catch {
+      return { data: null, error: "Failed to save search" };
+    }
+  }
+
+  static async updateFrequency(
+    id: string,
+    frequency: SavedSearchFrequency
+  ): Promise<{ success: boolean; error: string | null }> {
+    try {
+      const { error } = await supabase
+        .from("saved_searches")
+        .update({ frequency })
+        .eq("id", id);
+
+      if (error) {
+        return { success: false, error: error.message };
+      }
+
+      return { success: true, error: null };
+    } catch {
+      return { success: false, error: "Failed to update saved search" };
+    }
+  }
+
+  static async deleteSavedSearch(
+    id: string
+  ): Promise<{ success: boolean; error: string | null }> {
+    try {
+      const { error } = await supabase
+        .from("saved_searches")
+        .delete()
+        .eq("id", id);
+
+      if (error) {
+        return { success: false, error: error.message };
+      }
+
+      return { success: true, error: null };
+    } catch {
+      return { success: false, error: "Failed to delete saved search" };
+    }
+  }
+
+  // Ask the server to match a post the user just published against
+  // everyone's saved searches. Other users' searches aren't readable
+  // from the browser, so the matching happens there.
+  static async matchPost(
+    postId: string
+  ): Promise<{ success: boolean; error: string | null }> {
+    try {
+      const {
+        data: { session },
+      } = await supabase.auth.getSession();
+
+      if (!session) {
+        return { success: false, error: "No active session" };
+      }
+
+      const response = await fetch(`/api/posts/${postId}/match-searches`, {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${session.access_token}`,
+        },
+      });
+
+      if (!response.ok) {
+        const result = await response.json();
+        return {
+          success: false,
+          error: result.error || "Failed to match saved searches",
+        };
+      }
+
+      return { success: true, error: null };
+    } catch {
+      return { success: false, error: "Failed to match saved searches" };
+    }
+  }
+}
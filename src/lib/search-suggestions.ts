@@ -0,0 +1,194 @@
+// src/lib/search-suggestions.ts
+import { SupabaseClient } from "@supabase/supabase-js";
+import { supabase } from "./supabase";
+import { CAMPUS_ALIASES } from "./query-parser";
+import { formatPrice } from "./utils";
+import {
+  CAMPUS_LIST,
+  Database,
+  MAIN_CATEGORIES,
+  SUB_CATEGORIES,
+} from "./types";
+
+export const SUGGESTION_MIN_QUERY_LENGTH = 2;
+
+// Past queries are only suggested once this many searches have used them,
+// so one person's search isn't shown to everyone else
+const POPULAR_QUERY_MIN_COUNT = 3;
+
+const MAX_PER_TYPE = 3;
+const MAX_LISTINGS = 5;
+
+export type SearchSuggestionType =
+  | "category"
+  | "subcategory"
+  | "campus"
+  | "query"
+  | "listing";
+
+export interface SearchSuggestion {
+  type: SearchSuggestionType;
+  label: string;
+  // Secondary text, e.g. the parent category or a listing's price
+  detail?: string;
+  // Text to put in the search box when picked; the query parser turns
+  // category and campus names back into filters
+  query?: string;
+  // Listings open the post instead
+  postId?: string;
+}
+
+// Escape LIKE wildcards so the query is matched literally
+const escapeLike = (text: string) => text.replace(/[\\%_]/g, "\\$&");
+
+// "elec" matches "Electronics" and "sup" matches "Tech Support"
+const matchesPrefix = (name: string, query: string) =>
+  name
+    .toLowerCase()
+    .split(/[\s,-]+/)
+    .some((word, i, words) => words.slice(i).join(" ").startsWith(query));
+
+export class SearchSuggestionService {
+  /**
+   * Suggestions for a partly typed query: categories, subcategories and
+   * campuses whose names match, popular past searches starting with it,
+   * and the most viewed active listings with it in the title.
+   */
+  static async getSuggestions(
+    query: string,
+    client: SupabaseClient<Database> = supabase
+  ): Promise<{ data: SearchSuggestion[]; error: string | null }> {
+    const normalized = query.trim().toLowerCase().replace(/\s+/g, " ");
+    if (normalized.length < SUGGESTION_MIN_QUERY_LENGTH) {
+      return { data: [], error: null };
+    }
+
+    const categories: SearchSuggestion[] = MAIN_CATEGORIES.filter((category) =>
+      matchesPrefix(category, normalized)
+    )
+      .slice(0, MAX_PER_TYPE)
+      .map((category) => ({
+        type: "category",
+        label: category,
+        query: category,
+      }));
+
+    const subcategories: SearchSuggestion[] = Object.entries(SUB_CATEGORIES)
+      .flatMap(([category, subs]) =>
+        (subs as readonly string[])
+          .filter((subcategory) => matchesPrefix(subcategory, normalized))
+          .map((subcategory) => ({
+            type: "subcategory" as const,
+            label: subcategory,
+            detail: category,
+            // Names like "Internship" exist in several categories, so
+            // name the category too
+            query: `${subcategory} ${category}`,
+          }))
+      )
+      .slice(0, MAX_PER_TYPE);
+
+    const campuses: SearchSuggestion[] = CAMPUS_LIST.filter((campus) =>
+      [campus, ...CAMPUS_ALIASES[campus]].some((name) =>
+        matchesPrefix(name, normalized)
+      )
+    )
+      .slice(0, MAX_PER_TYPE)
+      .map((campus) => ({ type: "campus", label: campus, query: campus }));
+
+    try {
+      const [queriesResult, listingsResult] = await Promise.all([
+        client
+          .from("search_queries")
+          .select("query")
+          .like("query", `${escapeLike(normalized)}%`)
+          .neq("query", normalized)
+          .gte("search_count", POPULAR_QUERY_MIN_COUNT)
+          .order("search_count", { ascending: false })
+          .limit(MAX_PER_TYPE),
+        client
+          .from("posts")
+          .select("id, title, price")
+          .eq("status", "active")
+          .ilike("title", `%${escapeLike(normalized)}%`)
+          .order("view_count", { ascending: false })
+          .limit(MAX_LISTINGS),
+      ]);
+
+      const error = queriesResult.error || listingsResult.error;
+      if (error) {
+        return { data: [], error: error.message };
+      }
+
+      const queries: SearchSuggestion[] = (queriesResult.data || []).map(
+        (row) => ({ type: "query", label: row.query, query: row.query })
+      );
+
+      const listings: SearchSuggestion[] = (listingsResult.data || []).map(
+        (post) => ({
+          type: "listing",
+          label: post.title,
+          detail: post.price != null ? formatPrice(post.price) : undefined,
+          postId: post.id,
+        })
+      );
+
+      return {
+        data: [
+          ...categories,
+          ...subcategories,
+          ...campuses,
+          ...queries,
+          ...listings,
+        ],
+        error: null,
+      };
+    } catch {
+      return { data: [], error: "Failed to fetch suggestions" };
+    }
+  }
+
+  // Client-side: suggestions from the API route as the user types
+  static async fetchSuggestions(
+    query: string,
+    signal?: AbortSignal
+  ): Promise<{ data: SearchSuggestion[]; error: string | null }> {
+    try {
+      const response = await fetch(
+        `/api/search/suggest?q=${encodeURIComponent(query)}`,
+        { signal }
+      );
+      const result = await response.json();
+
+      if (!response.ok) {
+        return {
+          data: [],
+          error: result.error || "Failed to fetch suggestions",
+        };
+      }
+
+      return { data: result.suggestions, error: null };
+    } catch {
+      return { data: [], error: "Failed to fetch suggestions" };
+    }
+  }
+
+  // Count a search the user settled on, so it can be suggested to others
+  static async recordQuery(
+    query: string
+  ): Promise<{ success: boolean; error: string | null }> {
+    try {
+      const { error } = await supabase.rpc("record_search_query", {
+        search_text: query,
+      });
+
+      if (error) {
+        return { success: false, error: error.message };
+      }
+
+      return { success: true, error: null };
+    } catch {
+      return { success: false, error: "Failed to record search" };
+    }
+  }
+}
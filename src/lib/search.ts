@@ -0,0 +1,216 @@
+// src/lib/search.ts
+import { SupabaseClient } from "@supabase/supabase-js";
+import { supabase } from "./supabase";
+import type { PostFilters } from "./posts";
+import { Database, Post } from "./types";
+import { normalizePost } from "./photo-variants";
+
+// The search_posts function wraps matched terms in these markers
+export const HIGHLIGHT_START = "{{";
+export const HIGHLIGHT_END = "}}";
+
+export interface PostSearchHighlight {
+  // Title and description excerpt with matches wrapped in the markers
+  title: string;
+  snippet: string;
+}
+
+// Position of a row in a sorted result set, for fetching the next page
+export interface PostCursor {
+  // The sort column as returned by search_posts (numeric, as text)
+  key: string;
+  id: string;
+}
+
+export interface PostSearchResult {
+  post: Post;
+  rank: number;
+  highlight: PostSearchHighlight;
+  cursor: PostCursor;
+}
+
+export interface HighlightSegment {
+  text: string;
+  highlighted: boolean;
+}
+
+// A price range for the sidebar; either bound may be open
+export interface PriceRange {
+  min?: number | null;
+  max?: number | null;
+}
+
+export const PRICE_BUCKETS: PriceRange[] = [
+  { max: 25 },
+  { min: 25, max: 50 },
+  { min: 50, max: 100 },
+  { min: 100, max: 250 },
+  { min: 250, max: 500 },
+  { min: 500 },
+];
+
+export interface PostFacets {
+  // Results with every filter applied
+  total: number;
+  categories: Record<string, number>;
+  // Keyed by category, then subcategory
+  subcategories: Record<string, Record<string, number>>;
+  campuses: Record<string, number>;
+  priceBuckets: (PriceRange & { count: number })[];
+}
+
+interface PostFacetsRow {
+  total: number;
+  categories: Record<string, number>;
+  subcategories: Record<string, Record<string, number>>;
+  campuses: Record<string, number>;
+  price_buckets: (PriceRange & { count: number })[];
+}
+
+interface SearchPostsRow {
+  post: Post;
+  rank: number;
+  title_highlight: string;
+  snippet: string;
+  sort_key: string;
+}
+
+/**
+ * Full-text search over posts, ranked by relevance (title matches weigh
+ * more than description, then category, then campus) and filtered like
+ * the sidebar. Any user input is accepted as the query; an empty query
+ * returns the filtered posts newest first. filters.sort overrides the
+ * order, and results after a cursor can be fetched a page at a time.
+ */
+export async function searchPosts(
+  query: string,
+  filters: PostFilters = {},
+  {
+    limit,
+    cursor,
+    postIds,
+    client = supabase,
+  }: {
+    limit?: number;
+    cursor?: PostCursor | null;
+    // Only search among these posts
+    postIds?: string[];
+    client?: SupabaseClient<Database>;
+  } = {}
+): Promise<{ data: PostSearchResult[]; error: string | null }> {
+  try {
+    const { data, error } = await client.rpc("search_posts", {
+      search_query: query.trim(),
+      filter_category: filters.category || null,
+      filter_subcategory: filters.subcategory || null,
+      filter_campus: filters.campus || null,
+      min_price: filters.minPrice || null,
+      max_price: filters.maxPrice || null,
+      filter_status: filters.status || "active",
+      filter_attributes: filters.attributes || {},
+      sort_mode: filters.sort || null,
+      cursor_key: cursor?.key ?? null,
+      cursor_id: cursor?.id ?? null,
+      result_limit: limit ?? null,
+      filter_post_ids: postIds ?? null,
+    });
+
+    if (error) {
+      return { data: [], error: error.message };
+    }
+
+    return {
+      data: ((data || []) as SearchPostsRow[]).map((row) => ({
+        post: normalizePost(row.post),
+        rank: row.rank,
+        highlight: { title: row.title_highlight, snippet: row.snippet },
+        cursor: { key: row.sort_key, id: row.post.id },
+      })),
+      error: null,
+    };
+  } catch {
+    return { data: [], error: "Failed to search posts" };
+  }
+}
+
+/**
+ * How many results each sidebar option would give: counts per category,
+ * subcategory, campus and price bucket, each with the other filters
+ * applied but not its own. One query, matching searchPosts' filtering.
+ */
+export async function getPostFacets(
+  query: string,
+  filters: PostFilters = {},
+  {
+    priceBuckets = PRICE_BUCKETS,
+    client = supabase,
+  }: {
+    priceBuckets?: PriceRange[];
+    client?: SupabaseClient<Database>;
+  } = {}
+): Promise<{ data: PostFacets | null; error: string | null }> {
+  try {
+    const { data, error } = await client.rpc("post_facets", {
+      search_query: query.trim(),
+      filter_category: filters.category || null,
+      filter_subcategory: filters.subcategory || null,
+      filter_campus: filters.campus || null,
+      min_price: filters.minPrice || null,
+      max_price: filters.maxPrice || null,
+      filter_status: filters.status || "active",
+      filter_attributes: filters.attributes || {},
+      price_buckets: priceBuckets,
+    });
+
+    if (error) {
+      return { data: null, error: error.message };
+    }
+
+    const row = data as PostFacetsRow;
+    return {
+      data: {
+        total: row.total,
+        categories: row.categories,
+        subcategories: row.subcategories,
+        campuses: row.campuses,
+        priceBuckets: row.price_buckets,
+      },
+      error: null,
+    };
+  } catch {
+    return { data: null, error: "Failed to load filter counts" };
+  }
+}
+
+/**
+ * Split highlighted text into plain and matched segments, so matches can
+ * be rendered as elements without injecting HTML
+ */
+export function splitHighlights(text: string): HighlightSegment[] {
+  const segments: HighlightSegment[] = [];
+  let rest = text;
+
+  while (rest) {
+    const start = rest.indexOf(HIGHLIGHT_START);
+    const end =
+      start === -1
+        ? -1
+        : rest.indexOf(HIGHLIGHT_END, start + HIGHLIGHT_START.length);
+
+    if (start === -1 || end === -1) {
+      segments.push({ text: rest, highlighted: false });
+      break;
+    }
+
+    if (start > 0) {
+      segments.push({ text: rest.slice(0, start), highlighted: false });
+    }
+    segments.push({
+      text: rest.slice(start + HIGHLIGHT_START.length, end),
+      highlighted: true,
+    });
+    rest = rest.slice(end + HIGHLIGHT_END.length);
+  }
+
+  return segments;
+}
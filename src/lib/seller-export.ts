@@ -0,0 +1,180 @@
+// src/lib/seller-export.ts
+import "server-only";
+import Papa from "papaparse";
+import { SupabaseClient } from "@supabase/supabase-js";
+import { PostService } from "@/lib/posts";
+import { getUserTransactions } from "@/lib/payments";
+import { Database, PostRevision, TransactionWithDetails } from "@/lib/types";
+
+export type ExportFormat = "csv" | "json";
+
+const TRANSACTION_PAGE_SIZE = 500;
+
+export interface PriceHistoryEntry {
+  price: number | null;
+  changed_at: string;
+}
+
+export interface SaleRecord {
+  transaction_id: string;
+  status: string;
+  // Dollars, converted from the cents stored on transactions
+  amount: number;
+  platform_fee: number;
+  seller_amount: number;
+  currency: string;
+  created_at: string;
+}
+
+export interface ListingExportRecord {
+  id: string;
+  title: string;
+  description: string;
+  status: string;
+  main_category: string;
+  sub_category: string;
+  campus: string;
+  price: number | null;
+  price_history: PriceHistoryEntry[];
+  photos: string[];
+  created_at: string;
+  expires_at: string | null;
+  sales: SaleRecord[];
+}
+
+// Rebuild the price timeline from the post's revisions
+function buildPriceHistory(
+  createdAt: string,
+  currentPrice: number | null,
+  revisions: PostRevision[]
+): PriceHistoryEntry[] {
+  const priceChanges = revisions
+    .filter((revision) => revision.changes.price)
+    .sort((a, b) => a.created_at.localeCompare(b.created_at));
+
+  const originalPrice = priceChanges.length
+    ? (priceChanges[0].changes.price.from as number | null)
+    : currentPrice;
+
+  return [
+    { price: originalPrice, changed_at: createdAt },
+    ...priceChanges.map((revision) => ({
+      price: revision.changes.price.to as number | null,
+      changed_at: revision.created_at,
+    })),
+  ];
+}
+
+async function getAllSellerTransactions(
+  sellerId: string,
+  client: SupabaseClient<Database>
+): Promise<TransactionWithDetails[]> {
+  const transactions: TransactionWithDetails[] = [];
+
+  for (let offset = 0; ; offset += TRANSACTION_PAGE_SIZE) {
+    const page = await getUserTransactions(
+      sellerId,
+      "seller",
+      TRANSACTION_PAGE_SIZE,
+      offset,
+      client
+    );
+    transactions.push(...page);
+    if (page.length < TRANSACTION_PAGE_SIZE) break;
+  }
+
+  return transactions;
+}
+
+/**
+ * Collect a seller's listings with their price history and sales
+ */
+export async function buildSellerExport(
+  sellerId: string,
+  client: SupabaseClient<Database>
+): Promise<{ data: ListingExportRecord[]; error: string | null }> {
+  const { data: posts, error } = await PostService.getPostsBySeller(
+    sellerId,
+    client
+  );
+
+  if (error) {
+    return { data: [], error };
+  }
+
+  const postIds = posts.map((post) => post.id);
+  const [{ data: revisions }, transactions] = await Promise.all([
+    postIds.length
+      ? client.from("post_revisions").select("*").in("post_id", postIds)
+      : Promise.resolve({ data: [] as PostRevision[] }),
+    getAllSellerTransactions(sellerId, client),
+  ]);
+
+  const records = posts.map((post) => ({
+    id: post.id,
+    title: post.title,
+    description: post.description,
+    status: post.status,
+    main_category: post.main_category,
+    sub_category: post.sub_category,
+    campus: post.campus,
+    price: post.price ?? null,
+    price_history: buildPriceHistory(
+      post.created_at,
+      post.price ?? null,
+      (revisions || []).filter(
+        (revision: PostRevision) => revision.post_id === post.id
+      )
+    ),
+    photos: (post.photos || []).map((photo) => photo.url),
+    created_at: post.created_at,
+    expires_at: post.expires_at || null,
+    sales: transactions
+      .filter((transaction) => transaction.post_id === post.id)
+      .map((transaction) => ({
+        transaction_id: transaction.id,
+        status: transaction.status,
+        amount: transaction.amount / 100,
+        platform_fee: transaction.platform_fee / 100,
+        seller_amount: transaction.seller_amount / 100,
+        currency: transaction.currency,
+        created_at: transaction.created_at,
+      })),
+  }));
+
+  return { data: records, error: null };
+}
+
+/**
+ * Flatten export records into CSV, one row per listing. Multi-valued
+ * fields are joined with "; " and the latest sale gets its own columns.
+ */
+export function exportToCsv(records: ListingExportRecord[]): string {
+  return Papa.unparse(
+    records.map((record) => {
+      const latestSale = record.sales[0];
+
+      return {
+        id: record.id,
+        title: record.title,
+        description: record.description,
+        status: record.status,
+        main_category: record.main_category,
+        sub_category: record.sub_category,
+        campus: record.campus,
+        price: record.price ?? "",
+        price_history: record.price_history
+          .map((entry) => `${entry.changed_at}: ${entry.price ?? "none"}`)
+          .join("; "),
+        photos: record.photos.join("; "),
+        created_at: record.created_at,
+        expires_at: record.expires_at ?? "",
+        sale_status: latestSale?.status ?? "",
+        sale_amount: latestSale?.amount ?? "",
+        platform_fee: latestSale?.platform_fee ?? "",
+        seller_amount: latestSale?.seller_amount ?? "",
+        sold_at: latestSale?.created_at ?? "",
+      };
+    })
+  );
+}
@@ -1,8 +1,18 @@
 // src/lib/stripe/checkout.ts
 import { stripe, calculatePlatformFee, calculateSellerAmount } from "./client";
 import { createClient } from "@/lib/supabase";
-import { PostWithStripe } from "@/lib/types";
+import { Database, PostWithStripe } from "@/lib/types";
+import { SupabaseClient } from "@supabase/supabase-js";
 import Stripe from "stripe";
+import { normalizePostPhotos } from "@/lib/photo-variants";
+
+// Stripe accepts max 8 images; the cover photo comes first
+const MAX_PRODUCT_IMAGES = 8;
+
+const getProductImages = (post: PostWithStripe): string[] =>
+  normalizePostPhotos(post.photos)
+    .slice(0, MAX_PRODUCT_IMAGES)
+    .map((photo) => photo.url);
 
 /**
  * Create a Stripe product and price for a post
@@ -16,7 +26,7 @@ export async function createStripeProduct(
     const product = await stripe.products.create({
       name: post.title,
       description: post.description || undefined,
-      images: post.photos?.slice(0, 8), // Stripe accepts max 8 images
+      images: getProductImages(post),
       metadata: {
         post_id: post.id,
         seller_id: post.seller_id,
@@ -52,6 +62,73 @@ export async function createStripeProduct(
   }
 }
 
+/**
+ * Keep a post's Stripe product and price in sync after the seller edits it.
+ * Stripe prices are immutable, so a price change creates a new price and
+ * archives the old one.
+ */
+export async function syncStripeProduct(
+  post: PostWithStripe,
+  previous: PostWithStripe,
+  supabase: SupabaseClient<Database> = createClient()
+): Promise<{ priceId: string | null }> {
+  if (!post.stripe_product_id) {
+    return { priceId: post.stripe_price_id || null };
+  }
+
+  try {
+    if (
+      post.title !== previous.title ||
+      post.description !== previous.description ||
+      getProductImages(post).join() !== getProductImages(previous).join()
+    ) {
+      await stripe.products.update(post.stripe_product_id, {
+        name: post.title,
+        description: post.description || undefined,
+        images: getProductImages(post),
+      });
+    }
+
+    if (post.price === previous.price && post.stripe_price_id) {
+      return { priceId: post.stripe_price_id };
+    }
+
+    const price = await stripe.prices.create({
+      product: post.stripe_product_id,
+      unit_amount: Math.round((post.price || 0) * 100), // Convert to cents
+      currency: "usd",
+      metadata: {
+        post_id: post.id,
+      },
+    });
+
+    await stripe.products.update(post.stripe_product_id, {
+      default_price: price.id,
+    });
+
+    if (post.stripe_price_id) {
+      await stripe.prices.update(post.stripe_price_id, { active: false });
+    }
+
+    await supabase
+      .from("posts")
+      .update({ stripe_price_id: price.id })
+      .eq("id", post.id);
+
+    return { priceId: price.id };
+  } catch (error) {
+    console.error("Error syncing Stripe product:", error);
+
+    // Drop the stale IDs so checkout recreates the product from the post
+    await supabase
+      .from("posts")
+      .update({ stripe_product_id: null, stripe_price_id: null })
+      .eq("id", post.id);
+
+    return { priceId: null };
+  }
+}
+
 /**
  * Create a checkout session for a post purchase
  */
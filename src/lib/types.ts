@@ -1,4 +1,6 @@
 // src/lib/types.ts
+import type { PostFilters } from "./posts";
+
 export interface Profile {
   id: string;
   email: string;
@@ -29,14 +31,108 @@ export interface Post {
   main_category: string;
   sub_category: string;
   campus: string;
-  photos: string[];
+  // In display order; the first photo is the cover
+  photos: PostPhoto[];
+  // Resized copies of each photo, keyed by photo URL
+  photo_variants?: PhotoVariantsMap | null;
   seller_id: string;
   seller_name: string;
-  seller_email: string;
+  status: PostStatus;
+  status_changed_at?: string;
+  // When a scheduled post goes live
+  publish_at?: string | null;
+  expires_at?: string;
+  attributes?: PostAttributes;
+  // Set when the price is lowered, for "price dropped" badges
+  previous_price?: number | null;
+  // Set when a repost was merged into this post instead of being created
+  bumped_at?: string | null;
+  // Set when the post was flagged as a likely repost of another post
+  duplicate_of?: string | null;
+  duplicate_score?: number | null;
+  view_count?: number;
   created_at: string;
   updated_at: string;
 }
 
+export interface PostPhoto {
+  url: string;
+  caption?: string;
+  // Describes the photo for screen readers; falls back to the post title
+  alt?: string;
+}
+
+export type PhotoSize = "thumb" | "medium" | "large";
+
+export interface PhotoVariants {
+  // Public URL per size; "large" is the photo's own URL
+  sizes: Record<PhotoSize, string>;
+  blurhash: string;
+  // 64-bit perceptual (difference) hash as hex, used to spot reposts
+  hash?: string;
+  width: number;
+  height: number;
+}
+
+export type PhotoVariantsMap = Record<string, PhotoVariants>;
+
+// Category-specific values, keyed by the definitions in post-attributes.ts
+export type AttributeValue = string | number | boolean;
+
+export type PostAttributes = Record<string, AttributeValue>;
+
+export type PostStatus =
+  | "scheduled"
+  | "active"
+  | "reserved"
+  | "sold"
+  | "expired"
+  | "archived";
+
+export const POST_STATUSES: readonly PostStatus[] = [
+  "scheduled",
+  "active",
+  "reserved",
+  "sold",
+  "expired",
+  "archived",
+] as const;
+
+// Listing feed orders; without one, searches sort by relevance and
+// everything else newest first
+export const POST_SORTS = [
+  "newest",
+  "price_asc",
+  "price_desc",
+  "most_viewed",
+  "ending_soon",
+] as const;
+
+export type PostSort = (typeof POST_SORTS)[number];
+
+export const POST_SORT_LABELS: Record<PostSort, string> = {
+  newest: "Newest",
+  price_asc: "Price: low to high",
+  price_desc: "Price: high to low",
+  most_viewed: "Most viewed",
+  ending_soon: "Ending soon",
+};
+
+export const POST_STATUS_LABELS: Record<PostStatus, string> = {
+  scheduled: "Scheduled",
+  active: "Active",
+  reserved: "Reserved",
+  sold: "Sold",
+  expired: "Expired",
+  archived: "Archived",
+};
+
+// A photo in the post wizard: either already stored, or a new upload
+// previewed through an object URL
+export interface PostFormPhoto extends PostPhoto {
+  file?: File;
+}
+
 export interface PostFormData {
   title: string;
   description: string;
@@ -44,30 +140,160 @@ export interface PostFormData {
   main_category: string;
   sub_category: string;
   campus: string;
-  photos: File[];
+  photos: PostFormPhoto[];
+  // Variants of stored photos, carried along until the post is saved
+  photo_variants: PhotoVariantsMap;
+  // Raw wizard input, validated into PostAttributes on submit
+  attributes: Record<string, string | boolean>;
+  // Local datetime-input value; empty publishes immediately
+  publish_at?: string;
+}
+
+// Wizard state as persisted in a draft; new photos are uploaded before saving
+export interface PostDraftData extends Omit<PostFormData, "photos"> {
+  photos: PostPhoto[];
+}
+
+export interface PostDraft {
+  id: string;
+  user_id: string;
+  data: PostDraftData;
+  // Wizard step key the user was on when the draft was saved
+  current_step: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface Favorite {
+  id: string;
+  user_id: string;
+  post_id: string;
+  // The post's price and status when the user last heard about it, so
+  // price drops and sales are only notified once
+  notified_price: number | null;
+  notified_status: PostStatus | null;
+  created_at: string;
+}
+
+export interface FavoriteWithPost extends Favorite {
+  post: Post;
+}
+
+// A post flagged as a possible repost, with the listing it resembles
+export interface FlaggedPost extends Post {
+  original: Pick<Post, "id" | "title" | "status" | "created_at"> | null;
+}
+
+// instant: email as soon as a matching post goes live
+// daily: collect matches into one digest email a day
+export const SAVED_SEARCH_FREQUENCIES = ["instant", "daily"] as const;
+
+export type SavedSearchFrequency = (typeof SAVED_SEARCH_FREQUENCIES)[number];
+
+export interface SavedSearch {
+  id: string;
+  user_id: string;
+  name: string;
+  filters: PostFilters;
+  frequency: SavedSearchFrequency;
+  created_at: string;
+}
+
+// A post that matched a saved search; notified_at is set once the
+// subscriber has been emailed about it
+export interface SavedSearchMatch {
+  id: string;
+  saved_search_id: string;
+  post_id: string;
+  notified_at: string | null;
+  created_at: string;
+}
+
+// A search typed into the search bar, counted for autocomplete. query is
+// stored lowercased with whitespace collapsed.
+export interface SearchQuery {
+  query: string;
+  search_count: number;
+  last_searched_at: string;
 }
 
 export interface Message {
   id: string;
   post_id: string;
   sender_id: string;
-  sender_email: string;
   sender_name: string;
   recipient_id: string;
-  recipient_email: string;
   subject: string;
   message: string;
   created_at: string;
+  // Set when the recipient opens the conversation
+  read_at: string | null;
+  // Set once the recipient has been emailed about the message
+  notified_at: string | null;
+}
+
+// One side of a conversation's relay alias: the reply-to address on
+// notification emails, so email replies land back in the conversation
+// and neither person sees the other's real address
+export interface MessageReplyToken {
+  token: string;
+  post_id: string;
+  // Who replies with this token, and who their reply goes to
+  user_id: string;
+  counterpart_id: string;
+  created_at: string;
+  // Set when the counterpart stops this person contacting them
+  revoked_at: string | null;
 }
 
 export interface MessageFormData {
   post_id: string;
   recipient_id: string;
-  recipient_email: string;
   subject: string;
   message: string;
 }
 
+// A message with the post it's about, as listed in the inbox
+export interface MessageWithPost extends Message {
+  post: Pick<
+    Post,
+    | "id"
+    | "title"
+    | "price"
+    | "photos"
+    | "photo_variants"
+    | "status"
+    | "seller_id"
+    | "seller_name"
+  > | null;
+}
+
+// Every message between the current user and one other person about one
+// post
+export interface Conversation {
+  post_id: string;
+  post: MessageWithPost["post"];
+  counterpart_id: string;
+  counterpart_name: string;
+  last_message: Message;
+  // Messages from the counterpart the current user hasn't opened
+  unread_count: number;
+}
+
+export interface PostFieldChange {
+  from: unknown;
+  to: unknown;
+}
+
+// Immutable snapshot of what changed in a single post update
+export interface PostRevision {
+  id: string;
+  post_id: string;
+  editor_id: string | null;
+  changes: Record<string, PostFieldChange>;
+  created_at: string;
+}
+
 export interface Database {
   public: {
     Tables: {
@@ -78,14 +304,53 @@ export interface Database {
       };
       posts: {
         Row: Post;
-        Insert: Omit<Post, "id" | "created_at" | "updated_at">;
+        Insert: Omit<Post, "id" | "created_at" | "updated_at" | "status"> & {
+          status?: PostStatus;
+        };
         Update: Partial<Omit<Post, "id" | "created_at" | "updated_at">>;
       };
       messages: {
         Row: Message;
-        Insert: Omit<Message, "id" | "created_at">;
+        Insert: Omit<Message, "id" | "created_at" | "read_at" | "notified_at">;
         Update: Partial<Omit<Message, "id" | "created_at">>;
       };
+      message_reply_tokens: {
+        Row: MessageReplyToken;
+        Insert: Omit<MessageReplyToken, "created_at" | "revoked_at">;
+        Update: Pick<MessageReplyToken, "revoked_at">;
+      };
+      favorites: {
+        Row: Favorite;
+        Insert: Omit<Favorite, "id" | "created_at">;
+        Update: Partial<Pick<Favorite, "notified_price" | "notified_status">>;
+      };
+      saved_searches: {
+        Row: SavedSearch;
+        Insert: Omit<SavedSearch, "id" | "created_at">;
+        Update: Partial<Pick<SavedSearch, "name" | "filters" | "frequency">>;
+      };
+      saved_search_matches: {
+        Row: SavedSearchMatch;
+        Insert: Omit<SavedSearchMatch, "id" | "created_at" | "notified_at">;
+        Update: Partial<Pick<SavedSearchMatch, "notified_at">>;
+      };
+      search_queries: {
+        Row: SearchQuery;
+        // Written only through the record_search_query function
+        Insert: never;
+        Update: never;
+      };
+      post_drafts: {
+        Row: PostDraft;
+        Insert: Omit<PostDraft, "id" | "created_at" | "updated_at">;
+        Update: Partial<Omit<PostDraft, "id" | "user_id" | "created_at">>;
+      };
+      post_revisions: {
+        Row: PostRevision;
+        // Written by the posts trigger; revisions are append-only
+        Insert: never;
+        Update: never;
+      };
     };
   };
 }
@@ -255,11 +520,11 @@ export interface PostWithStripe extends Post {
 }
 
 // Transaction with related data
+// Buyers and sellers reach each other through relay aliases, so neither
+// side's email address is part of the summary
 export interface TransactionWithDetails extends Transaction {
   post_title?: string;
   post_price?: number;
-  buyer_email?: string;
-  seller_email?: string;
   seller_charges_enabled?: boolean;
 }
 